@@ -0,0 +1,66 @@
+/**
+ * API Token Store
+ *
+ * HTTP API tokens. Only a SHA-256 hash of each token is stored; the
+ * plaintext is shown once when the token is created.
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+
+export interface ApiTokenRow {
+  id: string;
+  name: string;
+  token_hash: string;
+  /** JSON array of scopes */
+  scopes: string;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      scopes TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER,
+      revoked_at INTEGER
+    );
+  `);
+});
+
+export function insertApiToken(id: string, name: string, tokenHash: string, scopes: string[]): void {
+  getConnection().prepare(`
+    INSERT INTO api_tokens (id, name, token_hash, scopes, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(id, name, tokenHash, JSON.stringify(scopes), Date.now());
+}
+
+/**
+ * Find an active (not revoked) token by hash
+ */
+export function findActiveApiToken(tokenHash: string): ApiTokenRow | undefined {
+  return getConnection()
+    .prepare('SELECT * FROM api_tokens WHERE token_hash = ? AND revoked_at IS NULL')
+    .get(tokenHash) as ApiTokenRow | undefined;
+}
+
+export function touchApiToken(id: string): void {
+  getConnection().prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').run(Date.now(), id);
+}
+
+export function listApiTokenRows(): ApiTokenRow[] {
+  return getConnection().prepare('SELECT * FROM api_tokens ORDER BY created_at DESC').all() as ApiTokenRow[];
+}
+
+/**
+ * @returns false if the token doesn't exist or was already revoked
+ */
+export function revokeApiTokenRow(id: string): boolean {
+  return getConnection()
+    .prepare('UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+    .run(Date.now(), id).changes > 0;
+}
@@ -0,0 +1,71 @@
+/**
+ * Feature Table Connection
+ *
+ * Shared better-sqlite3 handle for feature tables (history, index, ...).
+ * Opens the guardian database file in WAL mode so it can coexist with
+ * the operation-log connection owned by schema.ts.
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_DB_PATH = join(__dirname, '..', '..', 'data', 'filesystem-guardian.db');
+
+type Migration = (db: Database.Database) => void;
+
+let connection: Database.Database | null = null;
+const migrations: Migration[] = [];
+
+/**
+ * Register table setup to run when the connection opens
+ * Migrations must be idempotent (CREATE ... IF NOT EXISTS).
+ */
+export function registerMigration(migration: Migration): void {
+  migrations.push(migration);
+  if (connection) {
+    migration(connection);
+  }
+}
+
+/**
+ * Open the connection and apply registered migrations
+ */
+export function openConnection(dbPath: string = process.env.FG_DB_PATH || DEFAULT_DB_PATH): Database.Database {
+  if (connection) return connection;
+
+  if (dbPath !== ':memory:') {
+    mkdirSync(dirname(dbPath), { recursive: true });
+  }
+
+  connection = new Database(dbPath);
+  connection.pragma('journal_mode = WAL');
+  connection.pragma('busy_timeout = 5000');
+
+  for (const migration of migrations) {
+    migration(connection);
+  }
+
+  return connection;
+}
+
+/**
+ * Get the open connection
+ * @throws Error if openConnection() has not been called
+ */
+export function getConnection(): Database.Database {
+  if (!connection) {
+    throw new Error('Database connection not initialized');
+  }
+  return connection;
+}
+
+export function closeConnection(): void {
+  if (connection) {
+    connection.close();
+    connection = null;
+  }
+}
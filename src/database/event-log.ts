@@ -0,0 +1,109 @@
+/**
+ * Watch Event Log
+ *
+ * Append-only record of every delivered watch event. The AUTOINCREMENT
+ * sequence is never reused, even after pruning, so consumers can resume
+ * from the last sequence number they saw.
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+import { createTableRetention, type Retention } from './retention.js';
+
+export interface EventLogRow {
+  seq: number;
+  watch_id: string;
+  type: string;
+  path: string;
+  from_path: string | null;
+  timestamp: string;
+  created_at: number;
+}
+
+export type EventLogRetention = Retention;
+
+const retention = createTableRetention({
+  table: 'watch_event_log',
+  key: 'seq',
+  pruneInterval: 1000,
+  limits: {
+    maxAgeDays: Number(process.env.EVENT_LOG_RETENTION_DAYS ?? 7),
+    maxEntries: Number(process.env.EVENT_LOG_MAX_ENTRIES ?? 100000)
+  }
+});
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS watch_event_log (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      watch_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      path TEXT NOT NULL,
+      from_path TEXT,
+      timestamp TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_watch_event_log_created ON watch_event_log(created_at);
+  `);
+});
+
+/**
+ * Append an event
+ * @returns Sequence number
+ */
+export function appendEventLog(
+  watchId: string,
+  type: string,
+  path: string,
+  fromPath: string | null,
+  timestamp: string
+): number {
+  const result = getConnection().prepare(`
+    INSERT INTO watch_event_log (watch_id, type, path, from_path, timestamp, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(watchId, type, path, fromPath, timestamp, Date.now());
+
+  retention.inserted();
+
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Events after a sequence number, oldest first
+ */
+export function getEventLogRows(since: number, limit: number, watchId?: string): EventLogRow[] {
+  return getConnection().prepare(`
+    SELECT * FROM watch_event_log
+    WHERE seq > ? ${watchId ? 'AND watch_id = ?' : ''}
+    ORDER BY seq ASC LIMIT ?
+  `).all(...[since, ...(watchId ? [watchId] : []), limit]) as EventLogRow[];
+}
+
+/**
+ * Oldest retained and latest assigned sequence numbers (0 when empty)
+ */
+export function getEventLogBounds(): { oldest: number; latest: number } {
+  const db = getConnection();
+  const oldest = db.prepare('SELECT MIN(seq) AS seq FROM watch_event_log').get() as { seq: number | null };
+  // sqlite_sequence remembers the last seq even after every row was pruned
+  const latest = db.prepare("SELECT seq FROM sqlite_sequence WHERE name = 'watch_event_log'").get() as { seq: number } | undefined;
+  return { oldest: oldest.seq ?? 0, latest: latest?.seq ?? 0 };
+}
+
+/**
+ * Configure retention limits
+ */
+export function setEventLogRetention(limits: Partial<EventLogRetention>): void {
+  retention.set(limits);
+}
+
+export function getEventLogRetention(): EventLogRetention {
+  return retention.get();
+}
+
+/**
+ * Apply retention limits
+ * @returns Number of events removed
+ */
+export function pruneEventLog(): number {
+  return retention.prune();
+}
@@ -0,0 +1,107 @@
+/**
+ * Event Rules
+ *
+ * Stored automation rules (predicates + actions as JSON) and the log of
+ * every rule execution.
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+
+export interface EventRuleRow {
+  id: string;
+  name: string;
+  enabled: number;
+  /** JSON: events, paths, kinds, actions */
+  definition: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface EventRuleRunRow {
+  id: number;
+  rule_id: string;
+  event_seq: number | null;
+  event_type: string;
+  path: string;
+  success: number;
+  /** JSON: per-action results */
+  results: string;
+  created_at: number;
+}
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS event_rules (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      enabled INTEGER NOT NULL,
+      definition TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS event_rule_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rule_id TEXT NOT NULL,
+      event_seq INTEGER,
+      event_type TEXT NOT NULL,
+      path TEXT NOT NULL,
+      success INTEGER NOT NULL,
+      results TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_event_rule_runs_rule ON event_rule_runs(rule_id, id);
+  `);
+});
+
+export function insertEventRule(id: string, name: string, enabled: boolean, definition: string): void {
+  const now = Date.now();
+  getConnection().prepare(`
+    INSERT INTO event_rules (id, name, enabled, definition, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(id, name, enabled ? 1 : 0, definition, now, now);
+}
+
+export function updateEventRuleRow(id: string, name: string, enabled: boolean, definition: string): boolean {
+  return getConnection().prepare(`
+    UPDATE event_rules SET name = ?, enabled = ?, definition = ?, updated_at = ? WHERE id = ?
+  `).run(name, enabled ? 1 : 0, definition, Date.now(), id).changes > 0;
+}
+
+export function getEventRuleRow(id: string): EventRuleRow | undefined {
+  return getConnection().prepare('SELECT * FROM event_rules WHERE id = ?').get(id) as EventRuleRow | undefined;
+}
+
+export function listEventRuleRows(): EventRuleRow[] {
+  return getConnection().prepare('SELECT * FROM event_rules ORDER BY created_at, id').all() as EventRuleRow[];
+}
+
+export function deleteEventRuleRow(id: string): boolean {
+  return getConnection().prepare('DELETE FROM event_rules WHERE id = ?').run(id).changes > 0;
+}
+
+export function recordEventRuleRun(
+  ruleId: string,
+  eventSeq: number | null,
+  eventType: string,
+  path: string,
+  success: boolean,
+  results: string
+): void {
+  getConnection().prepare(`
+    INSERT INTO event_rule_runs (rule_id, event_seq, event_type, path, success, results, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(ruleId, eventSeq, eventType, path, success ? 1 : 0, results, Date.now());
+}
+
+/**
+ * Recent runs, newest first
+ */
+export function getEventRuleRunRows(ruleId: string | undefined, limit: number = 100): EventRuleRunRow[] {
+  const db = getConnection();
+  if (ruleId) {
+    return db.prepare(`
+      SELECT * FROM event_rule_runs WHERE rule_id = ? ORDER BY id DESC LIMIT ?
+    `).all(ruleId, limit) as EventRuleRunRow[];
+  }
+  return db.prepare('SELECT * FROM event_rule_runs ORDER BY id DESC LIMIT ?').all(limit) as EventRuleRunRow[];
+}
@@ -0,0 +1,209 @@
+/**
+ * Local Metadata Index
+ *
+ * Structured tables plus an FTS5 table holding file names and xattr
+ * values, used as a Spotlight alternative on hosts without mdfind.
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+
+export interface IndexedFile {
+  path: string;
+  name: string;
+  size: number;
+  mtime: number;
+  kind: string;
+}
+
+export interface IndexedFileRow extends IndexedFile {
+  id: number;
+  indexed_at: number;
+}
+
+export interface IndexStats {
+  files: number;
+  xattrs: number;
+  lastIndexedAt: string | null;
+}
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS file_index (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      path TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      mtime INTEGER NOT NULL,
+      kind TEXT NOT NULL,
+      indexed_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_file_index_name ON file_index(name);
+    CREATE INDEX IF NOT EXISTS idx_file_index_mtime ON file_index(mtime);
+
+    CREATE TABLE IF NOT EXISTS file_xattrs (
+      file_id INTEGER NOT NULL REFERENCES file_index(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      value TEXT,
+      PRIMARY KEY (file_id, name)
+    );
+    CREATE INDEX IF NOT EXISTS idx_file_xattrs_name ON file_xattrs(name, value);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS file_index_fts USING fts5(
+      name,
+      xattrs,
+      tokenize = 'unicode61'
+    );
+  `);
+});
+
+/**
+ * Insert or replace a file and its attributes
+ * @param xattrs - Attribute name to searchable text value
+ */
+export function upsertIndexedFile(file: IndexedFile, xattrs: Record<string, string | null>): void {
+  const db = getConnection();
+
+  db.transaction(() => {
+    const now = Date.now();
+    const { id } = db.prepare(`
+      INSERT INTO file_index (path, name, size, mtime, kind, indexed_at)
+      VALUES (@path, @name, @size, @mtime, @kind, @indexed_at)
+      ON CONFLICT(path) DO UPDATE SET
+        name = excluded.name,
+        size = excluded.size,
+        mtime = excluded.mtime,
+        kind = excluded.kind,
+        indexed_at = excluded.indexed_at
+      RETURNING id
+    `).get({ ...file, indexed_at: now }) as { id: number };
+
+    db.prepare('DELETE FROM file_xattrs WHERE file_id = ?').run(id);
+    const insertXattr = db.prepare('INSERT INTO file_xattrs (file_id, name, value) VALUES (?, ?, ?)');
+    for (const [name, value] of Object.entries(xattrs)) {
+      insertXattr.run(id, name, value);
+    }
+
+    const searchable = Object.entries(xattrs).map(([name, value]) => `${name} ${value ?? ''}`).join('\n');
+    db.prepare('DELETE FROM file_index_fts WHERE rowid = ?').run(id);
+    db.prepare('INSERT INTO file_index_fts (rowid, name, xattrs) VALUES (?, ?, ?)').run(id, file.name, searchable);
+  })();
+}
+
+/**
+ * Remove a path and everything beneath it
+ * @returns Number of files removed
+ */
+export function removeIndexedPath(path: string): number {
+  const db = getConnection();
+  const prefix = path.endsWith('/') ? path : path + '/';
+
+  return db.transaction(() => {
+    const ids = db.prepare(`
+      SELECT id FROM file_index WHERE path = ? OR substr(path, 1, ?) = ?
+    `).all(path, prefix.length, prefix) as Array<{ id: number }>;
+
+    const deleteFts = db.prepare('DELETE FROM file_index_fts WHERE rowid = ?');
+    const deleteXattrs = db.prepare('DELETE FROM file_xattrs WHERE file_id = ?');
+    const deleteFile = db.prepare('DELETE FROM file_index WHERE id = ?');
+    for (const { id } of ids) {
+      deleteFts.run(id);
+      deleteXattrs.run(id);
+      deleteFile.run(id);
+    }
+    return ids.length;
+  })();
+}
+
+/**
+ * Remove files under a root that were not touched since a crawl started
+ */
+export function removeStaleEntries(root: string, crawlStartedAt: number): number {
+  const db = getConnection();
+  const prefix = root.endsWith('/') ? root : root + '/';
+  const stale = db.prepare(`
+    SELECT path FROM file_index
+    WHERE (path = ? OR substr(path, 1, ?) = ?) AND indexed_at < ?
+  `).all(root, prefix.length, prefix, crawlStartedAt) as Array<{ path: string }>;
+
+  let removed = 0;
+  for (const { path } of stale) {
+    removed += removeIndexedPath(path);
+  }
+  return removed;
+}
+
+/**
+ * Full-text search over names and xattr values, ranked by bm25
+ * @param match - FTS5 match expression (callers must escape user input)
+ */
+export function searchIndexedFiles(match: string, scope: string[], limit: number, offset: number = 0): IndexedFileRow[] {
+  const db = getConnection();
+  const { clause, params } = scopeClause(scope);
+
+  return db.prepare(`
+    SELECT f.* FROM file_index_fts
+    JOIN file_index f ON f.id = file_index_fts.rowid
+    WHERE file_index_fts MATCH ? ${clause}
+    ORDER BY bm25(file_index_fts), f.path
+    LIMIT ? OFFSET ?
+  `).all(match, ...params, limit, offset) as IndexedFileRow[];
+}
+
+/**
+ * Query structured columns with a compiled WHERE clause
+ * `where` comes from compileToSql(): it only references `f` (file_index)
+ * and file_xattrs, and takes every value as a bound parameter.
+ */
+export function queryIndexedFiles(
+  where: string,
+  whereParams: unknown[],
+  scope: string[],
+  limit: number,
+  offset: number = 0
+): IndexedFileRow[] {
+  const db = getConnection();
+  const { clause, params } = scopeClause(scope);
+
+  return db.prepare(`
+    SELECT f.* FROM file_index f
+    WHERE (${where}) ${clause}
+    ORDER BY f.path
+    LIMIT ? OFFSET ?
+  `).all(...whereParams, ...params, limit, offset) as IndexedFileRow[];
+}
+
+export function getIndexedXattrs(fileId: number): Record<string, string | null> {
+  const rows = getConnection()
+    .prepare('SELECT name, value FROM file_xattrs WHERE file_id = ?')
+    .all(fileId) as Array<{ name: string; value: string | null }>;
+  return Object.fromEntries(rows.map(r => [r.name, r.value]));
+}
+
+export function getIndexStats(): IndexStats {
+  const db = getConnection();
+  const files = db.prepare('SELECT COUNT(*) AS count, MAX(indexed_at) AS last FROM file_index').get() as { count: number; last: number | null };
+  const xattrs = db.prepare('SELECT COUNT(*) AS count FROM file_xattrs').get() as { count: number };
+  return {
+    files: files.count,
+    xattrs: xattrs.count,
+    lastIndexedAt: files.last ? new Date(files.last).toISOString() : null
+  };
+}
+
+/**
+ * Restrict results to paths under any scope directory
+ */
+function scopeClause(scope: string[]): { clause: string; params: unknown[] } {
+  if (scope.length === 0) {
+    return { clause: '', params: [] };
+  }
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  for (const dir of scope) {
+    const prefix = dir.endsWith('/') ? dir : dir + '/';
+    conditions.push('(f.path = ? OR substr(f.path, 1, ?) = ?)');
+    params.push(dir, prefix.length, prefix);
+  }
+  return { clause: `AND (${conditions.join(' OR ')})`, params };
+}
@@ -0,0 +1,90 @@
+/**
+ * Policy Decision Log
+ *
+ * Every xattr policy evaluation, allowed or denied, recorded alongside
+ * the operation log for auditing. Old decisions are pruned like xattr
+ * history, since every allowed mutation adds a row.
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+import { createTableRetention, type Retention } from './retention.js';
+
+export interface PolicyDecisionRow {
+  id: number;
+  path: string;
+  attribute: string;
+  operation: string;
+  allowed: number;
+  rule: string | null;
+  reason: string;
+  created_at: number;
+}
+
+export type PolicyDecisionRetention = Retention;
+
+const retention = createTableRetention({
+  table: 'xattr_policy_decisions',
+  pruneInterval: 500,
+  limits: {
+    maxAgeDays: Number(process.env.POLICY_DECISION_RETENTION_DAYS ?? 30),
+    maxEntries: Number(process.env.POLICY_DECISION_MAX_ENTRIES ?? 100000)
+  }
+});
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS xattr_policy_decisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      path TEXT NOT NULL,
+      attribute TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      allowed INTEGER NOT NULL,
+      rule TEXT,
+      reason TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_policy_decisions_created ON xattr_policy_decisions(created_at);
+  `);
+});
+
+export function recordPolicyDecision(
+  path: string,
+  attribute: string,
+  operation: string,
+  allowed: boolean,
+  rule: string | null,
+  reason: string
+): void {
+  getConnection().prepare(`
+    INSERT INTO xattr_policy_decisions (path, attribute, operation, allowed, rule, reason, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(path, attribute, operation, allowed ? 1 : 0, rule, reason, Date.now());
+
+  retention.inserted();
+}
+
+/**
+ * Recent decisions, newest first
+ */
+export function getPolicyDecisionRows(limit: number = 100, deniedOnly: boolean = false): PolicyDecisionRow[] {
+  return getConnection().prepare(`
+    SELECT * FROM xattr_policy_decisions
+    ${deniedOnly ? 'WHERE allowed = 0' : ''}
+    ORDER BY id DESC LIMIT ?
+  `).all(limit) as PolicyDecisionRow[];
+}
+
+/**
+ * Configure retention limits
+ */
+export function setPolicyDecisionRetention(limits: Partial<PolicyDecisionRetention>): void {
+  retention.set(limits);
+}
+
+/**
+ * Apply retention limits
+ * @returns Number of decisions removed
+ */
+export function prunePolicyDecisions(): number {
+  return retention.prune();
+}
@@ -0,0 +1,80 @@
+/**
+ * Table Retention
+ *
+ * Age and count limits for append-only tables (history, decisions, event
+ * log, webhook deliveries). Each table counts its inserts and prunes every
+ * N of them rather than on every write.
+ */
+
+import { getConnection } from './connection.js';
+
+export interface Retention {
+  /** Drop rows older than this many days (0 disables) */
+  maxAgeDays: number;
+  /** Keep at most this many rows (0 disables) */
+  maxEntries: number;
+}
+
+export interface RetainedTable {
+  table: string;
+  /** Increasing key; the count limit keeps the highest (default: id) */
+  key?: string;
+  /** Only rows matching this SQL condition are pruned (default: all) */
+  where?: string;
+  /** Inserts between automatic prunes */
+  pruneInterval: number;
+  limits: Retention;
+}
+
+export interface TableRetention {
+  get(): Retention;
+  set(limits: Partial<Retention>): void;
+  /** Count an insert, pruning once every pruneInterval inserts */
+  inserted(): void;
+  /** @returns Number of rows removed */
+  prune(): number;
+}
+
+/**
+ * Retention for one table; created_at must be in milliseconds
+ */
+export function createTableRetention(options: RetainedTable): TableRetention {
+  const { table, key = 'id', where, pruneInterval } = options;
+  const scope = where ? `${where} AND` : '';
+  let limits: Retention = { ...options.limits };
+  let insertsSincePrune = 0;
+
+  const prune = (): number => {
+    const db = getConnection();
+    let removed = 0;
+    insertsSincePrune = 0;
+
+    if (limits.maxAgeDays > 0) {
+      const cutoff = Date.now() - limits.maxAgeDays * 24 * 60 * 60 * 1000;
+      removed += db.prepare(`DELETE FROM ${table} WHERE ${scope} created_at < ?`).run(cutoff).changes;
+    }
+
+    if (limits.maxEntries > 0) {
+      removed += db.prepare(`
+        DELETE FROM ${table} WHERE ${scope} ${key} <= (
+          SELECT ${key} FROM ${table} ${where ? `WHERE ${where}` : ''} ORDER BY ${key} DESC LIMIT 1 OFFSET ?
+        )
+      `).run(limits.maxEntries).changes;
+    }
+
+    return removed;
+  };
+
+  return {
+    get: () => ({ ...limits }),
+    set: (changes) => {
+      limits = { ...limits, ...changes };
+    },
+    inserted: () => {
+      if (++insertsSincePrune >= pruneInterval) {
+        prune();
+      }
+    },
+    prune
+  };
+}
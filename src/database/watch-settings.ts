@@ -0,0 +1,58 @@
+/**
+ * Watch Settings
+ *
+ * Per-watch event delivery settings (debounce window, coalescing, rename
+ * pairing, delivered event types), kept alongside the watch so they survive restoreWatches().
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+
+export interface WatchSettingsRow {
+  watch_id: string;
+  debounce_ms: number;
+  coalesce: number;
+  pair_renames: number;
+  /** JSON array of event types, or null for all */
+  events: string | null;
+  updated_at: number;
+}
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS watch_settings (
+      watch_id TEXT PRIMARY KEY,
+      debounce_ms INTEGER NOT NULL,
+      coalesce INTEGER NOT NULL,
+      pair_renames INTEGER NOT NULL,
+      events TEXT,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+});
+
+export function upsertWatchSettings(
+  watchId: string,
+  debounceMs: number,
+  coalesce: boolean,
+  pairRenames: boolean,
+  events: string[] | null
+): void {
+  getConnection().prepare(`
+    INSERT INTO watch_settings (watch_id, debounce_ms, coalesce, pair_renames, events, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (watch_id) DO UPDATE SET
+      debounce_ms = excluded.debounce_ms,
+      coalesce = excluded.coalesce,
+      pair_renames = excluded.pair_renames,
+      events = excluded.events,
+      updated_at = excluded.updated_at
+  `).run(watchId, debounceMs, coalesce ? 1 : 0, pairRenames ? 1 : 0, events ? JSON.stringify(events) : null, Date.now());
+}
+
+export function getWatchSettingsRows(): WatchSettingsRow[] {
+  return getConnection().prepare('SELECT * FROM watch_settings').all() as WatchSettingsRow[];
+}
+
+export function deleteWatchSettingsRow(watchId: string): boolean {
+  return getConnection().prepare('DELETE FROM watch_settings WHERE watch_id = ?').run(watchId).changes > 0;
+}
@@ -0,0 +1,213 @@
+/**
+ * Webhooks
+ *
+ * Registered webhook endpoints and the persistent delivery queue. A
+ * delivery stays in the table for its whole life: pending until sent,
+ * then delivered or dead (gave up after the retry limit), which doubles
+ * as the delivery history. Finished deliveries are pruned by age and
+ * count; pending ones are never dropped.
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+import { createTableRetention, type Retention } from './retention.js';
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookRow {
+  id: string;
+  url: string;
+  secret: string;
+  watch_id: string | null;
+  /** JSON array of path globs */
+  paths: string | null;
+  /** JSON array of event types */
+  events: string | null;
+  enabled: number;
+  created_at: number;
+}
+
+export interface WebhookDeliveryRow {
+  id: number;
+  webhook_id: string;
+  event_seq: number | null;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+}
+
+export type DeliveryRetention = Retention;
+
+const retention = createTableRetention({
+  table: 'webhook_deliveries',
+  // Pending deliveries are never dropped
+  where: "status != 'pending'",
+  pruneInterval: 500,
+  limits: {
+    maxAgeDays: Number(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS ?? 7),
+    maxEntries: Number(process.env.WEBHOOK_DELIVERY_MAX_ENTRIES ?? 10000)
+  }
+});
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      watch_id TEXT,
+      paths TEXT,
+      events TEXT,
+      enabled INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id TEXT NOT NULL,
+      event_seq INTEGER,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER NOT NULL,
+      last_status INTEGER,
+      last_error TEXT,
+      created_at INTEGER NOT NULL,
+      delivered_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id);
+  `);
+});
+
+export function insertWebhook(
+  id: string,
+  url: string,
+  secret: string,
+  watchId: string | null,
+  paths: string[] | null,
+  events: string[] | null
+): void {
+  getConnection().prepare(`
+    INSERT INTO webhooks (id, url, secret, watch_id, paths, events, enabled, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, 1, ?)
+  `).run(id, url, secret, watchId, paths && JSON.stringify(paths), events && JSON.stringify(events), Date.now());
+}
+
+export function updateWebhookRow(row: WebhookRow): boolean {
+  return getConnection().prepare(`
+    UPDATE webhooks SET url = ?, watch_id = ?, paths = ?, events = ?, enabled = ? WHERE id = ?
+  `).run(row.url, row.watch_id, row.paths, row.events, row.enabled, row.id).changes > 0;
+}
+
+export function getWebhookRow(id: string): WebhookRow | undefined {
+  return getConnection().prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as WebhookRow | undefined;
+}
+
+export function listWebhookRows(): WebhookRow[] {
+  return getConnection().prepare('SELECT * FROM webhooks ORDER BY created_at, id').all() as WebhookRow[];
+}
+
+/**
+ * Delete a webhook and its queued and past deliveries
+ */
+export function deleteWebhookRow(id: string): boolean {
+  const db = getConnection();
+  return db.transaction(() => {
+    db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(id);
+    return db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+  })();
+}
+
+export function enqueueWebhookDelivery(webhookId: string, eventSeq: number | null, payload: string): number {
+  const now = Date.now();
+  const result = getConnection().prepare(`
+    INSERT INTO webhook_deliveries (webhook_id, event_seq, payload, status, next_attempt_at, created_at)
+    VALUES (?, ?, ?, 'pending', ?, ?)
+  `).run(webhookId, eventSeq, payload, now, now);
+
+  retention.inserted();
+
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first
+ * @param afterId - Only deliveries with a higher ID, to page through the queue
+ */
+export function getDueWebhookDeliveries(now: number, limit: number, afterId: number = 0): WebhookDeliveryRow[] {
+  return getConnection().prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= ? AND id > ?
+    ORDER BY id ASC LIMIT ?
+  `).all(now, afterId, limit) as WebhookDeliveryRow[];
+}
+
+export function markWebhookDelivered(id: number, statusCode: number): void {
+  getConnection().prepare(`
+    UPDATE webhook_deliveries
+    SET status = 'delivered', attempts = attempts + 1, last_status = ?, last_error = NULL, delivered_at = ?
+    WHERE id = ?
+  `).run(statusCode, Date.now(), id);
+}
+
+/**
+ * Record a failed attempt; a null nextAttemptAt dead-letters the delivery
+ */
+export function markWebhookFailed(id: number, statusCode: number | null, error: string, nextAttemptAt: number | null): void {
+  getConnection().prepare(`
+    UPDATE webhook_deliveries
+    SET status = ?, attempts = attempts + 1, last_status = ?, last_error = ?, next_attempt_at = COALESCE(?, next_attempt_at)
+    WHERE id = ?
+  `).run(nextAttemptAt === null ? 'dead' : 'pending', statusCode, error, nextAttemptAt, id);
+}
+
+/**
+ * Put a dead delivery back in the queue
+ */
+export function requeueWebhookDelivery(id: number): boolean {
+  return getConnection().prepare(`
+    UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = ?
+    WHERE id = ? AND status = 'dead'
+  `).run(Date.now(), id).changes > 0;
+}
+
+/**
+ * Delivery history, newest first
+ */
+export function getWebhookDeliveryRows(webhookId?: string, status?: DeliveryStatus, limit: number = 100): WebhookDeliveryRow[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (webhookId) {
+    conditions.push('webhook_id = ?');
+    params.push(webhookId);
+  }
+  if (status) {
+    conditions.push('status = ?');
+    params.push(status);
+  }
+
+  return getConnection().prepare(`
+    SELECT * FROM webhook_deliveries
+    ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+    ORDER BY id DESC LIMIT ?
+  `).all(...params, limit) as WebhookDeliveryRow[];
+}
+
+/**
+ * Configure retention limits
+ */
+export function setDeliveryRetention(limits: Partial<DeliveryRetention>): void {
+  retention.set(limits);
+}
+
+/**
+ * Apply retention limits to delivered and dead deliveries
+ * @returns Number of deliveries removed
+ */
+export function pruneWebhookDeliveries(): number {
+  return retention.prune();
+}
@@ -0,0 +1,90 @@
+/**
+ * Xattr Fallback Store
+ *
+ * Attribute values for files on filesystems that reject xattrs (ENOTSUP).
+ * Rows are keyed by device and inode so values follow a file across
+ * renames; the path is refreshed on every write and used for migration.
+ * Inodes are reused once a file is deleted, so each row also records the
+ * file's birth time to tell a renamed file from a new one.
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+
+export interface FallbackXattrRow {
+  dev: string;
+  ino: string;
+  path: string;
+  /** Birth time in nanoseconds, null where the filesystem doesn't report one */
+  born: string | null;
+  name: string;
+  value: Buffer;
+  updated_at: number;
+}
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS xattr_fallback (
+      dev TEXT NOT NULL,
+      ino TEXT NOT NULL,
+      path TEXT NOT NULL,
+      born TEXT,
+      name TEXT NOT NULL,
+      value BLOB NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (dev, ino, name)
+    );
+    CREATE INDEX IF NOT EXISTS idx_xattr_fallback_path ON xattr_fallback(path);
+  `);
+});
+
+/**
+ * Stored attributes for one file, by name
+ */
+export function getFallbackXattrRows(dev: string, ino: string): FallbackXattrRow[] {
+  return getConnection().prepare(`
+    SELECT * FROM xattr_fallback WHERE dev = ? AND ino = ? ORDER BY name
+  `).all(dev, ino) as FallbackXattrRow[];
+}
+
+export function putFallbackXattr(
+  dev: string,
+  ino: string,
+  born: string | null,
+  path: string,
+  name: string,
+  value: Buffer
+): void {
+  const db = getConnection();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO xattr_fallback (dev, ino, path, born, name, value, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (dev, ino, name) DO UPDATE SET
+        path = excluded.path, born = excluded.born, value = excluded.value, updated_at = excluded.updated_at
+    `).run(dev, ino, path, born, name, value, Date.now());
+
+    // Keep the path current for every attribute of a renamed file
+    db.prepare('UPDATE xattr_fallback SET path = ? WHERE dev = ? AND ino = ?').run(path, dev, ino);
+  })();
+}
+
+/**
+ * @returns true if a stored value was removed
+ */
+export function deleteFallbackXattr(dev: string, ino: string, name: string): boolean {
+  return getConnection().prepare(`
+    DELETE FROM xattr_fallback WHERE dev = ? AND ino = ? AND name = ?
+  `).run(dev, ino, name).changes > 0;
+}
+
+/**
+ * Stored attributes for a file or every file beneath a directory
+ */
+export function getFallbackXattrRowsUnder(path: string): FallbackXattrRow[] {
+  const prefix = path.endsWith('/') ? path : path + '/';
+  return getConnection().prepare(`
+    SELECT * FROM xattr_fallback
+    WHERE path = ? OR substr(path, 1, ?) = ?
+    ORDER BY path, name
+  `).all(path, prefix.length, prefix) as FallbackXattrRow[];
+}
@@ -0,0 +1,138 @@
+/**
+ * Xattr Value History
+ *
+ * Append-only record of every attribute set/delete with the previous and
+ * new raw bytes, so changes can be inspected and rolled back.
+ */
+
+import { registerMigration, getConnection } from './connection.js';
+import { createTableRetention, type Retention } from './retention.js';
+
+export type HistoryOperation = 'set' | 'delete' | 'rollback' | 'migrate';
+
+export interface XattrHistoryRow {
+  id: number;
+  path: string;
+  attribute: string;
+  operation: HistoryOperation;
+  old_value: Buffer | null;
+  new_value: Buffer | null;
+  created_at: number;
+}
+
+export type HistoryRetention = Retention;
+
+const retention = createTableRetention({
+  table: 'xattr_history',
+  pruneInterval: 500,
+  limits: {
+    maxAgeDays: Number(process.env.XATTR_HISTORY_RETENTION_DAYS ?? 30),
+    maxEntries: Number(process.env.XATTR_HISTORY_MAX_ENTRIES ?? 100000)
+  }
+});
+
+registerMigration((db) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS xattr_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      path TEXT NOT NULL,
+      attribute TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      old_value BLOB,
+      new_value BLOB,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_xattr_history_path ON xattr_history(path, attribute, id);
+    CREATE INDEX IF NOT EXISTS idx_xattr_history_created ON xattr_history(created_at);
+  `);
+});
+
+/**
+ * Record a value change
+ * @returns History entry ID
+ */
+export function recordXattrChange(
+  path: string,
+  attribute: string,
+  operation: HistoryOperation,
+  oldValue: Buffer | null,
+  newValue: Buffer | null
+): number {
+  const db = getConnection();
+  const result = db.prepare(`
+    INSERT INTO xattr_history (path, attribute, operation, old_value, new_value, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(path, attribute, operation, oldValue, newValue, Date.now());
+
+  retention.inserted();
+
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Get history for a path, newest first
+ */
+export function getXattrHistoryRows(path: string, attribute?: string, limit: number = 100): XattrHistoryRow[] {
+  const db = getConnection();
+  if (attribute) {
+    return db.prepare(`
+      SELECT * FROM xattr_history WHERE path = ? AND attribute = ?
+      ORDER BY id DESC LIMIT ?
+    `).all(path, attribute, limit) as XattrHistoryRow[];
+  }
+  return db.prepare(`
+    SELECT * FROM xattr_history WHERE path = ?
+    ORDER BY id DESC LIMIT ?
+  `).all(path, limit) as XattrHistoryRow[];
+}
+
+export function getXattrHistoryEntry(id: number): XattrHistoryRow | undefined {
+  return getConnection().prepare('SELECT * FROM xattr_history WHERE id = ?').get(id) as XattrHistoryRow | undefined;
+}
+
+/**
+ * Earliest change per attribute at or after a point in history
+ * Its old_value is the attribute's state before that point.
+ */
+export function getEarliestChangesSince(
+  path: string,
+  since: { id: number } | { timestamp: number },
+  attribute?: string
+): XattrHistoryRow[] {
+  const db = getConnection();
+  const [column, bound] = 'id' in since ? ['id', since.id] : ['created_at', since.timestamp];
+  const comparison = 'id' in since ? '>=' : '>';
+
+  const rows = db.prepare(`
+    SELECT * FROM xattr_history
+    WHERE path = ? AND ${column} ${comparison} ? ${attribute ? 'AND attribute = ?' : ''}
+    ORDER BY id ASC
+  `).all(...[path, bound, ...(attribute ? [attribute] : [])]) as XattrHistoryRow[];
+
+  const earliest = new Map<string, XattrHistoryRow>();
+  for (const row of rows) {
+    if (!earliest.has(row.attribute)) {
+      earliest.set(row.attribute, row);
+    }
+  }
+  return [...earliest.values()];
+}
+
+/**
+ * Configure retention limits
+ */
+export function setHistoryRetention(limits: Partial<HistoryRetention>): void {
+  retention.set(limits);
+}
+
+export function getHistoryRetention(): HistoryRetention {
+  return retention.get();
+}
+
+/**
+ * Apply retention limits
+ * @returns Number of entries removed
+ */
+export function pruneXattrHistory(): number {
+  return retention.prune();
+}
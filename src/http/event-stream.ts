@@ -0,0 +1,162 @@
+/**
+ * Server-Sent Events stream of watch events
+ * GET /api/events/stream?watch_id=&path=&events=created,deleted
+ *
+ * Fed by the watch event bus, like the WebSocket server. Each event is
+ * sent with its event log sequence number as the SSE id, so a client that
+ * reconnects with Last-Event-ID (EventSource does this by itself) gets
+ * the events it missed from the log before live ones resume.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { subscribeWatchEvents, type WatchEvent } from '../services/watch-events.js';
+import { replayEvents } from '../services/event-log-service.js';
+import type { FsEventType } from '../types.js';
+import { GuardianError, InvalidInputError } from '../utils/errors.js';
+
+export interface EventStreamLimits {
+  /** Concurrent streams before new ones are rejected (RATE_LIMITED) */
+  maxStreams: number;
+  /** Interval between keep-alive comments */
+  heartbeatMs: number;
+}
+
+interface EventStreamFilter {
+  watchId?: string;
+  pathPrefix?: string;
+  types?: Set<FsEventType>;
+}
+
+const EVENT_TYPES: FsEventType[] = ['created', 'modified', 'deleted', 'renamed'];
+
+/** Client reconnect delay suggested to EventSource */
+const RETRY_MS = 3000;
+
+let limits: EventStreamLimits = {
+  maxStreams: Number(process.env.EVENT_STREAM_MAX ?? 20),
+  heartbeatMs: 15_000
+};
+
+const streams = new Set<ServerResponse>();
+
+export function setEventStreamLimits(next: Partial<EventStreamLimits>): void {
+  limits = { ...limits, ...next };
+}
+
+export function getEventStreamCount(): number {
+  return streams.size;
+}
+
+/**
+ * End every open stream (server shutdown)
+ */
+export function closeEventStreams(): void {
+  for (const res of streams) {
+    res.end();
+  }
+  streams.clear();
+}
+
+/**
+ * @throws InvalidInputError on an unknown event type
+ */
+function parseFilter(params: URLSearchParams): EventStreamFilter {
+  const filter: EventStreamFilter = {};
+  const watchId = params.get('watch_id');
+  if (watchId) {
+    filter.watchId = watchId;
+  }
+
+  const path = params.get('path');
+  if (path) {
+    filter.pathPrefix = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  }
+
+  const events = params.get('events');
+  if (events) {
+    const types = events.split(',').map(t => t.trim()).filter(Boolean);
+    const unknown = types.filter(t => !EVENT_TYPES.includes(t as FsEventType));
+    if (unknown.length > 0) {
+      throw new InvalidInputError(`Unknown event type: ${unknown.join(', ')}`);
+    }
+    filter.types = new Set(types as FsEventType[]);
+  }
+
+  return filter;
+}
+
+function underPrefix(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(prefix === '/' ? prefix : prefix + '/');
+}
+
+function matchesFilter(event: WatchEvent, filter: EventStreamFilter): boolean {
+  if (filter.watchId && event.watchId !== filter.watchId) return false;
+  if (filter.types && !filter.types.has(event.type)) return false;
+  if (filter.pathPrefix) {
+    const prefix = filter.pathPrefix;
+    if (!underPrefix(event.path, prefix) && !(event.from && underPrefix(event.from, prefix))) return false;
+  }
+  return true;
+}
+
+function writeEvent(res: ServerResponse, event: WatchEvent): void {
+  const id = event.seq !== undefined ? `id: ${event.seq}\n` : '';
+  res.write(`${id}event: watch\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Serve one stream until the client disconnects
+ * @throws GuardianError before the stream opens if the request is invalid
+ *   or the stream limit is reached
+ */
+export async function handleEventStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const params = new URL(req.url || '/', 'http://localhost').searchParams;
+
+  const filter = parseFilter(params);
+
+  const lastEventId = req.headers['last-event-id'] ?? params.get('last_event_id');
+  const since = lastEventId !== undefined && lastEventId !== null ? Number(lastEventId) : null;
+  if (since !== null && (!Number.isSafeInteger(since) || since < 0)) {
+    throw new InvalidInputError('Last-Event-ID must be an event sequence number');
+  }
+
+  if (streams.size >= limits.maxStreams) {
+    res.setHeader('Retry-After', String(RETRY_MS / 1000));
+    throw new GuardianError('RATE_LIMITED', 'Too many event streams');
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+  streams.add(res);
+
+  const send = (event: WatchEvent) => {
+    if (matchesFilter(event, filter)) {
+      writeEvent(res, event);
+    }
+  };
+
+  // Replay and subscribe in the same tick so no event falls in between
+  if (since !== null) {
+    const replay = replayEvents(since, send, filter.watchId);
+    if (replay.truncated) {
+      res.write(`event: truncated\ndata: ${JSON.stringify({ since })}\n\n`);
+    }
+  }
+  const unsubscribe = subscribeWatchEvents(send);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), limits.heartbeatMs);
+  heartbeat.unref();
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    streams.delete(res);
+  };
+  res.on('close', cleanup);
+  res.on('error', cleanup);
+}
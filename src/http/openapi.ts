@@ -0,0 +1,130 @@
+/**
+ * OpenAPI Document
+ * Generated from the route schemas and the tools' inputSchema definitions,
+ * so it can't drift from what the server actually validates.
+ */
+
+import { ROUTE_SCHEMAS } from './route-schemas.js';
+import type { JsonSchema } from '../utils/json-schema.js';
+import { ERROR_CODES } from '../utils/errors.js';
+
+export interface OpenApiTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+}
+
+export interface OpenApiScopes {
+  /** Keyed like ROUTE_SCHEMAS; null means no token needed */
+  routes: Record<string, string | null>;
+  tools: Record<string, string>;
+}
+
+const ERROR_CONTENT = { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } };
+
+const ERROR_RESPONSES = {
+  '400': { description: 'Invalid request (INVALID_INPUT with issues, INVALID_PATH)', content: ERROR_CONTENT },
+  '401': { description: 'Authentication required', content: ERROR_CONTENT },
+  '403': { description: 'Missing scope, or the sandbox or policy refused the operation', content: ERROR_CONTENT },
+  '404': { description: 'Resource, file or attribute not found', content: ERROR_CONTENT },
+  '429': { description: 'Rate limit exceeded', content: ERROR_CONTENT },
+  '500': { description: 'Internal error (the message is withheld; see request_id)', content: ERROR_CONTENT }
+};
+
+function queryParameters(schema: JsonSchema): object[] {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: required.has(name),
+    ...(property.description && { description: property.description }),
+    schema: property
+  }));
+}
+
+function scopeFields(scope: string | null | undefined): object {
+  // Routes missing from the scope table need admin (see requiredScope)
+  const required = scope === undefined ? 'admin' : scope;
+  return required === null
+    ? { security: [] }
+    : { 'x-required-scope': required };
+}
+
+export function buildOpenApiDocument(tools: OpenApiTool[], scopes: OpenApiScopes): object {
+  const paths: Record<string, Record<string, object>> = {};
+
+  for (const [key, route] of Object.entries(ROUTE_SCHEMAS)) {
+    const [method, path] = key.split(' ');
+    paths[path] = paths[path] ?? {};
+    paths[path][method.toLowerCase()] = {
+      summary: route.summary,
+      ...(route.query && { parameters: queryParameters(route.query) }),
+      ...(route.body && {
+        requestBody: { required: true, content: { 'application/json': { schema: route.body } } }
+      }),
+      ...scopeFields(scopes.routes[key]),
+      responses: { '200': { description: 'Success' }, ...ERROR_RESPONSES }
+    };
+  }
+
+  for (const tool of tools) {
+    paths[`/api/tools/${tool.name}`] = {
+      post: {
+        summary: `Call the ${tool.name} tool`,
+        description: tool.description,
+        tags: ['tools'],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: tool.inputSchema } }
+        },
+        ...scopeFields(scopes.tools[tool.name]),
+        responses: {
+          '200': {
+            description: 'Tool result',
+            content: {
+              'application/json': {
+                schema: { type: 'object', properties: { success: { type: 'boolean' }, result: {} } }
+              }
+            }
+          },
+          ...ERROR_RESPONSES
+        }
+      }
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Filesystem Guardian',
+      version: '1.0.0',
+      description: 'Extended attributes, Finder tags, Spotlight search and filesystem watches'
+    },
+    servers: [{ url: 'http://localhost:8026' }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API token (not checked when HTTP_AUTH=off)' }
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', description: 'Human-readable message (may change)' },
+            code: { type: 'string', enum: [...ERROR_CODES], description: 'Stable error code' },
+            issues: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { path: { type: 'string' }, message: { type: 'string' } },
+                required: ['path', 'message']
+              }
+            }
+          },
+          required: ['error', 'code']
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * HTTP Route Schemas
+ *
+ * JSON schemas for every REST route's body (POST) or query string (GET).
+ * Requests are validated against them before the handler runs, and the
+ * OpenAPI document is generated from them. Routes that mirror a tool
+ * reuse the tool's inputSchema, and are validated with the tool's zod
+ * schema so its refinements (e.g. rollback's operation_id or timestamp)
+ * apply over HTTP too.
+ */
+
+import type { z, ZodTypeAny } from 'zod';
+import { jsonSchemaToZod, formatZodIssues, type JsonSchema, type SchemaIssue } from '../utils/json-schema.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { GET_XATTR_HISTORY_TOOL, GetXattrHistoryInputSchema } from '../tools/get-xattr-history.js';
+import { ROLLBACK_XATTR_TOOL, RollbackXattrInputSchema } from '../tools/rollback-xattr.js';
+import { BULK_SET_XATTR_TOOL, BulkSetXattrInputSchema } from '../tools/bulk-set-xattr.js';
+import { COPY_XATTRS_TOOL, CopyXattrsInputSchema } from '../tools/copy-xattrs.js';
+import { SYNC_XATTRS_TOOL, SyncXattrsInputSchema } from '../tools/sync-xattrs.js';
+import { MIGRATE_FALLBACK_XATTRS_TOOL, MigrateFallbackXattrsInputSchema } from '../tools/migrate-fallback-xattrs.js';
+import { LIST_APPLEDOUBLE_TOOL, ListAppleDoubleInputSchema } from '../tools/list-appledouble.js';
+import { IMPORT_APPLEDOUBLE_TOOL, ImportAppleDoubleInputSchema } from '../tools/import-appledouble.js';
+import { EXPORT_APPLEDOUBLE_TOOL, ExportAppleDoubleInputSchema } from '../tools/export-appledouble.js';
+import { GET_TAGS_TOOL, GetTagsInputSchema } from '../tools/get-tags.js';
+import { ADD_TAGS_TOOL, AddTagsInputSchema } from '../tools/add-tags.js';
+import { REMOVE_TAGS_TOOL, RemoveTagsInputSchema } from '../tools/remove-tags.js';
+import { SET_TAGS_TOOL, SetTagsInputSchema } from '../tools/set-tags.js';
+import { FIND_BY_TAG_TOOL, FindByTagInputSchema } from '../tools/find-by-tag.js';
+import { CONFIGURE_WATCH_TOOL, ConfigureWatchInputSchema } from '../tools/configure-watch.js';
+import { BATCH_TOOL, BatchInputSchema } from '../tools/batch.js';
+import type { FsEventType } from '../types.js';
+import type { DeliveryStatus } from '../database/webhooks.js';
+import type { XattrInput } from '../utils/xattr-encoding.js';
+
+export interface RouteSchema {
+  summary: string;
+  /** Query parameters (GET) */
+  query?: JsonSchema;
+  /** JSON body (POST) */
+  body?: JsonSchema;
+  /** Validates the body instead of `body` (the tool's own schema) */
+  validator?: ZodTypeAny;
+}
+
+type NoInput = Record<string, never>;
+
+/**
+ * Validated input each route handler receives, keyed like ROUTE_SCHEMAS
+ * Routes that mirror a tool take the type of the tool's zod schema.
+ */
+export interface RouteInputs {
+  'GET /health': NoInput;
+  'GET /health/ready': NoInput;
+  'GET /api/sandbox': NoInput;
+  'GET /api/watches': NoInput;
+  'GET /api/operations': NoInput;
+  'GET /api/index/stats': NoInput;
+  'GET /api/schemas': NoInput;
+  'GET /api/policy': NoInput;
+  'GET /api/policy/decisions': NoInput;
+  'GET /api/events': { since?: number; limit?: number; watch_id?: string };
+  'GET /api/events/stream': { watch_id?: string; path?: string; events?: string; last_event_id?: number };
+  'GET /api/rules': NoInput;
+  'GET /api/rules/runs': NoInput;
+  'GET /api/webhooks': NoInput;
+  'GET /api/webhooks/deliveries': { webhook_id?: string; status?: DeliveryStatus; limit?: number };
+  'GET /api/tools': NoInput;
+  'GET /api/openapi.json': NoInput;
+  'GET /metrics': NoInput;
+  'POST /api/xattr/get': { path: string; names?: string[] };
+  'POST /api/xattr/set': { path: string; attributes: Record<string, XattrInput | null>; create_only?: boolean };
+  'POST /api/xattr/list': { path: string };
+  'POST /api/xattr/history': z.infer<typeof GetXattrHistoryInputSchema>;
+  'POST /api/xattr/rollback': z.infer<typeof RollbackXattrInputSchema>;
+  'POST /api/xattr/bulk-set': z.infer<typeof BulkSetXattrInputSchema>;
+  'POST /api/xattr/copy': z.infer<typeof CopyXattrsInputSchema>;
+  'POST /api/xattr/sync': z.infer<typeof SyncXattrsInputSchema>;
+  'POST /api/xattr/fallback/migrate': z.infer<typeof MigrateFallbackXattrsInputSchema>;
+  'POST /api/appledouble/list': z.infer<typeof ListAppleDoubleInputSchema>;
+  'POST /api/appledouble/import': z.infer<typeof ImportAppleDoubleInputSchema>;
+  'POST /api/appledouble/export': z.infer<typeof ExportAppleDoubleInputSchema>;
+  'POST /api/spotlight/search': {
+    query: string | Record<string, unknown>;
+    scope?: string[];
+    limit?: number;
+    attributes?: string[];
+    target?: 'spotlight' | 'local';
+    offset?: number;
+    cursor?: string;
+  };
+  'POST /api/spotlight/reindex': { path: string; target?: 'spotlight' | 'local' };
+  'POST /api/tags/get': z.infer<typeof GetTagsInputSchema>;
+  'POST /api/tags/add': z.infer<typeof AddTagsInputSchema>;
+  'POST /api/tags/remove': z.infer<typeof RemoveTagsInputSchema>;
+  'POST /api/tags/set': z.infer<typeof SetTagsInputSchema>;
+  'POST /api/tags/find': z.infer<typeof FindByTagInputSchema>;
+  'POST /api/webhooks': { url: string; secret?: string; watch_id?: string; paths?: string[]; events?: FsEventType[] };
+  'POST /api/webhooks/update': {
+    id: string;
+    url?: string;
+    watch_id?: string | null;
+    paths?: string[] | null;
+    events?: FsEventType[] | null;
+    enabled?: boolean;
+  };
+  'POST /api/webhooks/delete': { id: string };
+  'POST /api/webhooks/retry': { delivery_id: number };
+  'POST /api/watch/start': {
+    path: string;
+    events?: FsEventType[];
+    recursive?: boolean;
+    debounce_ms?: number;
+    coalesce?: boolean;
+    pair_renames?: boolean;
+  };
+  'POST /api/watch/settings': z.infer<typeof ConfigureWatchInputSchema>;
+  'POST /api/watch/stop': { watch_id: string };
+  'POST /api/batch': z.infer<typeof BatchInputSchema>;
+}
+
+export type RouteKey = keyof RouteInputs;
+
+/**
+ * Request rejected by its route schema (INVALID_INPUT, with the issues)
+ */
+export class RequestValidationError extends InvalidInputError {
+  constructor(message: string, readonly issues: SchemaIssue[] = []) {
+    super(message, issues.length > 0 ? { issues } : undefined);
+  }
+}
+
+const EVENT_TYPES = ['created', 'modified', 'deleted', 'renamed'];
+
+const PATH: JsonSchema = { type: 'string', minLength: 1, description: 'Absolute path' };
+const STRINGS: JsonSchema = { type: 'array', items: { type: 'string' } };
+const EVENT_TYPE_LIST: JsonSchema = { type: 'array', items: { type: 'string', enum: EVENT_TYPES } };
+const LIMIT: JsonSchema = { type: 'integer', minimum: 1, maximum: 1000, description: 'Maximum entries to return' };
+
+function object(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return { type: 'object', properties, required };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function toolRoute(summary: string, tool: { inputSchema: unknown }, validator: ZodTypeAny): RouteSchema {
+  return { summary, body: tool.inputSchema as JsonSchema, validator };
+}
+
+/**
+ * Keyed by `${method} ${path}`, like ROUTE_SCOPES
+ */
+export const ROUTE_SCHEMAS: Record<RouteKey, RouteSchema> = {
+  'GET /health': { summary: 'Liveness check' },
+  'GET /health/ready': { summary: 'Readiness check' },
+  'GET /api/sandbox': { summary: 'Sandbox roots and where they were loaded from' },
+  'GET /api/watches': { summary: 'Active watches' },
+  'GET /api/operations': { summary: 'Recent xattr operations' },
+  'GET /api/index/stats': { summary: 'Local search index statistics' },
+  'GET /api/schemas': { summary: 'Registered attribute schemas' },
+  'GET /api/policy': { summary: 'Protected-attribute policy rules' },
+  'GET /api/policy/decisions': { summary: 'Recent policy decisions' },
+  'GET /api/events': {
+    summary: 'Logged watch events after a sequence number',
+    query: object({
+      since: { type: 'integer', minimum: 0, description: 'Last sequence number already processed (default: 0)' },
+      limit: LIMIT,
+      watch_id: { type: 'string', description: 'Only events from this watch' }
+    })
+  },
+  'GET /api/events/stream': {
+    summary: 'Server-Sent Events stream of watch events (resumes from Last-Event-ID)',
+    query: object({
+      watch_id: { type: 'string', description: 'Only events from this watch' },
+      path: { type: 'string', description: 'Only events under this path' },
+      events: { type: 'string', description: 'Comma-separated event types' },
+      last_event_id: { type: 'integer', minimum: 0, description: 'Same as the Last-Event-ID header' }
+    })
+  },
+  'GET /api/rules': { summary: 'Event rules' },
+  'GET /api/rules/runs': { summary: 'Recent event rule runs' },
+  'GET /api/webhooks': { summary: 'Registered webhooks' },
+  'GET /api/webhooks/deliveries': {
+    summary: 'Webhook delivery history, newest first',
+    query: object({
+      webhook_id: { type: 'string' },
+      status: { type: 'string', enum: ['pending', 'delivered', 'dead'] },
+      limit: LIMIT
+    })
+  },
+  'GET /api/tools': { summary: 'Available tools' },
+  'GET /api/openapi.json': { summary: 'This document' },
+  'GET /metrics': { summary: 'Prometheus metrics (text format)' },
+
+  'POST /api/xattr/get': {
+    summary: 'Read extended attributes',
+    body: object({ path: PATH, names: { ...STRINGS, description: 'Attribute names (default: all)' } }, ['path'])
+  },
+  'POST /api/xattr/set': {
+    summary: 'Write extended attributes',
+    body: object({
+      path: PATH,
+      attributes: { type: 'object', description: 'Attribute name to value' },
+      create_only: { type: 'boolean', description: 'Fail if an attribute already exists' }
+    }, ['path', 'attributes'])
+  },
+  'POST /api/xattr/list': { summary: 'List extended attribute names', body: object({ path: PATH }, ['path']) },
+  'POST /api/xattr/history': toolRoute("Change history of a file's attributes", GET_XATTR_HISTORY_TOOL, GetXattrHistoryInputSchema),
+  'POST /api/xattr/rollback': toolRoute('Restore attributes to an earlier state', ROLLBACK_XATTR_TOOL, RollbackXattrInputSchema),
+  'POST /api/xattr/bulk-set': toolRoute('Set attributes on every file under a directory', BULK_SET_XATTR_TOOL, BulkSetXattrInputSchema),
+  'POST /api/xattr/copy': toolRoute('Copy attributes from one file to others', COPY_XATTRS_TOOL, CopyXattrsInputSchema),
+  'POST /api/xattr/sync': toolRoute('Mirror attributes between two directory trees', SYNC_XATTRS_TOOL, SyncXattrsInputSchema),
+  'POST /api/xattr/fallback/migrate': toolRoute(
+    'Move fallback-stored attributes onto the files',
+    MIGRATE_FALLBACK_XATTRS_TOOL,
+    MigrateFallbackXattrsInputSchema
+  ),
+  'POST /api/appledouble/list': toolRoute('Read an AppleDouble sidecar', LIST_APPLEDOUBLE_TOOL, ListAppleDoubleInputSchema),
+  'POST /api/appledouble/import': toolRoute('Import attributes from an AppleDouble sidecar', IMPORT_APPLEDOUBLE_TOOL, ImportAppleDoubleInputSchema),
+  'POST /api/appledouble/export': toolRoute('Export attributes to an AppleDouble sidecar', EXPORT_APPLEDOUBLE_TOOL, ExportAppleDoubleInputSchema),
+  'POST /api/spotlight/search': {
+    summary: 'Search file metadata with Spotlight or the local index',
+    body: object({
+      query: {
+        anyOf: [{ type: 'string' }, { type: 'object' }],
+        description: 'Raw query string or JSON query AST'
+      },
+      scope: { ...STRINGS, description: 'Directories to search' },
+      limit: LIMIT,
+      attributes: { ...STRINGS, description: 'Metadata attributes to return' },
+      target: { type: 'string', enum: ['spotlight', 'local'] },
+      offset: { type: 'integer', minimum: 0 },
+      cursor: { type: 'string', description: 'Cursor from the previous page' }
+    }, ['query'])
+  },
+  'POST /api/spotlight/reindex': {
+    summary: 'Reindex a file',
+    body: object({ path: PATH, target: { type: 'string', enum: ['spotlight', 'local'] } }, ['path'])
+  },
+  'POST /api/tags/get': toolRoute('Finder tags of a file', GET_TAGS_TOOL, GetTagsInputSchema),
+  'POST /api/tags/add': toolRoute('Add Finder tags', ADD_TAGS_TOOL, AddTagsInputSchema),
+  'POST /api/tags/remove': toolRoute('Remove Finder tags', REMOVE_TAGS_TOOL, RemoveTagsInputSchema),
+  'POST /api/tags/set': toolRoute('Replace Finder tags', SET_TAGS_TOOL, SetTagsInputSchema),
+  'POST /api/tags/find': toolRoute('Find files with a Finder tag', FIND_BY_TAG_TOOL, FindByTagInputSchema),
+  'POST /api/webhooks': {
+    summary: 'Register a webhook (the signing secret is only returned here)',
+    body: object({
+      url: { type: 'string', minLength: 1, description: 'http or https endpoint' },
+      secret: { type: 'string', minLength: 1, description: 'HMAC key (default: generated)' },
+      watch_id: { type: 'string', description: 'Only events from this watch' },
+      paths: { ...STRINGS, description: 'Absolute path globs' },
+      events: EVENT_TYPE_LIST
+    }, ['url'])
+  },
+  'POST /api/webhooks/update': {
+    summary: 'Change a webhook (null clears a filter)',
+    body: object({
+      id: { type: 'string', minLength: 1 },
+      url: { type: 'string', minLength: 1 },
+      watch_id: nullable({ type: 'string' }),
+      paths: nullable(STRINGS),
+      events: nullable(EVENT_TYPE_LIST),
+      enabled: { type: 'boolean' }
+    }, ['id'])
+  },
+  'POST /api/webhooks/delete': {
+    summary: 'Delete a webhook and its deliveries',
+    body: object({ id: { type: 'string', minLength: 1 } }, ['id'])
+  },
+  'POST /api/webhooks/retry': {
+    summary: 'Requeue a dead-lettered delivery',
+    body: object({ delivery_id: { type: 'integer', minimum: 1 } }, ['delivery_id'])
+  },
+  'POST /api/watch/start': {
+    summary: 'Start watching a directory',
+    body: object({
+      path: PATH,
+      events: EVENT_TYPE_LIST,
+      recursive: { type: 'boolean' },
+      debounce_ms: { type: 'integer', minimum: 0 },
+      coalesce: { type: 'boolean' },
+      pair_renames: { type: 'boolean' }
+    }, ['path'])
+  },
+  'POST /api/watch/settings': toolRoute("Change a watch's event delivery settings", CONFIGURE_WATCH_TOOL, ConfigureWatchInputSchema),
+  'POST /api/watch/stop': {
+    summary: 'Stop a watch',
+    body: object({ watch_id: { type: 'string', minLength: 1 } }, ['watch_id'])
+  },
+  'POST /api/batch': toolRoute('Run several tool calls in one request', BATCH_TOOL, BatchInputSchema)
+};
+
+const compiled = new Map<JsonSchema, ZodTypeAny>();
+
+function compile(schema: JsonSchema): ZodTypeAny {
+  let validator = compiled.get(schema);
+  if (!validator) {
+    validator = jsonSchemaToZod(schema);
+    compiled.set(schema, validator);
+  }
+  return validator;
+}
+
+/**
+ * Query parameters as an object, with numbers and booleans converted
+ * where the schema expects them (invalid values stay strings and fail
+ * validation)
+ */
+export function queryToObject(params: URLSearchParams, schema?: JsonSchema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of params) {
+    const type = schema?.properties?.[key]?.type;
+    if ((type === 'integer' || type === 'number') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      result[key] = Number(value);
+    } else if (type === 'boolean' && (value === 'true' || value === 'false')) {
+      result[key] = value === 'true';
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Check tool arguments against the tool's inputSchema, so HTTP and batch
+ * calls are held to the same contract the tool advertises
+ * @throws RequestValidationError with one issue per invalid field
+ */
+export function validateToolArguments(tool: { inputSchema: unknown }, args: unknown): void {
+  validateRouteInput(tool.inputSchema as JsonSchema, args);
+}
+
+/**
+ * Check a request against its route schema
+ * @param validator - Used instead of the compiled schema (RouteSchema.validator)
+ * @returns The validated input
+ * @throws RequestValidationError with one issue per invalid field
+ */
+export function validateRouteInput(schema: JsonSchema | undefined, input: unknown, validator?: ZodTypeAny): Record<string, unknown> {
+  const parser = validator ?? (schema && compile(schema));
+  if (!parser) {
+    return (input ?? {}) as Record<string, unknown>;
+  }
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    throw new RequestValidationError('Request body must be a JSON object');
+  }
+
+  const result = parser.safeParse(input);
+  if (!result.success) {
+    throw new RequestValidationError('Invalid request', formatZodIssues(result.error));
+  }
+  return result.data as Record<string, unknown>;
+}
@@ -7,10 +7,57 @@ import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { randomUUID } from 'crypto';
 import { getXattrs, setXattrs, listXattrs } from '../services/xattr-service.js';
 import { spotlightSearch, spotlightReindex } from '../services/spotlight-service.js';
+import { listAttributeSchemas } from '../services/schema-registry.js';
+import { listPolicyRules, getPolicyDecisions } from '../services/xattr-policy.js';
+import { getXattrHistory, rollbackXattrs } from '../services/xattr-history-service.js';
+import { bulkSetXattrs } from '../services/bulk-xattr-service.js';
+import { copyXattrs, syncXattrs } from '../services/xattr-copy-service.js';
+import { listSidecar, importSidecar, exportSidecar } from '../services/appledouble-service.js';
+import { migrateFallbackXattrs } from '../services/xattr-fallback-service.js';
+import { getLocalIndexStats } from '../services/local-index-service.js';
+import { parseQuery } from '../utils/query-builder.js';
+import { getSandboxRoots } from '../utils/path-validator.js';
+import { getSandboxSource } from '../utils/sandbox-config.js';
+import {
+  isAuthEnabled,
+  authenticateToken,
+  parseBearerToken,
+  hasScope,
+  type ApiScope,
+  type ApiTokenInfo
+} from '../services/auth-service.js';
+import { getTags, addTags, removeTags, setTags, findByTag } from '../services/tag-service.js';
 import { createWatch, stopWatch, getActiveWatches } from '../services/fsevents-service.js';
+import { flushWatchEvents } from '../services/watch-events.js';
+import { setWatchSettings, describeWatchSettings, deleteWatchSettings } from '../services/watch-settings.js';
+import { getEventsSince } from '../services/event-log-service.js';
+import { listEventRules, getEventRuleRuns } from '../services/event-rules.js';
+import {
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listWebhooks,
+  getWebhookDeliveries,
+  retryWebhookDelivery
+} from '../services/webhook-service.js';
+import { getXattrBackend } from '../services/xattr-backends/index.js';
+import { runBatch } from '../services/batch-service.js';
+import { incrementCounter, countToolCall, renderMetrics } from '../services/metrics-service.js';
 import { getRecentOperations, getDatabase } from '../database/schema.js';
 import type { FsEventType } from '../types.js';
-import { TOOLS, TOOL_HANDLERS } from '../index.js';
+import { TOOLS, TOOL_HANDLERS, TOOL_SCOPES, validateToolCall } from '../index.js';
+import { handleEventStream, closeEventStreams } from './event-stream.js';
+import {
+  ROUTE_SCHEMAS,
+  RequestValidationError,
+  queryToObject,
+  validateRouteInput,
+  type RouteInputs,
+  type RouteKey,
+  type RouteSchema
+} from './route-schemas.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { describeError, ERROR_STATUS, GuardianError, type ErrorCode } from '../utils/errors.js';
 
 const PORT = 8026;
 
@@ -19,17 +66,33 @@ const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW = 60000; // 1 minute
 const RATE_LIMIT_MAX = 100;
 
-interface RouteHandler {
-  (req: IncomingMessage, res: ServerResponse, body: string): Promise<void>;
+// SECURITY: Origins allowed to call the API from a browser (comma-separated, "*" for any)
+// Empty by default so web pages can't reach the API
+const CORS_ORIGINS = (process.env.CORS_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean);
+
+/**
+ * Route handlers get their input already validated against ROUTE_SCHEMAS:
+ * the JSON body for POST, the query parameters for GET
+ */
+interface RouteHandler<T> {
+  (req: IncomingMessage, res: ServerResponse, input: T): Promise<void>;
 }
 
-const routes: Record<string, Record<string, RouteHandler>> = {
+/**
+ * Handlers for one method by path, each typed with its route's input
+ */
+type MethodRoutes<M extends string> = {
+  [K in RouteKey as K extends `${M} ${infer P}` ? P : never]: RouteHandler<RouteInputs[K]>;
+};
+
+const routes: { GET: MethodRoutes<'GET'>; POST: MethodRoutes<'POST'> } = {
   GET: {
     '/health': async (_req, res) => {
       sendJson(res, 200, {
         status: 'healthy',
         server: 'filesystem-guardian',
         timestamp: new Date().toISOString(),
+        xattrBackend: getXattrBackend().name,
         ports: { http: 8026, ws: 9026, udp: 3026 }
       });
     },
@@ -57,6 +120,10 @@ const routes: Record<string, Record<string, RouteHandler>> = {
       }
     },
 
+    '/api/sandbox': async (_req, res) => {
+      sendJson(res, 200, { source: getSandboxSource(), roots: getSandboxRoots() });
+    },
+
     '/api/watches': async (_req, res) => {
       const watches = getActiveWatches();
       sendJson(res, 200, { watches });
@@ -67,6 +134,61 @@ const routes: Record<string, Record<string, RouteHandler>> = {
       sendJson(res, 200, { operations });
     },
 
+    '/api/index/stats': async (_req, res) => {
+      sendJson(res, 200, getLocalIndexStats());
+    },
+
+    '/api/schemas': async (_req, res) => {
+      const schemas = listAttributeSchemas();
+      sendJson(res, 200, { schemas, count: schemas.length });
+    },
+
+    '/api/policy': async (_req, res) => {
+      const rules = listPolicyRules();
+      sendJson(res, 200, { rules, count: rules.length });
+    },
+
+    '/api/policy/decisions': async (_req, res) => {
+      const decisions = getPolicyDecisions(100);
+      sendJson(res, 200, { decisions, count: decisions.length });
+    },
+
+    '/api/events': async (_req, res, query) => {
+      const result = getEventsSince(query.since ?? 0, query.limit ?? 100, query.watch_id);
+      sendJson(res, 200, result);
+    },
+
+    '/api/events/stream': handleEventStream,
+
+    '/api/rules': async (_req, res) => {
+      const rules = listEventRules();
+      sendJson(res, 200, { rules, count: rules.length });
+    },
+
+    '/api/rules/runs': async (_req, res) => {
+      const runs = getEventRuleRuns(undefined, 100);
+      sendJson(res, 200, { runs, count: runs.length });
+    },
+
+    '/api/webhooks': async (_req, res) => {
+      const webhooks = listWebhooks();
+      sendJson(res, 200, { webhooks, count: webhooks.length });
+    },
+
+    '/api/webhooks/deliveries': async (_req, res, query) => {
+      const deliveries = getWebhookDeliveries(query.webhook_id, query.status, query.limit ?? 100);
+      sendJson(res, 200, { deliveries, count: deliveries.length });
+    },
+
+    '/metrics': async (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(renderMetrics());
+    },
+
+    '/api/openapi.json': async (_req, res) => {
+      sendJson(res, 200, buildOpenApiDocument(TOOLS, { routes: ROUTE_SCOPES, tools: TOOL_SCOPES }));
+    },
+
     '/api/tools': async (_req, res) => {
       const toolList = TOOLS.map(t => ({
         name: t.name,
@@ -79,55 +201,332 @@ const routes: Record<string, Record<string, RouteHandler>> = {
 
   POST: {
     '/api/xattr/get': async (_req, res, body) => {
-      const { path, names } = JSON.parse(body);
+      const { path, names } = body;
       const result = await getXattrs(path, names);
       sendJson(res, 200, result);
     },
 
     '/api/xattr/set': async (_req, res, body) => {
-      const { path, attributes, create_only } = JSON.parse(body);
+      const { path, attributes, create_only } = body;
       const result = await setXattrs(path, attributes, create_only ?? false);
       sendJson(res, 200, result);
     },
 
     '/api/xattr/list': async (_req, res, body) => {
-      const { path } = JSON.parse(body);
+      const { path } = body;
       const result = await listXattrs(path);
       sendJson(res, 200, result);
     },
 
+    '/api/xattr/history': async (_req, res, body) => {
+      const { path, attribute, limit } = body;
+      const result = getXattrHistory(path, attribute, limit ?? 100);
+      sendJson(res, 200, result);
+    },
+
+    '/api/xattr/rollback': async (_req, res, body) => {
+      const { path, attribute, operation_id, timestamp, dry_run } = body;
+      const result = await rollbackXattrs(path, { operationId: operation_id, timestamp }, attribute, dry_run ?? false);
+      sendJson(res, 200, result);
+    },
+
+    '/api/xattr/bulk-set': async (_req, res, body) => {
+      const { root, attributes, include, exclude, max_depth, include_directories, create_only, dry_run } = body;
+      const result = await bulkSetXattrs(root, attributes, {
+        include,
+        exclude,
+        maxDepth: max_depth,
+        includeDirectories: include_directories,
+        createOnly: create_only,
+        dryRun: dry_run
+      });
+      sendJson(res, 200, result);
+    },
+
+    '/api/xattr/copy': async (_req, res, body) => {
+      const { source, destinations, names, mode, move, dry_run } = body;
+      const result = await copyXattrs(source, destinations, { names, mode, move, dryRun: dry_run });
+      sendJson(res, 200, result);
+    },
+
+    '/api/xattr/sync': async (_req, res, body) => {
+      const { source_root, destination_root, names, mode, include, exclude, max_depth, dry_run } = body;
+      const result = await syncXattrs(source_root, destination_root, {
+        names,
+        mode,
+        include,
+        exclude,
+        maxDepth: max_depth,
+        dryRun: dry_run
+      });
+      sendJson(res, 200, result);
+    },
+
+    '/api/xattr/fallback/migrate': async (_req, res, body) => {
+      const { path, dry_run } = body;
+      const result = await migrateFallbackXattrs(path, { dryRun: dry_run });
+      sendJson(res, 200, result);
+    },
+
+    '/api/appledouble/list': async (_req, res, body) => {
+      const { path, decode_plist } = body;
+      const result = await listSidecar(path, decode_plist ?? true);
+      sendJson(res, 200, result);
+    },
+
+    '/api/appledouble/import': async (_req, res, body) => {
+      const { path, skip_existing, delete_sidecar, dry_run } = body;
+      const result = await importSidecar(path, { skipExisting: skip_existing, deleteSidecar: delete_sidecar, dryRun: dry_run });
+      sendJson(res, 200, result);
+    },
+
+    '/api/appledouble/export': async (_req, res, body) => {
+      const { path, names, overwrite } = body;
+      const result = await exportSidecar(path, { names, overwrite });
+      sendJson(res, 200, result);
+    },
+
     '/api/spotlight/search': async (_req, res, body) => {
-      const { query, scope, limit, attributes } = JSON.parse(body);
-      const result = await spotlightSearch(query, scope, limit ?? 100, attributes);
+      const { query, scope, limit, attributes, target, offset, cursor } = body;
+      const parsedQuery = typeof query === 'string' ? query : parseQuery(query);
+      const result = await spotlightSearch(parsedQuery, scope, limit ?? 100, attributes, target, { offset, cursor });
       sendJson(res, 200, result);
     },
 
     '/api/spotlight/reindex': async (_req, res, body) => {
-      const { path } = JSON.parse(body);
-      const result = await spotlightReindex(path);
+      const { path, target } = body;
+      const result = await spotlightReindex(path, target);
+      sendJson(res, 200, result);
+    },
+
+    '/api/tags/get': async (_req, res, body) => {
+      const { path } = body;
+      const result = await getTags(path);
       sendJson(res, 200, result);
     },
 
+    '/api/tags/add': async (_req, res, body) => {
+      const { path, tags } = body;
+      const result = await addTags(path, tags);
+      sendJson(res, 200, result);
+    },
+
+    '/api/tags/remove': async (_req, res, body) => {
+      const { path, names } = body;
+      const result = await removeTags(path, names);
+      sendJson(res, 200, result);
+    },
+
+    '/api/tags/set': async (_req, res, body) => {
+      const { path, tags } = body;
+      const result = await setTags(path, tags);
+      sendJson(res, 200, result);
+    },
+
+    '/api/tags/find': async (_req, res, body) => {
+      const { tag, scope, limit, max_depth } = body;
+      const result = await findByTag(tag, scope, limit ?? 100, max_depth);
+      sendJson(res, 200, result);
+    },
+
+    '/api/webhooks': async (_req, res, body) => {
+      const { url, secret, watch_id, paths, events } = body;
+      const result = createWebhook({ url, secret, watchId: watch_id, paths, events });
+      sendJson(res, 200, result);
+    },
+
+    '/api/webhooks/update': async (_req, res, body) => {
+      const { id, url, watch_id, paths, events, enabled } = body;
+      const result = updateWebhook(id, { url, watchId: watch_id, paths, events, enabled });
+      sendJson(res, 200, result);
+    },
+
+    '/api/webhooks/delete': async (_req, res, body) => {
+      const { id } = body;
+      sendJson(res, 200, { id, deleted: deleteWebhook(id) });
+    },
+
+    '/api/webhooks/retry': async (_req, res, body) => {
+      const { delivery_id } = body;
+      sendJson(res, 200, { delivery_id, requeued: retryWebhookDelivery(delivery_id) });
+    },
+
     '/api/watch/start': async (_req, res, body) => {
-      const { path, events, recursive } = JSON.parse(body);
-      const eventTypes = (events || ['created', 'modified', 'deleted', 'renamed']) as FsEventType[];
+      const { path, events, recursive, debounce_ms, coalesce, pair_renames } = body;
+      const eventTypes: FsEventType[] = events ?? ['created', 'modified', 'deleted', 'renamed'];
       const result = createWatch(path, eventTypes, recursive ?? true);
+      // The bus delivers only the requested types, after rename pairing
+      setWatchSettings(result.watch_id, {
+        events: eventTypes,
+        ...(debounce_ms !== undefined && { debounceMs: debounce_ms }),
+        ...(coalesce !== undefined && { coalesce }),
+        ...(pair_renames !== undefined && { pairRenames: pair_renames })
+      });
+      sendJson(res, 200, { ...result, settings: describeWatchSettings(result.watch_id) });
+    },
+
+    '/api/watch/settings': async (_req, res, body) => {
+      const { watch_id, debounce_ms, coalesce, pair_renames } = body;
+      setWatchSettings(watch_id, {
+        ...(debounce_ms !== undefined && { debounceMs: debounce_ms }),
+        ...(coalesce !== undefined && { coalesce }),
+        ...(pair_renames !== undefined && { pairRenames: pair_renames })
+      });
+      sendJson(res, 200, describeWatchSettings(watch_id));
+    },
+
+    '/api/batch': async (req, res, body) => {
+      const { calls, concurrency, stop_on_error } = body;
+      // The route only needs a valid token; each call needs its tool's scope
+      const token = isAuthEnabled() ? requestToken(req) : null;
+      const result = await runBatch(calls, TOOL_HANDLERS, {
+        concurrency,
+        stopOnError: stop_on_error,
+        authorize: token ? tool => authorizeTool(token, tool) : undefined,
+        validate: validateToolCall
+      });
       sendJson(res, 200, result);
     },
 
     '/api/watch/stop': async (_req, res, body) => {
-      const { watch_id } = JSON.parse(body);
+      const { watch_id } = body;
+      // Deliver any held burst before the watch goes away
+      flushWatchEvents(watch_id);
       const success = stopWatch(watch_id);
+      if (success) {
+        deleteWatchSettings(watch_id);
+      }
       sendJson(res, 200, { success, watch_id });
     }
   }
 };
 
+/**
+ * Handler for a request
+ * Its input type holds because the input is validated against the
+ * route's schema before the call.
+ */
+function findRoute(method: string, url: string): RouteHandler<Record<string, unknown>> | undefined {
+  const handlers = (routes as Record<string, Record<string, RouteHandler<never>>>)[method];
+  return handlers?.[url] as RouteHandler<Record<string, unknown>> | undefined;
+}
+
+/**
+ * Scope required per route (null: any valid token)
+ * Routes not listed here require admin.
+ */
+const ROUTE_SCOPES: Record<string, ApiScope | null> = {
+  'GET /health': null,
+  'GET /health/ready': null,
+  'GET /api/sandbox': 'xattr:read',
+  'GET /api/watches': 'watch',
+  'GET /api/operations': 'xattr:read',
+  'GET /api/index/stats': 'search',
+  'GET /api/schemas': 'xattr:read',
+  'GET /api/policy': 'xattr:read',
+  'GET /api/policy/decisions': 'xattr:read',
+  'GET /api/events': 'watch',
+  'GET /api/events/stream': 'watch',
+  'GET /api/rules': 'watch',
+  'GET /api/rules/runs': 'watch',
+  'GET /api/webhooks': 'admin',
+  'GET /api/webhooks/deliveries': 'admin',
+  'GET /api/tools': null,
+  'GET /api/openapi.json': null,
+  'GET /metrics': null,
+  'POST /api/xattr/get': 'xattr:read',
+  'POST /api/xattr/set': 'xattr:write',
+  'POST /api/xattr/list': 'xattr:read',
+  'POST /api/xattr/history': 'xattr:read',
+  'POST /api/xattr/rollback': 'xattr:write',
+  'POST /api/xattr/bulk-set': 'xattr:write',
+  'POST /api/xattr/copy': 'xattr:write',
+  'POST /api/xattr/sync': 'xattr:write',
+  'POST /api/xattr/fallback/migrate': 'xattr:write',
+  'POST /api/appledouble/list': 'xattr:read',
+  'POST /api/appledouble/import': 'xattr:write',
+  'POST /api/appledouble/export': 'xattr:write',
+  'POST /api/spotlight/search': 'search',
+  'POST /api/spotlight/reindex': 'search',
+  'POST /api/tags/get': 'xattr:read',
+  'POST /api/tags/add': 'xattr:write',
+  'POST /api/tags/remove': 'xattr:write',
+  'POST /api/tags/set': 'xattr:write',
+  'POST /api/tags/find': 'search',
+  'POST /api/watch/start': 'watch',
+  'POST /api/watch/settings': 'watch',
+  'POST /api/webhooks': 'admin',
+  'POST /api/webhooks/update': 'admin',
+  'POST /api/webhooks/delete': 'admin',
+  'POST /api/webhooks/retry': 'admin',
+  'POST /api/watch/stop': 'watch',
+  'POST /api/batch': null
+};
+
+/**
+ * Scope needed for a request
+ */
+function requiredScope(method: string, url: string): ApiScope | null {
+  if (method === 'POST' && url.startsWith('/api/tools/')) {
+    return TOOL_SCOPES[url.replace('/api/tools/', '')] ?? 'admin';
+  }
+  const key = `${method} ${url}`;
+  return key in ROUTE_SCOPES ? ROUTE_SCOPES[key] : 'admin';
+}
+
+function requestToken(req: IncomingMessage): ApiTokenInfo | null {
+  const presented = parseBearerToken(req.headers.authorization);
+  return presented ? authenticateToken(presented) : null;
+}
+
+/**
+ * @throws GuardianError (FORBIDDEN) if the token can't call the tool
+ */
+function authorizeTool(token: ApiTokenInfo, tool: string): void {
+  const scope = TOOL_SCOPES[tool] ?? 'admin';
+  if (!hasScope(token, scope)) {
+    throw new GuardianError('FORBIDDEN', `Token lacks required scope: ${scope}`, { scope });
+  }
+}
+
+/**
+ * Check the bearer token against the route's scope
+ * @returns true if the request may proceed (otherwise a response was sent)
+ */
+function authorize(req: IncomingMessage, res: ServerResponse, method: string, url: string): boolean {
+  if (!isAuthEnabled() || url.startsWith('/health')) {
+    return true;
+  }
+
+  const token = requestToken(req);
+  if (!token) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendError(res, 'UNAUTHORIZED', 'Authentication required');
+    return false;
+  }
+
+  const scope = requiredScope(method, url);
+  if (scope && !hasScope(token, scope)) {
+    sendError(res, 'FORBIDDEN', `Token lacks required scope: ${scope}`, { scope });
+    return false;
+  }
+
+  return true;
+}
+
 function sendJson(res: ServerResponse, status: number, data: unknown): void {
   res.writeHead(status, { 'Content-Type': 'application/json' });
   res.end(JSON.stringify(data));
 }
 
+/**
+ * Error response: the message in `error` and the stable code in `code`,
+ * plus any details (e.g. validation issues)
+ */
+function sendError(res: ServerResponse, code: ErrorCode, message: string, details?: Record<string, unknown>): void {
+  sendJson(res, ERROR_STATUS[code], { error: message, code, ...details });
+}
+
 function parseBody(req: IncomingMessage): Promise<string> {
   return new Promise((resolve, reject) => {
     let body = '';
@@ -137,19 +536,46 @@ function parseBody(req: IncomingMessage): Promise<string> {
   });
 }
 
+/**
+ * @throws RequestValidationError if the body isn't JSON (an empty body is {})
+ */
+function parseJson(body: string): unknown {
+  if (body.trim() === '') {
+    return {};
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new RequestValidationError('Request body is not valid JSON');
+  }
+}
+
 async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
   const method = req.method || 'GET';
-  const url = req.url || '/';
+  // Routes match on the path; handlers read query parameters from req.url
+  const url = (req.url || '/').split('?')[0];
 
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Request-ID');
+  // CORS headers (only for configured origins)
+  const origin = req.headers.origin;
+  if (origin && (CORS_ORIGINS.includes('*') || CORS_ORIGINS.includes(origin))) {
+    res.setHeader('Access-Control-Allow-Origin', CORS_ORIGINS.includes('*') ? '*' : origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Request-ID');
+  }
+  res.setHeader('Vary', 'Origin');
 
   // Request ID tracing (Linus audit compliance)
   const requestId = (req.headers['x-request-id'] as string) || randomUUID();
   res.setHeader('X-Request-ID', requestId);
 
+  // Unknown paths share one label so scanners can't add series
+  const route = findRoute(method, url)
+    ? url
+    : method === 'POST' && url.startsWith('/api/tools/') ? '/api/tools/:name' : 'unmatched';
+  res.on('close', () => {
+    incrementCounter('fg_http_requests_total', { method, route, status: String(res.statusCode) });
+  });
+
   if (method === 'OPTIONS') {
     res.writeHead(204);
     res.end();
@@ -165,39 +591,60 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
     if (!entry || now > entry.resetTime) {
       rateLimitMap.set(clientIp, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
     } else if (entry.count >= RATE_LIMIT_MAX) {
-      sendJson(res, 429, { error: 'Too many requests', retryAfter: Math.ceil((entry.resetTime - now) / 1000) });
+      incrementCounter('fg_rate_limit_rejections_total');
+      sendError(res, 'RATE_LIMITED', 'Too many requests', { retryAfter: Math.ceil((entry.resetTime - now) / 1000) });
       return;
     } else {
       entry.count++;
     }
   }
 
+  // SECURITY: Authenticate before reading the body
+  if (!authorize(req, res, method, url)) {
+    return;
+  }
+
   try {
-    const body = method === 'POST' ? await parseBody(req) : '';
-    const handler = routes[method]?.[url];
+    const handler = findRoute(method, url);
 
     if (handler) {
-      await handler(req, res, body);
+      const schema: RouteSchema | undefined = ROUTE_SCHEMAS[`${method} ${url}` as RouteKey];
+      const input = method === 'POST'
+        ? validateRouteInput(schema?.body, parseJson(await parseBody(req)), schema?.validator)
+        : validateRouteInput(schema?.query, queryToObject(new URL(req.url || '/', 'http://localhost').searchParams, schema?.query));
+      await handler(req, res, input);
     } else if (method === 'POST' && url.startsWith('/api/tools/')) {
-      // Handle dynamic tool execution route
+      // Handle dynamic tool execution route (arguments checked against the tool's inputSchema)
       const toolName = url.replace('/api/tools/', '');
       const toolHandler = TOOL_HANDLERS[toolName];
 
       if (!toolHandler) {
-        sendJson(res, 404, { success: false, error: `Tool '${toolName}' not found` });
+        sendError(res, 'NOT_FOUND', `Tool '${toolName}' not found`, { success: false });
         return;
       }
 
-      const parsedBody = JSON.parse(body || '{}');
-      const args = parsedBody.arguments || parsedBody;
-      const result = await toolHandler(args);
+      const parsedBody = parseJson(await parseBody(req));
+      const args = parsedBody !== null && typeof parsedBody === 'object' && 'arguments' in parsedBody && parsedBody.arguments
+        ? parsedBody.arguments
+        : parsedBody;
+      validateToolCall(toolName, args);
+      const result = await countToolCall(toolName, 'http', () => toolHandler(args));
       sendJson(res, 200, { success: true, result });
     } else {
-      sendJson(res, 404, { error: 'Not found' });
+      sendError(res, 'NOT_FOUND', 'Not found');
     }
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    sendJson(res, 500, { error: message });
+    // SECURITY: Unclassified errors are reported as INTERNAL without their
+    // message (it can contain paths); the message is only logged
+    const { code, message, details } = describeError(error);
+    if (code === 'INTERNAL') {
+      console.error(`[filesystem-guardian] ${method} ${url} failed (${requestId}):`, error instanceof Error ? error.message : error);
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendError(res, code, message, { ...details, ...(code === 'INTERNAL' && { request_id: requestId }) });
   }
 }
 
@@ -216,6 +663,8 @@ export function startHttpServer(): Promise<void> {
 
 export function stopHttpServer(): Promise<void> {
   return new Promise((resolve) => {
+    // Open event streams would keep close() waiting forever
+    closeEventStreams();
     if (server) {
       server.close(() => resolve());
     } else {
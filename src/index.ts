@@ -23,6 +23,9 @@ import { fileURLToPath } from 'url';
 
 // Database
 import { initDatabase, closeDatabase } from './database/schema.js';
+import { openConnection, closeConnection } from './database/connection.js';
+import { pruneXattrHistory } from './database/xattr-history.js';
+import { prunePolicyDecisions } from './database/policy-decisions.js';
 
 // Tools
 import { GET_XATTR_TOOL, handleGetXattr } from './tools/get-xattr.js';
@@ -31,14 +34,48 @@ import { LIST_XATTR_TOOL, handleListXattr } from './tools/list-xattr.js';
 import { SPOTLIGHT_SEARCH_TOOL, handleSpotlightSearch } from './tools/spotlight-search.js';
 import { SPOTLIGHT_REINDEX_TOOL, handleSpotlightReindex } from './tools/spotlight-reindex.js';
 import { WATCH_VOLUME_TOOL, handleWatchVolume } from './tools/watch-volume.js';
+import { GET_TAGS_TOOL, handleGetTags } from './tools/get-tags.js';
+import { ADD_TAGS_TOOL, handleAddTags } from './tools/add-tags.js';
+import { REMOVE_TAGS_TOOL, handleRemoveTags } from './tools/remove-tags.js';
+import { SET_TAGS_TOOL, handleSetTags } from './tools/set-tags.js';
+import { FIND_BY_TAG_TOOL, handleFindByTag } from './tools/find-by-tag.js';
+import { LIST_ATTRIBUTE_SCHEMAS_TOOL, handleListAttributeSchemas } from './tools/list-attribute-schemas.js';
+import { VALIDATE_XATTRS_TOOL, handleValidateXattrs } from './tools/validate-xattrs.js';
+import { GET_XATTR_HISTORY_TOOL, handleGetXattrHistory } from './tools/get-xattr-history.js';
+import { ROLLBACK_XATTR_TOOL, handleRollbackXattr } from './tools/rollback-xattr.js';
+import { MANAGE_API_TOKENS_TOOL, handleManageApiTokens } from './tools/manage-api-tokens.js';
+import { BULK_SET_XATTR_TOOL, handleBulkSetXattr } from './tools/bulk-set-xattr.js';
+import { COPY_XATTRS_TOOL, handleCopyXattrs } from './tools/copy-xattrs.js';
+import { SYNC_XATTRS_TOOL, handleSyncXattrs } from './tools/sync-xattrs.js';
+import { LIST_APPLEDOUBLE_TOOL, handleListAppleDouble } from './tools/list-appledouble.js';
+import { IMPORT_APPLEDOUBLE_TOOL, handleImportAppleDouble } from './tools/import-appledouble.js';
+import { EXPORT_APPLEDOUBLE_TOOL, handleExportAppleDouble } from './tools/export-appledouble.js';
+import { MIGRATE_FALLBACK_XATTRS_TOOL, handleMigrateFallbackXattrs } from './tools/migrate-fallback-xattrs.js';
+import { CONFIGURE_WATCH_TOOL, handleConfigureWatch } from './tools/configure-watch.js';
+import { MANAGE_EVENT_RULES_TOOL, handleManageEventRules } from './tools/manage-event-rules.js';
+import { BATCH_TOOL, handleBatch } from './tools/batch.js';
 
 // Services
-import { restoreWatches, stopAllWatches } from './services/fsevents-service.js';
+import { getXattrBackend } from './services/xattr-backends/index.js';
+import { loadSchemaRegistry } from './services/schema-registry.js';
+import { loadXattrPolicy } from './services/xattr-policy.js';
+import { restoreWatches, stopAllWatches, getActiveWatches } from './services/fsevents-service.js';
+import { loadWatchSettings } from './services/watch-settings.js';
+import { flushWatchEvents } from './services/watch-events.js';
+import { startEventLog, stopEventLog } from './services/event-log-service.js';
+import { startEventRules, stopEventRules, setRuleBroadcaster } from './services/event-rules.js';
+import { startWebhooks, stopWebhooks } from './services/webhook-service.js';
+import { startLocalIndex, stopLocalIndex } from './services/local-index-service.js';
+import { startMetrics, stopMetrics, setMetricsSources, countToolCall } from './services/metrics-service.js';
+import { loadSandboxConfig, reloadSandboxConfig } from './utils/sandbox-config.js';
+import type { ApiScope } from './services/auth-service.js';
+import { toMcpError, NotFoundError } from './utils/errors.js';
 
 // Servers
 import { startHttpServer, stopHttpServer } from './http/server.js';
+import { validateToolArguments } from './http/route-schemas.js';
 import { startWebSocketServer, stopWebSocketServer } from './websocket/server.js';
-import { startInterlock, stopInterlock } from './interlock/index.js';
+import { startInterlock, stopInterlock, broadcastSignal, getStats } from './interlock/index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -60,7 +97,27 @@ export const TOOLS = [
   LIST_XATTR_TOOL,
   SPOTLIGHT_SEARCH_TOOL,
   SPOTLIGHT_REINDEX_TOOL,
-  WATCH_VOLUME_TOOL
+  WATCH_VOLUME_TOOL,
+  GET_TAGS_TOOL,
+  ADD_TAGS_TOOL,
+  REMOVE_TAGS_TOOL,
+  SET_TAGS_TOOL,
+  FIND_BY_TAG_TOOL,
+  LIST_ATTRIBUTE_SCHEMAS_TOOL,
+  VALIDATE_XATTRS_TOOL,
+  GET_XATTR_HISTORY_TOOL,
+  ROLLBACK_XATTR_TOOL,
+  BULK_SET_XATTR_TOOL,
+  COPY_XATTRS_TOOL,
+  SYNC_XATTRS_TOOL,
+  LIST_APPLEDOUBLE_TOOL,
+  IMPORT_APPLEDOUBLE_TOOL,
+  EXPORT_APPLEDOUBLE_TOOL,
+  MIGRATE_FALLBACK_XATTRS_TOOL,
+  CONFIGURE_WATCH_TOOL,
+  MANAGE_EVENT_RULES_TOOL,
+  MANAGE_API_TOKENS_TOOL,
+  BATCH_TOOL
 ];
 
 // Tool handlers (exported for HTTP gateway)
@@ -70,12 +127,94 @@ export const TOOL_HANDLERS: Record<string, (args: unknown) => unknown | Promise<
   list_xattr: handleListXattr,
   spotlight_search: handleSpotlightSearch,
   spotlight_reindex: handleSpotlightReindex,
-  watch_volume: handleWatchVolume
+  watch_volume: handleWatchVolume,
+  get_tags: handleGetTags,
+  add_tags: handleAddTags,
+  remove_tags: handleRemoveTags,
+  set_tags: handleSetTags,
+  find_by_tag: handleFindByTag,
+  list_attribute_schemas: handleListAttributeSchemas,
+  validate_xattrs: handleValidateXattrs,
+  get_xattr_history: handleGetXattrHistory,
+  rollback_xattr: handleRollbackXattr,
+  bulk_set_xattr: handleBulkSetXattr,
+  copy_xattrs: handleCopyXattrs,
+  sync_xattrs: handleSyncXattrs,
+  list_appledouble: handleListAppleDouble,
+  import_appledouble: handleImportAppleDouble,
+  export_appledouble: handleExportAppleDouble,
+  migrate_fallback_xattrs: handleMigrateFallbackXattrs,
+  configure_watch: handleConfigureWatch,
+  manage_event_rules: handleManageEventRules,
+  manage_api_tokens: handleManageApiTokens,
+  batch: args => handleBatch(args, TOOL_HANDLERS, validateToolCall)
+};
+
+/**
+ * Check a call's arguments against its tool's inputSchema (exported for
+ * the HTTP gateway, which dispatches without the MCP client's checks)
+ * @throws RequestValidationError (INVALID_INPUT)
+ */
+export function validateToolCall(name: string, args: unknown): void {
+  const tool = TOOLS.find(t => t.name === name);
+  if (tool) {
+    validateToolArguments(tool, args);
+  }
+}
+
+// Scope an HTTP token needs to call each tool (tools not listed need admin)
+export const TOOL_SCOPES: Record<string, ApiScope> = {
+  get_xattr: 'xattr:read',
+  set_xattr: 'xattr:write',
+  list_xattr: 'xattr:read',
+  spotlight_search: 'search',
+  spotlight_reindex: 'search',
+  watch_volume: 'watch',
+  get_tags: 'xattr:read',
+  add_tags: 'xattr:write',
+  remove_tags: 'xattr:write',
+  set_tags: 'xattr:write',
+  find_by_tag: 'search',
+  list_attribute_schemas: 'xattr:read',
+  validate_xattrs: 'xattr:read',
+  get_xattr_history: 'xattr:read',
+  rollback_xattr: 'xattr:write',
+  bulk_set_xattr: 'xattr:write',
+  copy_xattrs: 'xattr:write',
+  sync_xattrs: 'xattr:write',
+  list_appledouble: 'xattr:read',
+  import_appledouble: 'xattr:write',
+  export_appledouble: 'xattr:write',
+  migrate_fallback_xattrs: 'xattr:write',
+  configure_watch: 'watch',
+  manage_event_rules: 'admin',
+  manage_api_tokens: 'admin',
+  // Calls inside a batch aren't scope-checked here; POST /api/batch checks each one
+  batch: 'admin'
 };
 
 async function main() {
+  // Sandbox roots gate every path, so load them before anything else
+  const sandbox = loadSandboxConfig();
+  console.error(`[filesystem-guardian] Sandbox: ${sandbox.roots} roots (${sandbox.source})`);
+
   // Initialize database
   initDatabase();
+  openConnection();
+  pruneXattrHistory();
+  prunePolicyDecisions();
+
+  // Select xattr backend up front so an unsupported host fails fast
+  // (XATTR_FALLBACK=database adds the store for volumes without xattrs)
+  getXattrBackend();
+
+  // Load attribute schemas enforced by set_xattr
+  const schemaCount = loadSchemaRegistry();
+  console.error(`[filesystem-guardian] Loaded ${schemaCount} attribute schemas`);
+
+  // Load protected-attribute policy checked before every mutation
+  const policyCount = loadXattrPolicy();
+  console.error(`[filesystem-guardian] Loaded ${policyCount} xattr policy rules`);
 
   // Create MCP server
   const server = new Server(
@@ -101,23 +240,16 @@ async function main() {
     const handler = TOOL_HANDLERS[name];
 
     if (!handler) {
-      return {
-        content: [{ type: 'text', text: `Unknown tool: ${name}` }],
-        isError: true
-      };
+      return toMcpError(new NotFoundError(`Unknown tool: ${name}`));
     }
 
     try {
-      const result = await handler(args);
+      const result = await countToolCall(name, 'mcp', () => handler(args));
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
       };
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text', text: `Error: ${message}` }],
-        isError: true
-      };
+      return toMcpError(error);
     }
   });
 
@@ -143,11 +275,28 @@ async function main() {
         signals: [...interlockConfig.signals.incoming, ...interlockConfig.signals.outgoing],
         sources: interlockConfig.peers
       });
+      setRuleBroadcaster(broadcastSignal);
     }
 
-    // Restore watches from database
+    // Restore watches from database, with their event delivery settings;
+    // the event log starts first so nothing they report goes unrecorded
+    startEventLog();
+    setMetricsSources({
+      activeWatches: () => getActiveWatches().length,
+      interlockStats: () => getStats() as Record<string, unknown> | null
+    });
+    startMetrics();
+    startEventRules();
+    startWebhooks();
+    loadWatchSettings();
     restoreWatches();
 
+    // Local metadata index (default on hosts without Spotlight)
+    const localIndex = process.env.LOCAL_INDEX ?? (process.platform === 'darwin' ? 'off' : 'on');
+    if (localIndex === 'on') {
+      startLocalIndex();
+    }
+
     console.error('[filesystem-guardian] All servers started');
   } catch (error) {
     console.error('[filesystem-guardian] Failed to start auxiliary servers:', (error as Error).message);
@@ -157,10 +306,17 @@ async function main() {
   const shutdown = async () => {
     console.error('[filesystem-guardian] Shutting down...');
 
+    flushWatchEvents();
+    stopEventLog();
+    stopMetrics();
+    stopEventRules();
+    stopWebhooks();
     stopAllWatches();
+    stopLocalIndex();
     await stopInterlock();
     await stopWebSocketServer();
     await stopHttpServer();
+    closeConnection();
     closeDatabase();
 
     process.exit(0);
@@ -169,6 +325,15 @@ async function main() {
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 
+  // Hot-reload sandbox roots and xattr policy
+  process.on('SIGHUP', () => {
+    const reloaded = reloadSandboxConfig();
+    if (reloaded) {
+      console.error(`[filesystem-guardian] Sandbox reloaded: ${reloaded.roots} roots (${reloaded.source})`);
+    }
+    console.error(`[filesystem-guardian] Xattr policy reloaded: ${loadXattrPolicy()} rules`);
+  });
+
   // Connect to stdio transport
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -53,6 +53,8 @@ export const STRING_TO_NUMERIC: Record<string, number> = {
   'spotlight_query': FG_SIGNALS.SPOTLIGHT_QUERY,
   'watch_list': FG_SIGNALS.WATCH_LIST,
   'file_metadata_request': FG_SIGNALS.FILE_METADATA_REQUEST,
+  'fs_watch_event': FG_SIGNALS.FS_WATCH_EVENT,
+  'fs_xattr_updated': FG_SIGNALS.FS_XATTR_UPDATED,
 };
 
 // Numeric-to-string mapping for responses
@@ -8,6 +8,7 @@ import type { Signal, SignalInput, RemoteInfo, InterlockConfig } from '@bop/inte
 import { STRING_TO_NUMERIC, getSignalName, FG_SIGNALS } from './signal-types.js';
 import { filterSignal, configureTumbler } from './tumbler.js';
 import { handleSignal, registerDefaultHandlers } from './handlers.js';
+import { toInterlockError } from '../utils/errors.js';
 
 const SERVER_ID = 'filesystem-guardian';
 const PORT = 3026;
@@ -109,8 +110,13 @@ export function startInterlock(config: { peers: Peer[]; signals: string[]; sourc
         return;
       }
 
-      // Handle the signal
-      const response = await handleSignal(legacySignal);
+      // Handle the signal; failures are reported with the shared error codes
+      let response: Record<string, unknown> | null | undefined;
+      try {
+        response = await handleSignal(legacySignal);
+      } catch (err) {
+        response = toInterlockError(err);
+      }
       if (response) {
         sendResponse(signal, response, rinfo);
       }
@@ -0,0 +1,168 @@
+/**
+ * AppleDouble Service
+ *
+ * Moves extended attributes between files and their `._name` sidecars so
+ * metadata survives filesystems, archives and shares without xattr
+ * support. Writes go through setXattrs() and reads through getXattrs(),
+ * so sandbox modes, schemas, policy, history and logging all apply.
+ */
+
+import { open, readFile, lstat, unlink } from 'fs/promises';
+import { constants } from 'fs';
+import { basename } from 'path';
+import type { XattrResult, SetXattrResult } from '../types.js';
+import { getXattrs, setXattrs, listXattrs } from './xattr-service.js';
+import {
+  parseAppleDouble,
+  buildAppleDouble,
+  sidecarPathFor,
+  dataPathFor,
+  APPLEDOUBLE_PREFIX
+} from '../utils/appledouble.js';
+import { decodeXattrValue, encodeXattrValue, type EncodedXattrInput } from '../utils/xattr-encoding.js';
+import { validatePath, assertPathPermission } from '../utils/path-validator.js';
+import { InvalidInputError, AlreadyExistsError } from '../utils/errors.js';
+
+/** Largest sidecar we will read (resource forks can be big) */
+export const MAX_SIDECAR_SIZE = 16 * 1024 * 1024;
+
+export interface SidecarListResult extends XattrResult {
+  sidecar: string;
+}
+
+export interface ImportSidecarOptions {
+  /** Keep attributes the file already has (default: sidecar values win) */
+  skipExisting?: boolean;
+  /** Delete the sidecar once every attribute was imported */
+  deleteSidecar?: boolean;
+  dryRun?: boolean;
+}
+
+export interface ImportSidecarResult extends SetXattrResult {
+  sidecar: string;
+  skipped: string[];
+  dry_run: boolean;
+  sidecar_deleted: boolean;
+}
+
+export interface ExportSidecarOptions {
+  /** Attributes to export (default: all) */
+  names?: string[];
+  /** Replace an existing sidecar */
+  overwrite?: boolean;
+}
+
+export interface ExportSidecarResult {
+  path: string;
+  sidecar: string;
+  attributes: string[];
+  size: number;
+}
+
+/**
+ * Resolve a data file or sidecar path to both paths, validated
+ */
+function resolvePaths(filePath: string): { data: string; sidecar: string } {
+  const isSidecar = basename(filePath).startsWith(APPLEDOUBLE_PREFIX);
+  const data = validatePath(isSidecar ? dataPathFor(filePath) : filePath);
+  const sidecar = validatePath(isSidecar ? filePath : sidecarPathFor(filePath));
+  return { data, sidecar };
+}
+
+async function readSidecar(sidecar: string): Promise<Record<string, Buffer>> {
+  const stats = await lstat(sidecar);
+  if (!stats.isFile()) {
+    throw new InvalidInputError('AppleDouble sidecar is not a regular file');
+  }
+  if (stats.size > MAX_SIDECAR_SIZE) {
+    throw new InvalidInputError(`AppleDouble sidecar exceeds ${MAX_SIDECAR_SIZE} bytes`);
+  }
+  return parseAppleDouble(await readFile(sidecar));
+}
+
+/**
+ * List the attributes stored in a sidecar
+ * @param filePath - The data file or its `._` sidecar
+ */
+export async function listSidecar(filePath: string, decodePlist: boolean = true): Promise<SidecarListResult> {
+  const { data, sidecar } = resolvePaths(filePath);
+  const raw = await readSidecar(sidecar);
+
+  const attributes = Object.fromEntries(
+    Object.entries(raw).map(([name, value]) => [name, decodeXattrValue(value, decodePlist)])
+  );
+  return { path: data, sidecar, attributes, count: Object.keys(attributes).length };
+}
+
+/**
+ * Import a sidecar's attributes into real xattrs on its data file
+ */
+export async function importSidecar(filePath: string, options: ImportSidecarOptions = {}): Promise<ImportSidecarResult> {
+  const { data, sidecar } = resolvePaths(filePath);
+  const raw = await readSidecar(sidecar);
+  const existing = options.skipExisting ? (await listXattrs(data)).attributes : [];
+
+  const patch: Record<string, EncodedXattrInput> = {};
+  const skipped: string[] = [];
+  for (const [name, value] of Object.entries(raw)) {
+    if (existing.includes(name)) {
+      skipped.push(name);
+    } else {
+      patch[name] = { value: value.toString('hex'), encoding: 'hex' };
+    }
+  }
+
+  const dryRun = options.dryRun ?? false;
+  const result: SetXattrResult = dryRun || Object.keys(patch).length === 0
+    ? { path: data, set: dryRun ? Object.keys(patch) : [], deleted: [], failed: [] }
+    : await setXattrs(data, patch);
+
+  let deleted = false;
+  if (options.deleteSidecar && !dryRun && result.failed.length === 0) {
+    // SECURITY: Removing the sidecar is a delete under the sandbox mode
+    assertPathPermission(sidecar, 'delete');
+    await unlink(sidecar);
+    deleted = true;
+  }
+
+  return { ...result, sidecar, skipped, dry_run: dryRun, sidecar_deleted: deleted };
+}
+
+/**
+ * Write a file's xattrs to its `._` sidecar
+ */
+export async function exportSidecar(filePath: string, options: ExportSidecarOptions = {}): Promise<ExportSidecarResult> {
+  const { data, sidecar } = resolvePaths(filePath);
+  assertPathPermission(sidecar, 'write');
+
+  // Byte-exact read: plist values are not decoded
+  const { attributes } = await getXattrs(data, undefined, false);
+  const selected: Record<string, Buffer> = {};
+  for (const [name, value] of Object.entries(attributes)) {
+    if (!options.names || options.names.includes(name)) {
+      selected[name] = encodeXattrValue({ value: value.value, encoding: value.encoding });
+    }
+  }
+
+  const content = buildAppleDouble(selected);
+
+  // SECURITY: O_NOFOLLOW so a symlink swapped in after validation isn't followed
+  const flags = constants.O_WRONLY | constants.O_CREAT | constants.O_NOFOLLOW |
+    (options.overwrite ? constants.O_TRUNC : constants.O_EXCL);
+  let handle;
+  try {
+    handle = await open(sidecar, flags, 0o644);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new AlreadyExistsError('AppleDouble sidecar already exists (set overwrite to replace it)');
+    }
+    throw error;
+  }
+  try {
+    await handle.writeFile(content);
+  } finally {
+    await handle.close();
+  }
+
+  return { path: data, sidecar, attributes: Object.keys(selected), size: content.length };
+}
@@ -0,0 +1,138 @@
+/**
+ * API Authentication Service
+ *
+ * Bearer tokens with scopes for the HTTP API. Tokens are random,
+ * stored hashed, and checked against the scope each route or tool needs.
+ * The `admin` scope grants every other scope.
+ *
+ * Set HTTP_AUTH=off to disable authentication (trusted local setups only).
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import {
+  insertApiToken,
+  findActiveApiToken,
+  touchApiToken,
+  listApiTokenRows,
+  revokeApiTokenRow,
+  type ApiTokenRow
+} from '../database/api-tokens.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+export const API_SCOPES = ['xattr:read', 'xattr:write', 'search', 'watch', 'admin'] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  created_at: string;
+  last_used_at: string | null;
+  revoked: boolean;
+}
+
+export interface CreatedApiToken extends ApiTokenInfo {
+  /** Plaintext token; not retrievable again */
+  token: string;
+}
+
+const TOKEN_PREFIX = 'fg_';
+
+/** Only record last use once a minute per token */
+const TOUCH_INTERVAL = 60 * 1000;
+
+const lastTouched = new Map<string, number>();
+
+export function isAuthEnabled(): boolean {
+  return process.env.HTTP_AUTH !== 'off';
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toInfo(row: ApiTokenRow): ApiTokenInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    scopes: JSON.parse(row.scopes) as ApiScope[],
+    created_at: new Date(row.created_at).toISOString(),
+    last_used_at: row.last_used_at ? new Date(row.last_used_at).toISOString() : null,
+    revoked: row.revoked_at !== null
+  };
+}
+
+/**
+ * Create a token with the given scopes
+ * @throws InvalidInputError for unknown scopes
+ */
+export function createApiToken(name: string, scopes: string[]): CreatedApiToken {
+  if (!name.trim()) {
+    throw new InvalidInputError('Token name must not be empty');
+  }
+  if (scopes.length === 0) {
+    throw new InvalidInputError('A token needs at least one scope');
+  }
+  for (const scope of scopes) {
+    if (!API_SCOPES.includes(scope as ApiScope)) {
+      throw new InvalidInputError(`Unknown scope: ${scope}. Valid scopes: ${API_SCOPES.join(', ')}`);
+    }
+  }
+
+  const id = randomUUID();
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  const unique = [...new Set(scopes)] as ApiScope[];
+  insertApiToken(id, name.trim(), hashToken(token), unique);
+
+  return {
+    id,
+    name: name.trim(),
+    scopes: unique,
+    created_at: new Date().toISOString(),
+    last_used_at: null,
+    revoked: false,
+    token
+  };
+}
+
+export function listApiTokens(): ApiTokenInfo[] {
+  return listApiTokenRows().map(toInfo);
+}
+
+export function revokeApiToken(id: string): boolean {
+  lastTouched.delete(id);
+  return revokeApiTokenRow(id);
+}
+
+/**
+ * Resolve a presented token
+ * @returns Token info, or null if unknown or revoked
+ */
+export function authenticateToken(token: string): ApiTokenInfo | null {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  // SECURITY: Lookup is by hash, so the plaintext is never compared directly
+  const row = findActiveApiToken(hashToken(token));
+  if (!row) return null;
+
+  const now = Date.now();
+  if (now - (lastTouched.get(row.id) ?? 0) >= TOUCH_INTERVAL) {
+    lastTouched.set(row.id, now);
+    touchApiToken(row.id);
+  }
+
+  return toInfo(row);
+}
+
+/**
+ * Extract a bearer token from an Authorization header
+ */
+export function parseBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+export function hasScope(token: ApiTokenInfo, scope: ApiScope): boolean {
+  return token.scopes.includes('admin') || token.scopes.includes(scope);
+}
@@ -0,0 +1,108 @@
+/**
+ * Batch Tool Calls
+ *
+ * Runs an ordered list of tool calls with a bounded number in flight and
+ * reports one result or error per call, in request order, so one failing
+ * entry never hides the others. With stopOnError, calls that haven't
+ * started when an entry fails are skipped; calls already running finish.
+ */
+
+import { describeError, InvalidInputError, NotFoundError, type ErrorBody } from '../utils/errors.js';
+import { countToolCall } from './metrics-service.js';
+
+export type ToolHandler = (args: unknown) => unknown | Promise<unknown>;
+
+export interface BatchCall {
+  tool: string;
+  arguments?: unknown;
+}
+
+export type BatchEntryResult =
+  | { index: number; tool: string; status: 'ok'; result: unknown }
+  | { index: number; tool: string; status: 'error'; error: ErrorBody }
+  | { index: number; tool: string; status: 'skipped' };
+
+export interface BatchResult {
+  results: BatchEntryResult[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface BatchOptions {
+  /** Calls in flight at once (default: 4, at most BATCH_MAX_CONCURRENCY) */
+  concurrency?: number;
+  /** Skip the remaining calls after the first failure */
+  stopOnError?: boolean;
+  /** Checked before each call; throw to refuse it (e.g. a missing scope) */
+  authorize?: (tool: string) => void;
+  /** Checked after authorize; throw to reject the call's arguments */
+  validate?: (tool: string, args: unknown) => void;
+  /** Include the sanitized message of INTERNAL errors (see describeError) */
+  exposeInternal?: boolean;
+}
+
+/** Name the batch tool is registered under; batches can't contain it */
+export const BATCH_TOOL_NAME = 'batch';
+
+export const BATCH_MAX_CALLS = 100;
+export const BATCH_MAX_CONCURRENCY = 8;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * @throws InvalidInputError if the batch is empty or too large
+ */
+export async function runBatch(
+  calls: BatchCall[],
+  handlers: Record<string, ToolHandler>,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  if (calls.length === 0) {
+    throw new InvalidInputError('A batch needs at least one call');
+  }
+  if (calls.length > BATCH_MAX_CALLS) {
+    throw new InvalidInputError(`A batch holds at most ${BATCH_MAX_CALLS} calls`);
+  }
+
+  const concurrency = Math.min(Math.max(Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY), 1), BATCH_MAX_CONCURRENCY);
+  const results: Array<BatchEntryResult | undefined> = new Array(calls.length);
+  let next = 0;
+  let stopped = false;
+
+  const run = async (index: number) => {
+    const { tool, arguments: args } = calls[index];
+    try {
+      if (tool === BATCH_TOOL_NAME) {
+        throw new InvalidInputError('Batches cannot be nested');
+      }
+      const handler = handlers[tool];
+      if (!handler) {
+        throw new NotFoundError(`Unknown tool: ${tool}`);
+      }
+      options.authorize?.(tool);
+      options.validate?.(tool, args ?? {});
+      results[index] = { index, tool, status: 'ok', result: await countToolCall(tool, 'batch', () => handler(args ?? {})) };
+    } catch (error) {
+      results[index] = { index, tool, status: 'error', error: describeError(error, options.exposeInternal) };
+      if (options.stopOnError) {
+        stopped = true;
+      }
+    }
+  };
+
+  // Each worker takes the next unstarted call until none are left
+  const worker = async () => {
+    while (!stopped && next < calls.length) {
+      await run(next++);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, calls.length) }, worker));
+
+  const entries = Array.from(results, (entry, index) => entry ?? { index, tool: calls[index].tool, status: 'skipped' as const });
+  return {
+    results: entries,
+    succeeded: entries.filter(e => e.status === 'ok').length,
+    failed: entries.filter(e => e.status === 'error').length,
+    skipped: entries.filter(e => e.status === 'skipped').length
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Bulk Xattr Service
+ *
+ * Applies one attribute patch to every file under a directory. Changes
+ * are all-or-nothing: if any file fails, files already changed are
+ * restored to their previous values. All paths are validated against
+ * the sandbox before execution.
+ */
+
+import { readdir } from 'fs/promises';
+import { join, relative } from 'path';
+import { getDatabase } from '../database/schema.js';
+import { recordXattrChange } from '../database/xattr-history.js';
+import { getXattrBackend, classifyXattrError } from './xattr-backends/index.js';
+import { setXattrs, readCurrent, type CodedSetXattrResult, type SetXattrFailure } from './xattr-service.js';
+import { recordPolicyBypass } from './xattr-policy.js';
+import { validatePath, assertPathPermission, sanitizeErrorMessage } from '../utils/path-validator.js';
+import { matchGlob } from '../utils/glob.js';
+import type { XattrInput } from '../utils/xattr-encoding.js';
+import { describeError, InvalidInputError } from '../utils/errors.js';
+
+export interface BulkSetOptions {
+  /** Globs relative to the root that a file must match (default: all) */
+  include?: string[];
+  /** Globs relative to the root that exclude a file */
+  exclude?: string[];
+  /** Directory levels below the root to descend (default: 8) */
+  maxDepth?: number;
+  /** Also patch matching directories, not just files */
+  includeDirectories?: boolean;
+  /** Leave attributes a file already has alone (reported as skipped) */
+  createOnly?: boolean;
+  dryRun?: boolean;
+}
+
+export interface BulkFileResult extends CodedSetXattrResult {
+  /** Attributes left alone because the file already had them (createOnly) */
+  skipped?: string[];
+  /** Whether this file's changes were undone after a failure (absent on success) */
+  rolled_back?: boolean;
+  /** Attributes that could not be put back, when rolled_back is false */
+  rollback_failed?: SetXattrFailure[];
+}
+
+export interface BulkSetResult {
+  root: string;
+  dry_run: boolean;
+  /** Files selected by the globs */
+  matched: number;
+  /** True when every selected file was patched (or would be, on a dry run) */
+  success: boolean;
+  /** True when a failed run restored every file it had changed */
+  rolled_back: boolean;
+  /** Files with attributes skipped because they already existed (createOnly) */
+  skipped: number;
+  /** Why the run stopped, when it failed */
+  error?: string;
+  files: BulkFileResult[];
+}
+
+/** Refuse patches touching more files than this */
+export const BULK_MAX_FILES = 10000;
+
+const DEFAULT_BULK_DEPTH = 8;
+
+interface Snapshot {
+  path: string;
+  previous: Map<string, Buffer | null>;
+}
+
+/**
+ * Collect the paths under a root selected by include/exclude globs
+ * @throws InvalidInputError if more than BULK_MAX_FILES paths match
+ */
+export async function selectBulkTargets(root: string, options: BulkSetOptions = {}): Promise<string[]> {
+  const validatedRoot = validatePath(root);
+  const include = options.include && options.include.length > 0 ? options.include : ['**'];
+  const exclude = options.exclude ?? [];
+  const targets: string[] = [];
+
+  const selected = (path: string) => {
+    const rel = relative(validatedRoot, path);
+    return include.some(glob => matchGlob(glob, rel)) && !exclude.some(glob => matchGlob(glob, rel));
+  };
+
+  const walk = async (dir: string, depth: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      console.warn(`[bulk] Cannot read directory: ${sanitizeErrorMessage((error as Error).message)}`);
+      return;
+    }
+
+    for (const entry of entries) {
+      // SECURITY: Never follow symlinks out of the sandbox
+      if (entry.isSymbolicLink()) continue;
+
+      const fullPath = join(dir, entry.name);
+      const isDirectory = entry.isDirectory();
+
+      if ((entry.isFile() || (isDirectory && options.includeDirectories)) && selected(fullPath)) {
+        if (targets.length >= BULK_MAX_FILES) {
+          throw new InvalidInputError(`Bulk operation matches more than ${BULK_MAX_FILES} files; narrow the globs or depth`);
+        }
+        targets.push(fullPath);
+      }
+
+      if (isDirectory && depth > 0) {
+        await walk(fullPath, depth - 1);
+      }
+    }
+  };
+
+  await walk(validatedRoot, options.maxDepth ?? DEFAULT_BULK_DEPTH);
+  return targets;
+}
+
+/**
+ * Apply an attribute patch to every selected file
+ * `null` values delete the attribute, as in setXattrs().
+ */
+export async function bulkSetXattrs(
+  root: string,
+  patch: Record<string, XattrInput | null>,
+  options: BulkSetOptions = {}
+): Promise<BulkSetResult> {
+  const names = Object.keys(patch);
+  if (names.length === 0) {
+    throw new InvalidInputError('Attribute patch must not be empty');
+  }
+
+  // SECURITY: Fail fast on read-only roots before walking the tree
+  const validatedRoot = options.dryRun ? validatePath(root) : assertPathPermission(root, 'write');
+  const targets = await selectBulkTargets(validatedRoot, options);
+  const toSet = names.filter(name => patch[name] !== null);
+  const toDelete = names.filter(name => patch[name] === null);
+
+  if (options.dryRun) {
+    return {
+      root: validatedRoot,
+      dry_run: true,
+      matched: targets.length,
+      success: true,
+      rolled_back: false,
+      skipped: 0,
+      files: targets.map(path => ({ path, set: toSet, deleted: toDelete, failed: [] }))
+    };
+  }
+
+  const backend = getXattrBackend();
+  const files: BulkFileResult[] = [];
+  const snapshots: Snapshot[] = [];
+  let error: string | undefined;
+
+  for (const path of targets) {
+    // A value that can't be read can't be restored either, so the file
+    // fails before anything is written rather than snapshotting it as absent
+    let result: BulkFileResult;
+    const previous = new Map<string, Buffer | null>();
+    try {
+      for (const name of names) {
+        previous.set(name, await readCurrent(backend, path, name));
+      }
+      snapshots.push({ path, previous });
+      result = await setXattrs(path, patch, options.createOnly ?? false);
+    } catch (err) {
+      const { code, message } = describeError(classifyXattrError(err) ?? err, true);
+      result = { path, set: [], deleted: [], failed: [{ name: '*', error: message, code }] };
+    }
+    // With createOnly, an attribute the file already has is skipped, not a failure
+    const skipped = result.failed.filter(f => f.code === 'ALREADY_EXISTS');
+    if (options.createOnly && skipped.length > 0) {
+      result = { ...result, failed: result.failed.filter(f => f.code !== 'ALREADY_EXISTS'), skipped: skipped.map(f => f.name) };
+    }
+    files.push(result);
+
+    if (result.failed.length > 0) {
+      error = `Failed on ${relative(validatedRoot, path) || '.'}: ${result.failed.map(f => `${f.name}: ${f.error}`).join('; ')}`;
+      break;
+    }
+  }
+
+  const skippedFiles = files.filter(f => f.skipped).length;
+  if (!error) {
+    return {
+      root: validatedRoot,
+      dry_run: false,
+      matched: targets.length,
+      success: true,
+      rolled_back: false,
+      skipped: skippedFiles,
+      files
+    };
+  }
+
+  const restoreFailures = await restoreSnapshots(snapshots);
+  for (const file of files) {
+    const failed = restoreFailures.get(file.path);
+    file.rolled_back = !failed;
+    if (failed) {
+      file.rollback_failed = failed;
+    }
+  }
+
+  return {
+    root: validatedRoot,
+    dry_run: false,
+    matched: targets.length,
+    success: false,
+    rolled_back: restoreFailures.size === 0,
+    skipped: skippedFiles,
+    error,
+    files
+  };
+}
+
+/**
+ * Put attributes back to their snapshotted values, newest file first
+ * These are compensating writes that undo this operation's own changes,
+ * so they bypass the policy engine (e.g. removing a write-once attribute
+ * this run just created); the bypass is still recorded for auditing.
+ * @returns Attributes that could not be restored, by path
+ */
+async function restoreSnapshots(snapshots: Snapshot[]): Promise<Map<string, SetXattrFailure[]>> {
+  const db = getDatabase();
+  const backend = getXattrBackend();
+  const failures = new Map<string, SetXattrFailure[]>();
+
+  for (const { path, previous } of [...snapshots].reverse()) {
+    for (const [name, value] of previous) {
+      try {
+        const current = await readCurrent(backend, path, name);
+        if (value === null && current === null) continue;
+        if (value !== null && current !== null && value.equals(current)) continue;
+
+        const operation = value === null ? 'delete' : current === null ? 'create' : 'overwrite';
+        recordPolicyBypass(path, name, operation, 'Bulk rollback of changes made by the same operation');
+        if (value !== null) {
+          await backend.write(path, name, value);
+        } else {
+          await backend.remove(path, name);
+        }
+        db.logXattrOperation('rollback', path, name, true);
+        recordXattrChange(path, name, 'rollback', current, value);
+      } catch (err) {
+        // SECURITY: Sanitize error message to prevent path leakage
+        const { code, message } = describeError(classifyXattrError(err, name) ?? err, true);
+        console.error(`[filesystem-guardian] Bulk rollback failed: ${message}`);
+        failures.set(path, [...(failures.get(path) ?? []), { name, error: message, code }]);
+        db.logXattrOperation('rollback', path, name, false);
+      }
+    }
+  }
+
+  return failures;
+}
@@ -0,0 +1,108 @@
+/**
+ * Event Log Service
+ *
+ * Numbers and persists every delivered watch event so consumers that were
+ * offline can catch up. A consumer keeps the highest `seq` it has
+ * processed and asks for everything after it: over HTTP with
+ * /api/events?since=<seq>, or over the WebSocket with
+ * `{ "type": "resume", "since": <seq> }`, answered by replayEvents().
+ */
+
+import {
+  appendEventLog,
+  getEventLogRows,
+  getEventLogBounds,
+  pruneEventLog,
+  type EventLogRow
+} from '../database/event-log.js';
+import { setWatchEventRecorder, type WatchEvent } from './watch-events.js';
+import type { FsEventType } from '../types.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+/** Largest page getEventsSince() returns */
+export const MAX_EVENT_PAGE = 1000;
+
+export interface EventLogPage {
+  events: WatchEvent[];
+  /** Sequence number to pass as `since` for the next page */
+  last_seq: number;
+  /** Highest sequence number assigned so far */
+  latest_seq: number;
+  has_more: boolean;
+  /** Events after `since` were pruned before they could be read */
+  truncated: boolean;
+}
+
+function recordWatchEvent(event: WatchEvent): number {
+  return appendEventLog(event.watchId, event.type, event.path, event.from ?? null, event.timestamp);
+}
+
+function toEvent(row: EventLogRow): WatchEvent {
+  return {
+    seq: row.seq,
+    watchId: row.watch_id,
+    type: row.type as FsEventType,
+    path: row.path,
+    timestamp: row.timestamp,
+    ...(row.from_path && { from: row.from_path })
+  };
+}
+
+/**
+ * Start recording delivered events
+ */
+export function startEventLog(): void {
+  pruneEventLog();
+  setWatchEventRecorder(recordWatchEvent);
+}
+
+export function stopEventLog(): void {
+  setWatchEventRecorder(null);
+}
+
+/**
+ * Events after a sequence number, oldest first
+ * @throws InvalidInputError if since isn't a non-negative integer
+ */
+export function getEventsSince(since: number, limit: number = 100, watchId?: string): EventLogPage {
+  if (!Number.isSafeInteger(since) || since < 0) {
+    throw new InvalidInputError('since must be a non-negative integer sequence number');
+  }
+
+  const pageSize = Math.min(Math.max(1, limit), MAX_EVENT_PAGE);
+  const rows = getEventLogRows(since, pageSize + 1, watchId);
+  const events = rows.slice(0, pageSize).map(toEvent);
+  const { oldest, latest } = getEventLogBounds();
+
+  return {
+    events,
+    last_seq: events.length > 0 ? events[events.length - 1].seq! : since,
+    latest_seq: latest,
+    has_more: rows.length > pageSize,
+    truncated: since < latest && (oldest === 0 || since < oldest - 1)
+  };
+}
+
+/**
+ * Send every logged event after `since` (used for WebSocket resume)
+ * Runs synchronously, so no live event can be delivered in between and
+ * a consumer that switches to live events afterwards misses nothing.
+ */
+export function replayEvents(
+  since: number,
+  send: (event: WatchEvent) => void,
+  watchId?: string
+): { last_seq: number; replayed: number; truncated: boolean } {
+  let page = getEventsSince(since, MAX_EVENT_PAGE, watchId);
+  const truncated = page.truncated;
+  let replayed = 0;
+
+  for (;;) {
+    page.events.forEach(send);
+    replayed += page.events.length;
+    if (!page.has_more) break;
+    page = getEventsSince(page.last_seq, MAX_EVENT_PAGE, watchId);
+  }
+
+  return { last_seq: page.last_seq, replayed, truncated };
+}
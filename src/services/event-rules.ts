@@ -0,0 +1,303 @@
+/**
+ * Event Rules Engine
+ *
+ * Acts on watch events by itself: each stored rule matches on event
+ * type, path globs and file kind, then runs its actions in order
+ * (set/delete xattr, tag, reindex, InterLock broadcast). Actions go
+ * through the same services as the tools, so sandbox modes, schemas,
+ * policy and history all apply. Every execution is logged per rule.
+ *
+ * Rules run one event at a time. Events on a path a rule just modified
+ * are ignored briefly so a rule reacting to `modified` can't retrigger
+ * itself through its own xattr writes.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  insertEventRule,
+  updateEventRuleRow,
+  getEventRuleRow,
+  listEventRuleRows,
+  deleteEventRuleRow,
+  recordEventRuleRun,
+  getEventRuleRunRows,
+  type EventRuleRow
+} from '../database/event-rules.js';
+import { subscribeWatchEvents, type WatchEvent } from './watch-events.js';
+import { setXattrs, listXattrs } from './xattr-service.js';
+import { addTags, removeTags, type TagInput } from './tag-service.js';
+import { spotlightReindex, getFileKind } from './spotlight-service.js';
+import { matchGlob } from '../utils/glob.js';
+import { sanitizeErrorMessage } from '../utils/path-validator.js';
+import type { FsEventType } from '../types.js';
+import type { XattrInput } from '../utils/xattr-encoding.js';
+import { InvalidInputError, NotFoundError, BackendUnavailableError } from '../utils/errors.js';
+
+export const RULE_EVENT_TYPES = ['created', 'modified', 'deleted', 'renamed'] as const;
+
+/** InterLock signals a broadcast action may send */
+export const RULE_SIGNALS = ['fs_watch_event', 'fs_xattr_updated'] as const;
+
+export type RuleSignal = typeof RULE_SIGNALS[number];
+
+export type EventRuleAction =
+  | { type: 'set_xattr'; name: string; value: XattrInput }
+  | { type: 'delete_xattr'; name: string }
+  | { type: 'add_tags'; tags: TagInput[] }
+  | { type: 'remove_tags'; names: string[] }
+  | { type: 'reindex' }
+  | { type: 'broadcast'; signal?: RuleSignal };
+
+export interface EventRuleDefinition {
+  events: FsEventType[];
+  /** Absolute path globs (default: all paths) */
+  paths?: string[];
+  /** File kinds as reported by search, e.g. "PDF Document" (default: all) */
+  kinds?: string[];
+  actions: EventRuleAction[];
+}
+
+export interface EventRuleInput extends EventRuleDefinition {
+  name: string;
+  enabled?: boolean;
+}
+
+export interface EventRule extends EventRuleDefinition {
+  id: string;
+  name: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RuleActionResult {
+  type: EventRuleAction['type'];
+  success: boolean;
+  error?: string;
+}
+
+export interface EventRuleRun {
+  id: number;
+  rule_id: string;
+  event_seq: number | null;
+  event_type: string;
+  path: string;
+  success: boolean;
+  results: RuleActionResult[];
+  timestamp: string;
+}
+
+export type RuleBroadcaster = (signal: RuleSignal, payload: Record<string, unknown>) => void;
+
+/** How long events on a path a rule just modified are ignored */
+const SELF_TRIGGER_WINDOW = 2000;
+
+let cachedRules: EventRule[] | null = null;
+let broadcaster: RuleBroadcaster | null = null;
+let unsubscribe: (() => void) | null = null;
+let queue: Promise<void> = Promise.resolve();
+const recentlyModified = new Map<string, number>();
+
+function toRule(row: EventRuleRow): EventRule {
+  return {
+    id: row.id,
+    name: row.name,
+    enabled: row.enabled === 1,
+    ...(JSON.parse(row.definition) as EventRuleDefinition),
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString()
+  };
+}
+
+function serializeDefinition(rule: EventRuleDefinition): string {
+  const { events, paths, kinds, actions } = rule;
+  return JSON.stringify({ events, paths, kinds, actions });
+}
+
+function checkRule(rule: EventRuleInput): void {
+  if (!rule.name.trim()) {
+    throw new InvalidInputError('Rule name must not be empty');
+  }
+  if (rule.events.length === 0 || rule.actions.length === 0) {
+    throw new InvalidInputError('A rule needs at least one event type and one action');
+  }
+  for (const glob of rule.paths ?? []) {
+    if (!glob.startsWith('/') && !glob.startsWith('**')) {
+      throw new InvalidInputError(`Rule path globs must be absolute: ${glob}`);
+    }
+  }
+}
+
+export function createEventRule(input: EventRuleInput): EventRule {
+  checkRule(input);
+  const id = randomUUID();
+  insertEventRule(id, input.name.trim(), input.enabled ?? true, serializeDefinition(input));
+  cachedRules = null;
+  return toRule(getEventRuleRow(id)!);
+}
+
+/**
+ * Change a rule; omitted fields keep their current value
+ * @throws NotFoundError if the rule doesn't exist
+ */
+export function updateEventRule(id: string, changes: Partial<EventRuleInput>): EventRule {
+  const row = getEventRuleRow(id);
+  if (!row) {
+    throw new NotFoundError(`Event rule not found: ${id}`);
+  }
+
+  const next: EventRuleInput = { ...toRule(row), ...changes };
+  checkRule(next);
+  updateEventRuleRow(id, next.name.trim(), next.enabled ?? true, serializeDefinition(next));
+  cachedRules = null;
+  return toRule(getEventRuleRow(id)!);
+}
+
+export function deleteEventRule(id: string): boolean {
+  cachedRules = null;
+  return deleteEventRuleRow(id);
+}
+
+export function listEventRules(): EventRule[] {
+  if (!cachedRules) {
+    cachedRules = listEventRuleRows().map(toRule);
+  }
+  return cachedRules.map(rule => ({ ...rule }));
+}
+
+/**
+ * Recent executions, newest first
+ */
+export function getEventRuleRuns(ruleId?: string, limit: number = 100): EventRuleRun[] {
+  return getEventRuleRunRows(ruleId, limit).map(row => ({
+    id: row.id,
+    rule_id: row.rule_id,
+    event_seq: row.event_seq,
+    event_type: row.event_type,
+    path: row.path,
+    success: row.success === 1,
+    results: JSON.parse(row.results) as RuleActionResult[],
+    timestamp: new Date(row.created_at).toISOString()
+  }));
+}
+
+/**
+ * Set the function broadcast actions send through (InterLock)
+ */
+export function setRuleBroadcaster(next: RuleBroadcaster | null): void {
+  broadcaster = next;
+}
+
+/**
+ * Whether a rule applies to an event
+ */
+export function ruleMatchesEvent(rule: EventRuleDefinition, event: WatchEvent): boolean {
+  if (!rule.events.includes(event.type)) return false;
+  if (rule.paths && !rule.paths.some(glob => matchGlob(glob, event.path))) return false;
+  if (rule.kinds) {
+    const kind = getFileKind(event.path).toLowerCase();
+    if (!rule.kinds.some(k => k.toLowerCase() === kind)) return false;
+  }
+  return true;
+}
+
+/**
+ * @returns true if the action changed the file's metadata
+ */
+async function runAction(action: EventRuleAction, rule: EventRule, event: WatchEvent): Promise<boolean> {
+  switch (action.type) {
+    case 'set_xattr':
+    case 'delete_xattr': {
+      if (action.type === 'delete_xattr' && !(await listXattrs(event.path)).attributes.includes(action.name)) {
+        return false;
+      }
+      const value = action.type === 'set_xattr' ? action.value : null;
+      const result = await setXattrs(event.path, { [action.name]: value });
+      if (result.failed.length > 0) {
+        throw new Error(result.failed[0].error);
+      }
+      return true;
+    }
+    case 'add_tags':
+      await addTags(event.path, action.tags);
+      return true;
+    case 'remove_tags':
+      await removeTags(event.path, action.names);
+      return true;
+    case 'reindex': {
+      const result = await spotlightReindex(event.path);
+      if (!result.queued) {
+        throw new Error(result.message);
+      }
+      return false;
+    }
+    case 'broadcast':
+      if (!broadcaster) {
+        throw new BackendUnavailableError('InterLock broadcasting is not available');
+      }
+      broadcaster(action.signal ?? 'fs_watch_event', { rule: rule.id, event });
+      return false;
+  }
+}
+
+/**
+ * Run every matching rule for one event
+ * Actions stop at the first failure; the run is logged either way.
+ */
+export async function processRuleEvent(event: WatchEvent): Promise<EventRuleRun[]> {
+  const now = Date.now();
+  if ((recentlyModified.get(event.path) ?? 0) > now) {
+    return [];
+  }
+  for (const [path, until] of recentlyModified) {
+    if (until <= now) recentlyModified.delete(path);
+  }
+
+  const runs: EventRuleRun[] = [];
+  for (const rule of listEventRules()) {
+    if (!rule.enabled || !ruleMatchesEvent(rule, event)) continue;
+
+    const results: RuleActionResult[] = [];
+    let modified = false;
+    for (const action of rule.actions) {
+      try {
+        modified = (await runAction(action, rule, event)) || modified;
+        results.push({ type: action.type, success: true });
+      } catch (err) {
+        // SECURITY: Sanitize error message to prevent path leakage
+        results.push({ type: action.type, success: false, error: sanitizeErrorMessage((err as Error).message) });
+        break;
+      }
+    }
+
+    if (modified) {
+      recentlyModified.set(event.path, Date.now() + SELF_TRIGGER_WINDOW);
+    }
+
+    const success = results.every(r => r.success);
+    recordEventRuleRun(rule.id, event.seq ?? null, event.type, event.path, success, JSON.stringify(results));
+    runs.push(...getEventRuleRuns(rule.id, 1));
+  }
+
+  return runs;
+}
+
+/**
+ * Evaluate rules on every watch event
+ */
+export function startEventRules(): void {
+  if (unsubscribe) return;
+  unsubscribe = subscribeWatchEvents(event => {
+    queue = queue
+      .then(() => processRuleEvent(event))
+      .then(() => undefined)
+      .catch(err => console.error('[filesystem-guardian] Event rule failed:', (err as Error).message));
+  });
+}
+
+export function stopEventRules(): void {
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+}
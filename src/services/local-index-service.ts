@@ -0,0 +1,293 @@
+/**
+ * Local Index Service
+ *
+ * Crawls the sandbox roots into the SQLite metadata index and keeps it
+ * current from watch events. Provides a Spotlight-compatible search for
+ * hosts without mdfind and volumes Spotlight won't index.
+ * All paths are validated against the sandbox before indexing.
+ */
+
+import { lstat, readdir } from 'fs/promises';
+import { basename, join } from 'path';
+import type { SpotlightResult, SpotlightSearchOutput } from '../types.js';
+import {
+  upsertIndexedFile,
+  removeIndexedPath,
+  removeStaleEntries,
+  searchIndexedFiles,
+  queryIndexedFiles,
+  getIndexedXattrs,
+  getIndexStats,
+  type IndexedFileRow,
+  type IndexStats
+} from '../database/file-index.js';
+import { getXattrBackend } from './xattr-backends/index.js';
+import { getFileKind } from './spotlight-service.js';
+import { subscribeWatchEvents, type WatchEvent } from './watch-events.js';
+import { decodeXattrValue } from '../utils/xattr-encoding.js';
+import { compileToSql, type QueryNode } from '../utils/query-builder.js';
+import { validatePath, isPathAllowed, sanitizeErrorMessage, ALLOWED_ROOTS } from '../utils/path-validator.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+export interface CrawlResult {
+  root: string;
+  indexed: number;
+  removed: number;
+  errors: number;
+}
+
+/** Entries indexed between event loop yields during a crawl */
+const YIELD_EVERY = 200;
+
+let unsubscribe: (() => void) | null = null;
+let crawling: Promise<CrawlResult[]> | null = null;
+
+/**
+ * Render an xattr value as searchable text
+ */
+function xattrText(raw: Buffer): string {
+  const decoded = decodeXattrValue(raw, true);
+  return typeof decoded.value === 'string' ? decoded.value : JSON.stringify(decoded.value);
+}
+
+/**
+ * Index a single file or directory entry (not recursive)
+ * @returns false when the path no longer exists and was removed
+ */
+export async function indexPath(filePath: string): Promise<boolean> {
+  const validatedPath = validatePath(filePath);
+
+  let stats;
+  try {
+    stats = await lstat(validatedPath);
+  } catch {
+    removeIndexedPath(validatedPath);
+    return false;
+  }
+
+  // SECURITY: Symlinks are never indexed
+  if (stats.isSymbolicLink()) {
+    removeIndexedPath(validatedPath);
+    return false;
+  }
+
+  const backend = getXattrBackend();
+  const xattrs: Record<string, string | null> = {};
+  try {
+    for (const name of await backend.list(validatedPath)) {
+      try {
+        xattrs[name] = xattrText(await backend.read(validatedPath, name));
+      } catch {
+        xattrs[name] = null;
+      }
+    }
+  } catch {
+    // Filesystem without xattr support: index name and stat only
+  }
+
+  upsertIndexedFile({
+    path: validatedPath,
+    name: basename(validatedPath),
+    size: stats.size,
+    mtime: Math.round(stats.mtimeMs),
+    kind: stats.isDirectory() ? 'Folder' : getFileKind(validatedPath)
+  }, xattrs);
+
+  return true;
+}
+
+/**
+ * Recursively index a directory tree and drop entries that vanished
+ */
+export async function crawlRoot(root: string): Promise<CrawlResult> {
+  const validatedRoot = validatePath(root);
+  const startedAt = Date.now();
+  const result: CrawlResult = { root: validatedRoot, indexed: 0, removed: 0, errors: 0 };
+
+  const pending = [validatedRoot];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+
+    try {
+      if (!(await indexPath(current))) continue;
+      result.indexed++;
+    } catch {
+      result.errors++;
+      continue;
+    }
+
+    if (result.indexed % YIELD_EVERY === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    let entries;
+    try {
+      entries = await readdir(current, { withFileTypes: true });
+    } catch {
+      // Not a directory or unreadable
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isSymbolicLink()) {
+        pending.push(join(current, entry.name));
+      }
+    }
+  }
+
+  result.removed = removeStaleEntries(validatedRoot, startedAt);
+  return result;
+}
+
+/**
+ * Crawl every sandbox root (concurrent calls share one crawl)
+ */
+export function crawlAllRoots(): Promise<CrawlResult[]> {
+  if (!crawling) {
+    crawling = (async () => {
+      const results: CrawlResult[] = [];
+      for (const root of ALLOWED_ROOTS) {
+        try {
+          results.push(await crawlRoot(root));
+        } catch (error) {
+          console.error(`[filesystem-guardian] Index crawl failed: ${sanitizeErrorMessage((error as Error).message)}`);
+        }
+      }
+      return results;
+    })().finally(() => {
+      crawling = null;
+    });
+  }
+  return crawling;
+}
+
+/**
+ * Apply a watch event to the index
+ */
+async function handleWatchEvent(event: WatchEvent): Promise<void> {
+  if (!isPathAllowed(event.path)) return;
+
+  if (event.type === 'deleted') {
+    removeIndexedPath(event.path);
+    return;
+  }
+
+  // A paired rename names its source; an unpaired one is re-statted and,
+  // as the source no longer exists, dropped by indexPath()
+  if (event.from) {
+    removeIndexedPath(event.from);
+  }
+
+  // created / modified / renamed
+  await indexPath(event.path);
+}
+
+/**
+ * Start keeping the index current from watch events
+ * @param crawl - Run an initial background crawl of all roots
+ */
+export function startLocalIndex(crawl: boolean = true): void {
+  if (unsubscribe) return;
+
+  unsubscribe = subscribeWatchEvents(handleWatchEvent);
+
+  if (crawl) {
+    crawlAllRoots().then(results => {
+      const indexed = results.reduce((sum, r) => sum + r.indexed, 0);
+      console.error(`[filesystem-guardian] Local index ready (${indexed} entries)`);
+    });
+  }
+}
+
+export function stopLocalIndex(): void {
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+}
+
+/**
+ * Convert free text into a safe FTS5 match expression
+ * Each whitespace-separated term is quoted (AND semantics); a trailing
+ * `*` becomes a prefix match.
+ */
+export function toFtsQuery(query: string): string {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    throw new InvalidInputError('Search query must not be empty');
+  }
+
+  return terms.map(term => {
+    const prefix = term.length > 1 && term.endsWith('*');
+    const text = (prefix ? term.slice(0, -1) : term).replace(/"/g, '""');
+    return prefix ? `"${text}"*` : `"${text}"`;
+  }).join(' ');
+}
+
+function toSpotlightResult(row: IndexedFileRow, attributes?: string[]): SpotlightResult {
+  const result: SpotlightResult = {
+    path: row.path,
+    name: row.name,
+    kind: row.kind,
+    modified: new Date(row.mtime).toISOString(),
+    size: row.size
+  };
+
+  if (attributes && attributes.length > 0) {
+    const xattrs = getIndexedXattrs(row.id);
+    const selected = Object.fromEntries(Object.entries(xattrs).filter(([name]) => attributes.includes(name)));
+    if (Object.keys(selected).length > 0) {
+      result.attributes = selected;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Search the local index
+ * String queries are full-text; structured queries compile to SQL.
+ * Same output shape as spotlightSearch; `attributes` selects xattrs.
+ */
+export async function searchLocalIndex(
+  query: string | QueryNode,
+  scope?: string[],
+  limit: number = 100,
+  attributes?: string[],
+  offset: number = 0
+): Promise<SpotlightSearchOutput> {
+  const validatedScope: string[] = [];
+  for (const dir of scope ?? []) {
+    try {
+      validatedScope.push(validatePath(dir));
+    } catch {
+      // SECURITY: Don't log actual path to prevent information leakage
+      console.warn('[local-index] Skipping invalid scope directory');
+    }
+  }
+
+  // Scope was requested but none of it is allowed: nothing to search
+  if (scope && scope.length > 0 && validatedScope.length === 0) {
+    return { results: [], count: 0, truncated: false };
+  }
+
+  let rows: IndexedFileRow[];
+  if (typeof query === 'string') {
+    rows = searchIndexedFiles(toFtsQuery(query), validatedScope, limit + 1, offset);
+  } else {
+    const { where, params } = compileToSql(query);
+    rows = queryIndexedFiles(where, params, validatedScope, limit + 1, offset);
+  }
+
+  const truncated = rows.length > limit;
+  const results = rows
+    .slice(0, limit)
+    .filter(row => isPathAllowed(row.path))
+    .map(row => toSpotlightResult(row, attributes));
+
+  return { results, count: results.length, truncated };
+}
+
+export function getLocalIndexStats(): IndexStats {
+  return getIndexStats();
+}
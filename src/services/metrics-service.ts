@@ -0,0 +1,290 @@
+/**
+ * Metrics Service
+ *
+ * In-process counters, gauges and histograms served by GET /metrics in
+ * the Prometheus text format, so a scraper is all that's needed. Label
+ * values come from fixed sets (tool names, route paths, command names)
+ * to keep the number of series bounded.
+ */
+
+import { getConnection } from '../database/connection.js';
+import { subscribeWatchEvents } from './watch-events.js';
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+type Labels = Record<string, string>;
+
+interface MetricDefinition {
+  type: MetricType;
+  help: string;
+}
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  /** Per-bucket counts (not cumulative) */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export interface MetricsSources {
+  /** Number of active watches */
+  activeWatches?: () => number;
+  /** InterLock socket statistics (numeric fields are exported) */
+  interlockStats?: () => Record<string, unknown> | null;
+}
+
+const DEFINITIONS = {
+  fg_tool_calls_total: { type: 'counter', help: 'Tool calls by tool, transport and outcome' },
+  fg_http_requests_total: { type: 'counter', help: 'HTTP requests by method, route and status' },
+  fg_rate_limit_rejections_total: { type: 'counter', help: 'HTTP requests rejected by the rate limiter' },
+  fg_subprocess_duration_seconds: { type: 'histogram', help: 'Duration of mdfind, mdls, xattr and other subprocesses' },
+  fg_watch_events_total: { type: 'counter', help: 'Watch events delivered' },
+  fg_watch_events_per_second: { type: 'gauge', help: 'Watch events per second over the last minute' },
+  fg_active_watches: { type: 'gauge', help: 'Active filesystem watches' },
+  fg_interlock_peers: { type: 'gauge', help: 'Known InterLock peers' },
+  fg_interlock_stats: { type: 'gauge', help: 'InterLock socket statistics (send and receive counts)' },
+  fg_database_size_bytes: { type: 'gauge', help: 'Size of the guardian database, including the operation log' }
+} satisfies Record<string, MetricDefinition>;
+
+export type MetricName = keyof typeof DEFINITIONS;
+
+/** Histogram bucket upper bounds, in seconds */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Window for fg_watch_events_per_second */
+const EVENT_RATE_WINDOW_SECONDS = 60;
+
+const counters = new Map<MetricName, Map<string, Sample>>();
+const histograms = new Map<MetricName, Map<string, HistogramSeries>>();
+let sources: MetricsSources = {};
+
+/** Watch events per whole second (epoch seconds), for the rate gauge */
+const eventsPerSecond = new Map<number, number>();
+let unsubscribe: (() => void) | null = null;
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function incrementCounter(name: MetricName, labels: Labels = {}, by: number = 1): void {
+  let series = counters.get(name);
+  if (!series) {
+    series = new Map();
+    counters.set(name, series);
+  }
+  const key = seriesKey(labels);
+  const sample = series.get(key);
+  if (sample) {
+    sample.value += by;
+  } else {
+    series.set(key, { labels, value: by });
+  }
+}
+
+export function observeHistogram(name: MetricName, labels: Labels, value: number): void {
+  let series = histograms.get(name);
+  if (!series) {
+    series = new Map();
+    histograms.set(name, series);
+  }
+  const key = seriesKey(labels);
+  let histogram = series.get(key);
+  if (!histogram) {
+    histogram = { labels, buckets: new Array(DURATION_BUCKETS.length).fill(0), sum: 0, count: 0 };
+    series.set(key, histogram);
+  }
+  const bucket = DURATION_BUCKETS.findIndex(bound => value <= bound);
+  if (bucket !== -1) {
+    histogram.buckets[bucket]++;
+  }
+  histogram.sum += value;
+  histogram.count++;
+}
+
+/**
+ * Run a tool call and count it by outcome
+ */
+export async function countToolCall<T>(tool: string, transport: 'mcp' | 'http' | 'batch', run: () => T | Promise<T>): Promise<T> {
+  try {
+    const result = await run();
+    incrementCounter('fg_tool_calls_total', { tool, transport, status: 'ok' });
+    return result;
+  } catch (error) {
+    incrementCounter('fg_tool_calls_total', { tool, transport, status: 'error' });
+    throw error;
+  }
+}
+
+/**
+ * Run a subprocess and record how long it took, whether or not it failed
+ */
+export async function timeSubprocess<T>(command: string, run: () => Promise<T>): Promise<T> {
+  const started = process.hrtime.bigint();
+  try {
+    return await run();
+  } finally {
+    const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+    observeHistogram('fg_subprocess_duration_seconds', { command }, seconds);
+  }
+}
+
+export function setMetricsSources(next: MetricsSources): void {
+  sources = { ...sources, ...next };
+}
+
+function pruneEventRate(nowSeconds: number): void {
+  for (const second of eventsPerSecond.keys()) {
+    if (second <= nowSeconds - EVENT_RATE_WINDOW_SECONDS) {
+      eventsPerSecond.delete(second);
+    }
+  }
+}
+
+export function recordWatchEvent(now: number = Date.now()): void {
+  const second = Math.floor(now / 1000);
+  eventsPerSecond.set(second, (eventsPerSecond.get(second) ?? 0) + 1);
+  pruneEventRate(second);
+  incrementCounter('fg_watch_events_total');
+}
+
+/**
+ * Count watch events from the bus
+ */
+export function startMetrics(): void {
+  if (unsubscribe) return;
+  unsubscribe = subscribeWatchEvents(() => recordWatchEvent());
+}
+
+export function stopMetrics(): void {
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+}
+
+/**
+ * Clear every recorded value and source (tests)
+ */
+export function resetMetrics(): void {
+  counters.clear();
+  histograms.clear();
+  eventsPerSecond.clear();
+  sources = {};
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
+
+function databaseSize(): number | null {
+  try {
+    const db = getConnection();
+    const pageCount = db.pragma('page_count', { simple: true }) as number;
+    const pageSize = db.pragma('page_size', { simple: true }) as number;
+    return pageCount * pageSize;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gauge values read at scrape time
+ * A source that throws is left out rather than failing the scrape.
+ */
+function collectGauges(): Map<MetricName, Sample[]> {
+  const gauges = new Map<MetricName, Sample[]>();
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  pruneEventRate(nowSeconds);
+  let recent = 0;
+  for (const count of eventsPerSecond.values()) recent += count;
+  gauges.set('fg_watch_events_per_second', [{ labels: {}, value: recent / EVENT_RATE_WINDOW_SECONDS }]);
+
+  try {
+    if (sources.activeWatches) {
+      gauges.set('fg_active_watches', [{ labels: {}, value: sources.activeWatches() }]);
+    }
+  } catch {
+    // Leave the gauge out
+  }
+
+  try {
+    const stats = sources.interlockStats?.();
+    if (stats) {
+      if (Array.isArray(stats.peers)) {
+        gauges.set('fg_interlock_peers', [{ labels: {}, value: stats.peers.length }]);
+      }
+      gauges.set('fg_interlock_stats', Object.entries(stats)
+        .filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+        .map(([stat, value]) => ({ labels: { stat }, value })));
+    }
+  } catch {
+    // Leave the gauges out
+  }
+
+  const size = databaseSize();
+  if (size !== null) {
+    gauges.set('fg_database_size_bytes', [{ labels: {}, value: size }]);
+  }
+
+  return gauges;
+}
+
+function renderHistogram(name: string, histogram: HistogramSeries): string[] {
+  const lines: string[] = [];
+  let cumulative = 0;
+  DURATION_BUCKETS.forEach((bound, i) => {
+    cumulative += histogram.buckets[i];
+    lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: String(bound) })} ${cumulative}`);
+  });
+  lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+  lines.push(`${name}_sum${formatLabels(histogram.labels)} ${formatValue(histogram.sum)}`);
+  lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+  return lines;
+}
+
+/**
+ * Every metric with at least one series, in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  const gauges = collectGauges();
+  const lines: string[] = [];
+
+  for (const [name, definition] of Object.entries(DEFINITIONS) as Array<[MetricName, MetricDefinition]>) {
+    const body: string[] = [];
+    if (definition.type === 'histogram') {
+      for (const histogram of histograms.get(name)?.values() ?? []) {
+        body.push(...renderHistogram(name, histogram));
+      }
+    } else {
+      const samples = definition.type === 'counter' ? [...(counters.get(name)?.values() ?? [])] : gauges.get(name) ?? [];
+      for (const sample of samples) {
+        body.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+      }
+    }
+
+    if (body.length > 0) {
+      lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`, ...body);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
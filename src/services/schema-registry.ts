@@ -0,0 +1,137 @@
+/**
+ * Attribute Schema Registry
+ *
+ * Maps attribute names (exact or by prefix) to schemas so that
+ * structured attributes such as com.imminence.* are written the same
+ * way by every client. Schemas are loaded from
+ * config/attribute-schemas.json (override with ATTRIBUTE_SCHEMAS_PATH).
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import type { ZodTypeAny } from 'zod';
+import { jsonSchemaToZod, formatZodIssues, type JsonSchema, type SchemaIssue } from '../utils/json-schema.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_CONFIG_PATH = join(__dirname, '..', '..', 'config', 'attribute-schemas.json');
+
+/**
+ * Schema entry as written in the config file
+ * Exactly one of `name` or `prefix` must be set.
+ */
+export interface AttributeSchemaConfig {
+  name?: string;
+  prefix?: string;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface AttributeSchemaEntry extends AttributeSchemaConfig {
+  validator: ZodTypeAny;
+}
+
+export interface SchemaValidationResult {
+  attribute: string;
+  valid: boolean;
+  /** Registry entry that matched (name or prefix), absent when unregistered */
+  matched?: string;
+  issues: SchemaIssue[];
+}
+
+let entries: AttributeSchemaEntry[] = [];
+
+/**
+ * Compile config entries into registry entries
+ * @throws Error if an entry is malformed
+ */
+export function compileSchemas(configs: AttributeSchemaConfig[]): AttributeSchemaEntry[] {
+  return configs.map((config, index) => {
+    if (!config.name === !config.prefix) {
+      throw new Error(`Schema entry ${index}: exactly one of "name" or "prefix" is required`);
+    }
+    try {
+      return { ...config, validator: jsonSchemaToZod(config.schema) };
+    } catch (error) {
+      throw new Error(`Schema entry ${config.name ?? config.prefix}: ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Load the registry from disk
+ * A missing config leaves the registry empty; a malformed one is reported
+ * and also leaves it empty rather than blocking startup.
+ */
+export function loadSchemaRegistry(configPath: string = process.env.ATTRIBUTE_SCHEMAS_PATH || DEFAULT_CONFIG_PATH): number {
+  let content: string;
+  try {
+    content = readFileSync(configPath, 'utf-8');
+  } catch {
+    entries = [];
+    return 0;
+  }
+
+  try {
+    const parsed = JSON.parse(content) as { schemas?: AttributeSchemaConfig[] };
+    entries = compileSchemas(parsed.schemas ?? []);
+  } catch (error) {
+    console.error(`[filesystem-guardian] Invalid attribute schema config: ${(error as Error).message}`);
+    entries = [];
+  }
+
+  return entries.length;
+}
+
+/**
+ * Replace registry contents (used by tests)
+ */
+export function setSchemaRegistry(configs: AttributeSchemaConfig[]): void {
+  entries = compileSchemas(configs);
+}
+
+/**
+ * List registered schemas
+ */
+export function listAttributeSchemas(): AttributeSchemaConfig[] {
+  return entries.map(({ name, prefix, description, schema }) => ({ name, prefix, description, schema }));
+}
+
+/**
+ * Find the schema for an attribute
+ * Exact names win over prefixes; the longest matching prefix wins.
+ */
+export function findAttributeSchema(attribute: string): AttributeSchemaEntry | undefined {
+  const exact = entries.find(e => e.name === attribute);
+  if (exact) return exact;
+
+  return entries
+    .filter(e => e.prefix && attribute.startsWith(e.prefix))
+    .sort((a, b) => b.prefix!.length - a.prefix!.length)[0];
+}
+
+/**
+ * Validate a decoded attribute value
+ * Attributes without a registered schema are always valid.
+ */
+export function validateAttribute(attribute: string, value: unknown): SchemaValidationResult {
+  const entry = findAttributeSchema(attribute);
+  if (!entry) {
+    return { attribute, valid: true, issues: [] };
+  }
+
+  const matched = entry.name ?? entry.prefix;
+  const result = entry.validator.safeParse(value);
+
+  return result.success
+    ? { attribute, valid: true, matched, issues: [] }
+    : { attribute, valid: false, matched, issues: formatZodIssues(result.error) };
+}
+
+/**
+ * Render issues as a single error message
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map(i => `${i.path}: ${i.message}`).join('; ');
+}
@@ -1,7 +1,8 @@
 /**
  * Spotlight Service
  *
- * Provides Spotlight search and indexing using mdfind/mdimport.
+ * Provides Spotlight search and indexing using mdfind/mdimport, or the
+ * local SQLite index on hosts without Spotlight.
  * All paths are validated against the sandbox before execution.
  */
 
@@ -9,11 +10,47 @@ import { execFile, spawn } from 'child_process';
 import { promisify } from 'util';
 import { stat } from 'fs/promises';
 import { basename } from 'path';
+import { createHash } from 'crypto';
 import type { SpotlightResult, SpotlightSearchOutput, ReindexResult } from '../types.js';
-import { validatePath, isPathAllowed, sanitizeErrorMessage } from '../utils/path-validator.js';
+import { validatePath, isPathAllowed, sanitizeErrorMessage, assertPathPermission } from '../utils/path-validator.js';
+import { searchLocalIndex, crawlRoot } from './local-index-service.js';
+import { compileToMdfind, type QueryNode } from '../utils/query-builder.js';
+import { InvalidInputError, BackendFailedError } from '../utils/errors.js';
+import { timeSubprocess } from './metrics-service.js';
+
+export { escapeQueryString } from '../utils/query-builder.js';
 
 const exec = promisify(execFile);
 
+/**
+ * Search backend: macOS Spotlight or the local SQLite index
+ */
+export type SearchTarget = 'spotlight' | 'local';
+
+/**
+ * Page selection: an explicit offset, or a cursor from a previous page
+ */
+export interface SearchPage {
+  offset?: number;
+  cursor?: string;
+}
+
+/**
+ * Search output with pagination state
+ * `next_cursor` is null on the last page.
+ */
+export interface PaginatedSearchOutput extends SpotlightSearchOutput {
+  offset: number;
+  next_cursor: string | null;
+}
+
+/**
+ * Spotlight on macOS, the local index everywhere else
+ */
+export function defaultSearchTarget(): SearchTarget {
+  return process.platform === 'darwin' ? 'spotlight' : 'local';
+}
+
 /**
  * Valid Spotlight attribute name pattern
  * Attribute names must be alphanumeric with underscores, typically starting with kMDItem
@@ -36,15 +73,78 @@ function sanitizeAttributes(attrs: string[]): string[] {
   });
 }
 
+/**
+ * Identify a search so cursors can't be replayed against another query
+ */
+function searchFingerprint(query: string | QueryNode, scope: string[] | undefined, target: SearchTarget): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ query, scope: scope ?? [], target }))
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+/**
+ * Encode an opaque page cursor
+ */
+export function encodeCursor(fingerprint: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ f: fingerprint, o: offset })).toString('base64url');
+}
+
+/**
+ * Decode a page cursor for the given search
+ * @throws InvalidInputError if the cursor is malformed or belongs to a different search
+ */
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let parsed: { f?: unknown; o?: unknown };
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidInputError('Invalid cursor');
+  }
+
+  if (parsed.f !== fingerprint) {
+    throw new InvalidInputError('Cursor does not match this search');
+  }
+  if (typeof parsed.o !== 'number' || !Number.isSafeInteger(parsed.o) || parsed.o < 0) {
+    throw new InvalidInputError('Invalid cursor');
+  }
+  return parsed.o;
+}
+
 /**
  * Search Spotlight index
+ * `query` is either a raw mdfind string or a structured query AST, which
+ * is compiled with escaping. With target 'local', string queries are free
+ * text matched against file names and xattr values in the local index.
+ *
+ * Results are paged: pass the returned `next_cursor` (or an explicit
+ * offset) to fetch the following page.
  */
 export async function spotlightSearch(
-  query: string,
+  query: string | QueryNode,
   scope?: string[],
   limit: number = 100,
-  attributes?: string[]
-): Promise<SpotlightSearchOutput> {
+  attributes?: string[],
+  target: SearchTarget = defaultSearchTarget(),
+  page: SearchPage = {}
+): Promise<PaginatedSearchOutput> {
+  const fingerprint = searchFingerprint(query, scope, target);
+  const offset = page.cursor !== undefined ? decodeCursor(page.cursor, fingerprint) : (page.offset ?? 0);
+
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new InvalidInputError('Offset must be a non-negative integer');
+  }
+
+  const paginate = (output: SpotlightSearchOutput): PaginatedSearchOutput => ({
+    ...output,
+    offset,
+    next_cursor: output.truncated ? encodeCursor(fingerprint, offset + limit) : null
+  });
+
+  if (target === 'local') {
+    return paginate(await searchLocalIndex(query, scope, limit, attributes, offset));
+  }
+
   const args: string[] = [];
 
   // SECURITY: Validate scope directories if provided
@@ -61,35 +161,105 @@ export async function spotlightSearch(
   }
 
   // Add the query
-  args.push(query);
+  args.push(typeof query === 'string' ? query : compileToMdfind(query));
 
   try {
-    const { stdout } = await exec('mdfind', args, { maxBuffer: 10 * 1024 * 1024 });
-    const paths = stdout.trim().split('\n').filter(Boolean);
-
-    // SECURITY: Filter results to only include paths within sandbox
-    const allowedPaths = paths.filter(p => isPathAllowed(p));
-
-    // Limit results
-    const truncated = allowedPaths.length > limit;
-    const limitedPaths = allowedPaths.slice(0, limit);
+    const { paths, more } = await timeSubprocess('mdfind', () => streamMdfind(args, offset, limit));
 
     // Get metadata for each result
     const results = await Promise.all(
-      limitedPaths.map(p => getFileMetadata(p, attributes))
+      paths.map(p => getFileMetadata(p, attributes))
     );
 
-    return {
+    return paginate({
       results: results.filter((r): r is SpotlightResult => r !== null),
       count: results.filter(r => r !== null).length,
-      truncated
-    };
+      truncated: more
+    });
   } catch (error) {
     // SECURITY: Sanitize error message to prevent path leakage
-    throw new Error(`Spotlight search failed: ${sanitizeErrorMessage((error as Error).message)}`);
+    throw new BackendFailedError(`Spotlight search failed: ${sanitizeErrorMessage((error as Error).message)}`);
   }
 }
 
+/**
+ * Stream mdfind output, stopping as soon as a page is full
+ *
+ * Paths are NUL-separated (-0) so names containing newlines survive.
+ * Only sandboxed paths count towards `skip` and `take`.
+ */
+function streamMdfind(args: string[], skip: number, take: number): Promise<{ paths: string[]; more: boolean }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('mdfind', ['-0', ...args], { stdio: ['ignore', 'pipe', 'pipe'] });
+    const paths: string[] = [];
+    let skipped = 0;
+    let pending = '';
+    let stderr = '';
+    let settled = false;
+
+    const finish = (more: boolean) => {
+      if (settled) return;
+      settled = true;
+      child.kill();
+      resolve({ paths, more });
+    };
+
+    // Returns true once the page is full and one more result proves there is a next page
+    const accept = (path: string): boolean => {
+      // SECURITY: Filter results to only include paths within sandbox
+      if (!path || !isPathAllowed(path)) return false;
+      if (skipped < skip) {
+        skipped++;
+        return false;
+      }
+      if (paths.length === take) return true;
+      paths.push(path);
+      return false;
+    };
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      if (settled) return;
+      pending += chunk;
+
+      let separator: number;
+      while ((separator = pending.indexOf('\0')) !== -1) {
+        const path = pending.slice(0, separator);
+        pending = pending.slice(separator + 1);
+        if (accept(path)) {
+          finish(true);
+          return;
+        }
+      }
+    });
+
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      if (stderr.length < 4096) stderr += chunk;
+    });
+
+    child.on('error', (error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    });
+
+    child.on('close', (code) => {
+      if (settled) return;
+      if (accept(pending)) {
+        finish(true);
+        return;
+      }
+      if (code !== 0 && paths.length === 0 && stderr) {
+        settled = true;
+        reject(new Error(stderr.trim()));
+        return;
+      }
+      finish(false);
+    });
+  });
+}
+
 /**
  * Get file metadata
  */
@@ -133,7 +303,7 @@ async function getSpotlightAttributes(path: string, attrs: string[]): Promise<Re
 
   try {
     const args = ['--name', ...safeAttrs, path];
-    const { stdout } = await exec('mdls', args);
+    const { stdout } = await timeSubprocess('mdls', () => exec('mdls', args));
 
     // Parse mdls output
     const lines = stdout.split('\n');
@@ -180,13 +350,16 @@ function parseSpotlightValue(value: string): unknown {
 }
 
 /**
- * Force Spotlight to reindex a path
+ * Force Spotlight (or the local index) to reindex a path
  */
-export async function spotlightReindex(filePath: string): Promise<ReindexResult> {
-  // SECURITY: Validate path is within sandbox
+export async function spotlightReindex(
+  filePath: string,
+  target: SearchTarget = defaultSearchTarget()
+): Promise<ReindexResult> {
+  // SECURITY: Validate path is within sandbox and its root isn't read-only
   let validatedPath: string;
   try {
-    validatedPath = validatePath(filePath);
+    validatedPath = assertPathPermission(filePath, 'write');
   } catch (error) {
     return {
       path: filePath,
@@ -195,8 +368,25 @@ export async function spotlightReindex(filePath: string): Promise<ReindexResult>
     };
   }
 
+  if (target === 'local') {
+    try {
+      const result = await crawlRoot(validatedPath);
+      return {
+        path: validatedPath,
+        queued: true,
+        message: `Indexed ${result.indexed} entries, removed ${result.removed}`
+      };
+    } catch (error) {
+      return {
+        path: validatedPath,
+        queued: false,
+        message: `Reindex failed: ${sanitizeErrorMessage((error as Error).message)}`
+      };
+    }
+  }
+
   try {
-    await exec('mdimport', [validatedPath]);
+    await timeSubprocess('mdimport', () => exec('mdimport', [validatedPath]));
     return {
       path: validatedPath,
       queued: true,
@@ -215,7 +405,7 @@ export async function spotlightReindex(filePath: string): Promise<ReindexResult>
 /**
  * Get file kind based on extension
  */
-function getFileKind(path: string): string {
+export function getFileKind(path: string): string {
   const ext = path.split('.').pop()?.toLowerCase() || '';
 
   const kinds: Record<string, string> = {
@@ -251,13 +441,27 @@ function getFileKind(path: string): string {
 }
 
 /**
- * Common Spotlight query examples
+ * Common Spotlight queries as structured ASTs
+ */
+export const QueryPresets = {
+  ALL_MARKDOWN: { attribute: 'kMDItemDisplayName', op: '==', value: '*.md', wildcard: true },
+  RED_TAG: { tag: 'Red' },
+  RECENT_MODIFIED: { attribute: 'kMDItemFSContentChangeDate', op: '>=', value: { relative: '-7d' } },
+  PDF_FILES: { contentType: 'com.adobe.pdf' },
+  IMAGES: { contentType: 'public.image' },
+  TEXT_CONTENT: (text: string): QueryNode => ({ text }),
+  TAGGED: (tag: string): QueryNode => ({ tag })
+} satisfies Record<string, QueryNode | ((arg: string) => QueryNode)>;
+
+/**
+ * Common Spotlight query examples (compiled mdfind syntax)
  */
 export const SpotlightQueries = {
-  ALL_MARKDOWN: 'kMDItemDisplayName == "*.md"',
-  RED_TAG: 'kMDItemUserTags == "Red"',
-  RECENT_MODIFIED: 'kMDItemFSContentChangeDate >= $time.now(-7d)',
-  PDF_FILES: 'kMDItemContentType == "com.adobe.pdf"',
-  IMAGES: 'kMDItemContentTypeTree == "public.image"',
-  TEXT_CONTENT: (text: string) => `kMDItemTextContent == "*${text}*"`
+  ALL_MARKDOWN: compileToMdfind(QueryPresets.ALL_MARKDOWN),
+  RED_TAG: compileToMdfind(QueryPresets.RED_TAG),
+  TAGGED: (tag: string) => compileToMdfind(QueryPresets.TAGGED(tag)),
+  RECENT_MODIFIED: compileToMdfind(QueryPresets.RECENT_MODIFIED),
+  PDF_FILES: compileToMdfind(QueryPresets.PDF_FILES),
+  IMAGES: compileToMdfind(QueryPresets.IMAGES),
+  TEXT_CONTENT: (text: string) => compileToMdfind(QueryPresets.TEXT_CONTENT(text))
 };
@@ -0,0 +1,257 @@
+/**
+ * Finder Tag Service
+ *
+ * Reads and writes Finder tags stored in the
+ * `com.apple.metadata:_kMDItemUserTags` binary plist. Each entry is
+ * encoded as "Name\nColorIndex" (the color suffix is optional).
+ * All paths are validated against the sandbox before execution.
+ */
+
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+import { getXattrs, setXattrs, CommonAttributes } from './xattr-service.js';
+import { spotlightSearch, SpotlightQueries } from './spotlight-service.js';
+import { getXattrBackend } from './xattr-backends/index.js';
+import { parseBinaryPlist, isBinaryPlist } from '../utils/bplist.js';
+import { validatePath, sanitizeErrorMessage, ALLOWED_ROOTS } from '../utils/path-validator.js';
+import { GuardianError, InvalidInputError } from '../utils/errors.js';
+
+/**
+ * Finder label colors, indexed as stored in the tag plist
+ */
+export const TAG_COLORS = ['none', 'gray', 'green', 'purple', 'blue', 'yellow', 'red', 'orange'] as const;
+
+export type TagColor = (typeof TAG_COLORS)[number];
+
+export interface FinderTag {
+  name: string;
+  color: TagColor;
+}
+
+export interface TagInput {
+  name: string;
+  color?: TagColor;
+}
+
+export interface TagsResult {
+  path: string;
+  tags: FinderTag[];
+  count: number;
+}
+
+export interface FindByTagResult {
+  tag: string;
+  source: 'spotlight' | 'scan';
+  paths: string[];
+  count: number;
+  truncated: boolean;
+}
+
+const DEFAULT_SCAN_DEPTH = 8;
+
+/**
+ * Parse a stored "Name\nColorIndex" entry
+ */
+export function parseTag(entry: string): FinderTag {
+  const newline = entry.lastIndexOf('\n');
+  if (newline === -1) {
+    return { name: entry, color: 'none' };
+  }
+
+  const index = Number(entry.slice(newline + 1));
+  const color = Number.isInteger(index) ? TAG_COLORS[index] : undefined;
+
+  return color
+    ? { name: entry.slice(0, newline), color }
+    : { name: entry, color: 'none' };
+}
+
+/**
+ * Format a tag as a stored "Name\nColorIndex" entry
+ */
+export function formatTag(tag: FinderTag): string {
+  const index = TAG_COLORS.indexOf(tag.color);
+  return index > 0 ? `${tag.name}\n${index}` : tag.name;
+}
+
+/**
+ * Finder compares tag names case-insensitively
+ */
+function sameTag(a: string, b: string): boolean {
+  return a.localeCompare(b, undefined, { sensitivity: 'accent' }) === 0;
+}
+
+function validateTagName(name: string): void {
+  if (!name || typeof name !== 'string' || name.includes('\n')) {
+    throw new InvalidInputError('Invalid tag name: must be a non-empty string without newlines');
+  }
+}
+
+/**
+ * Get Finder tags on a file
+ */
+export async function getTags(filePath: string): Promise<TagsResult> {
+  const result = await getXattrs(filePath, CommonAttributes.FINDER_TAGS, true);
+  const stored = result.attributes[CommonAttributes.FINDER_TAGS];
+
+  if (!stored) {
+    return { path: result.path, tags: [], count: 0 };
+  }
+
+  // Nothing failed in the backend; the file holds a malformed value
+  if (stored.encoding !== 'plist' || !Array.isArray(stored.value)) {
+    throw new InvalidInputError('Finder tags attribute is not a valid tag plist');
+  }
+
+  const tags = stored.value
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(parseTag);
+
+  return { path: result.path, tags, count: tags.length };
+}
+
+/**
+ * Replace all Finder tags on a file
+ * An empty list removes the tag attribute entirely.
+ */
+export async function setTags(filePath: string, tags: TagInput[]): Promise<TagsResult> {
+  const normalized: FinderTag[] = [];
+  for (const tag of tags) {
+    validateTagName(tag.name);
+    const existing = normalized.find(t => sameTag(t.name, tag.name));
+    if (existing) {
+      existing.color = tag.color ?? existing.color;
+    } else {
+      normalized.push({ name: tag.name, color: tag.color ?? 'none' });
+    }
+  }
+
+  const value = normalized.length > 0
+    ? { value: normalized.map(formatTag), encoding: 'plist' as const }
+    : null;
+
+  const result = await setXattrs(filePath, { [CommonAttributes.FINDER_TAGS]: value });
+
+  // Deleting a tag attribute that was never set is not a failure
+  const failure = result.failed.find(f => value !== null || f.code !== 'XATTR_NOT_FOUND');
+  if (failure) {
+    throw new GuardianError(failure.code, `Failed to write tags: ${failure.error}`);
+  }
+
+  return { path: result.path, tags: normalized, count: normalized.length };
+}
+
+/**
+ * Add tags to a file, keeping existing ones
+ * Adding a tag that already exists updates its color when one is given.
+ */
+export async function addTags(filePath: string, tags: TagInput[]): Promise<TagsResult> {
+  const current = await getTags(filePath);
+  return setTags(current.path, [...current.tags, ...tags]);
+}
+
+/**
+ * Remove tags from a file by name
+ */
+export async function removeTags(filePath: string, names: string[]): Promise<TagsResult> {
+  const current = await getTags(filePath);
+  const remaining = current.tags.filter(tag => !names.some(name => sameTag(name, tag.name)));
+  return setTags(current.path, remaining);
+}
+
+/**
+ * Find files carrying a tag
+ *
+ * Uses Spotlight on macOS. Elsewhere (or when Spotlight is unavailable)
+ * walks the scope directories and reads the tag attribute directly.
+ */
+export async function findByTag(
+  tag: string,
+  scope?: string[],
+  limit: number = 100,
+  maxDepth: number = DEFAULT_SCAN_DEPTH
+): Promise<FindByTagResult> {
+  validateTagName(tag);
+
+  if (process.platform === 'darwin') {
+    const search = await spotlightSearch(SpotlightQueries.TAGGED(tag), scope, limit);
+    const paths = search.results.map(r => r.path);
+    return { tag, source: 'spotlight', paths, count: paths.length, truncated: search.truncated };
+  }
+
+  const roots = scope && scope.length > 0 ? scope : ALLOWED_ROOTS;
+  const paths: string[] = [];
+  let truncated = false;
+
+  for (const root of roots) {
+    let validatedRoot: string;
+    try {
+      validatedRoot = validatePath(root);
+    } catch {
+      // SECURITY: Don't log actual path to prevent information leakage
+      console.warn('[tags] Skipping invalid scope directory');
+      continue;
+    }
+
+    truncated = await scanForTag(validatedRoot, tag, paths, limit, maxDepth);
+    if (truncated) break;
+  }
+
+  return { tag, source: 'scan', paths, count: paths.length, truncated };
+}
+
+/**
+ * Recursively collect files tagged with `tag`
+ * @returns true when the limit was reached
+ */
+async function scanForTag(
+  dir: string,
+  tag: string,
+  matches: string[],
+  limit: number,
+  depth: number
+): Promise<boolean> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    console.warn(`[tags] Cannot read directory: ${sanitizeErrorMessage((error as Error).message)}`);
+    return false;
+  }
+
+  for (const entry of entries) {
+    // SECURITY: Never follow symlinks out of the sandbox
+    if (entry.isSymbolicLink()) continue;
+
+    const fullPath = join(dir, entry.name);
+
+    if (await hasTag(fullPath, tag)) {
+      if (matches.length >= limit) return true;
+      matches.push(fullPath);
+    }
+
+    if (entry.isDirectory() && depth > 0) {
+      if (await scanForTag(fullPath, tag, matches, limit, depth - 1)) return true;
+    }
+  }
+
+  return false;
+}
+
+async function hasTag(path: string, tag: string): Promise<boolean> {
+  const backend = getXattrBackend();
+  try {
+    const names = await backend.list(path);
+    if (!names.includes(CommonAttributes.FINDER_TAGS)) return false;
+
+    const raw = await backend.read(path, CommonAttributes.FINDER_TAGS);
+    if (!isBinaryPlist(raw)) return false;
+
+    const entries = parseBinaryPlist(raw);
+    return Array.isArray(entries) && entries.some(
+      entry => typeof entry === 'string' && sameTag(parseTag(entry).name, tag)
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Watch Event Bus
+ *
+ * Single in-process source of filesystem watch events. The fsevents
+ * service publishes every event here; the local index, WebSocket server
+ * and other consumers subscribe instead of hooking the watchers directly.
+ *
+ * Watches with a debounce window have their events held until the watch
+ * goes quiet, then delivered coalesced (one event per path) with
+ * delete + create pairs reported as a single rename. Only the event types
+ * a watch asked for are delivered, so a watch on `renamed` never sees the
+ * unpaired halves.
+ */
+
+import { EventEmitter } from 'events';
+import { basename, dirname } from 'path';
+import type { FsEventType } from '../types.js';
+import { isWithinSandbox } from '../utils/path-validator.js';
+import { getWatchSettings, type WatchSettings } from './watch-settings.js';
+
+export interface WatchEvent {
+  watchId: string;
+  type: FsEventType;
+  path: string;
+  timestamp: string;
+  /** Previous path of a paired rename (`path` is the new one) */
+  from?: string;
+  /** Event log sequence number, when the event log is running */
+  seq?: number;
+}
+
+export type WatchEventListener = (event: WatchEvent) => void | Promise<void>;
+
+/** Persists an event before delivery and returns its sequence number */
+export type WatchEventRecorder = (event: WatchEvent) => number;
+
+interface PendingBatch {
+  events: WatchEvent[];
+  startedAt: number;
+  timer?: NodeJS.Timeout;
+}
+
+/** A continuous stream is still delivered after this many windows */
+const MAX_WAIT_WINDOWS = 10;
+
+/** Window for pairing renames on a watch that wants them without a debounce window */
+const RENAME_PAIRING_MS = 100;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(50);
+
+const pending = new Map<string, PendingBatch>();
+
+let recorder: WatchEventRecorder | null = null;
+
+/**
+ * Install (or remove) the recorder that numbers every delivered event
+ */
+export function setWatchEventRecorder(next: WatchEventRecorder | null): void {
+  recorder = next;
+}
+
+/**
+ * Record then emit, so subscribers see the event's sequence number
+ */
+function deliver(event: WatchEvent): void {
+  const { events } = getWatchSettings(event.watchId);
+  if (events && !events.includes(event.type)) return;
+
+  if (recorder) {
+    try {
+      event = { ...event, seq: recorder(event) };
+    } catch (err) {
+      console.error('[filesystem-guardian] Failed to record watch event:', (err as Error).message);
+    }
+  }
+  emitter.emit('event', event);
+}
+
+/**
+ * Publish a watch event to all subscribers
+ * SECURITY: Events outside the current sandbox roots are dropped, so
+ * watches stop reporting on a root as soon as it is removed on reload.
+ */
+export function publishWatchEvent(event: WatchEvent): void {
+  if (!isWithinSandbox(event.path)) return;
+
+  const windowMs = holdWindow(getWatchSettings(event.watchId));
+  if (windowMs > 0) {
+    bufferEvent(event, windowMs);
+  } else {
+    deliver(event);
+  }
+}
+
+/**
+ * How long a watch holds events (0 delivers them as they arrive)
+ * A watch that wants renames but not both halves needs a window to pair
+ * them in, even without a debounce window of its own.
+ */
+function holdWindow(settings: WatchSettings): number {
+  if (settings.debounceMs > 0) return settings.debounceMs;
+
+  const { events, pairRenames } = settings;
+  const wantsHalves = events === null || (events.includes('created') && events.includes('deleted'));
+  return pairRenames && events?.includes('renamed') && !wantsHalves ? RENAME_PAIRING_MS : 0;
+}
+
+function bufferEvent(event: WatchEvent, windowMs: number): void {
+  const batch = pending.get(event.watchId) ?? { events: [], startedAt: Date.now() };
+  pending.set(event.watchId, batch);
+  clearTimeout(batch.timer);
+  batch.events.push(event);
+
+  const remaining = windowMs * MAX_WAIT_WINDOWS - (Date.now() - batch.startedAt);
+  batch.timer = setTimeout(() => flushWatchEvents(event.watchId), Math.max(0, Math.min(windowMs, remaining)));
+  batch.timer.unref();
+}
+
+/**
+ * Deliver held events now, for one watch or all of them
+ * Called when a watch stops so its last burst isn't lost.
+ */
+export function flushWatchEvents(watchId?: string): void {
+  const ids = watchId ? [watchId] : [...pending.keys()];
+  for (const id of ids) {
+    const batch = pending.get(id);
+    if (!batch) continue;
+    clearTimeout(batch.timer);
+    pending.delete(id);
+
+    for (const event of coalesceWatchEvents(batch.events, getWatchSettings(id))) {
+      deliver(event);
+    }
+  }
+}
+
+/**
+ * Net effect of a burst of events on one path, or null if it cancels out
+ * (a temporary file created and removed within the window)
+ */
+function netEventType(first: FsEventType, last: FsEventType): FsEventType | null {
+  if (first === 'created') return last === 'deleted' ? null : 'created';
+  if (last === 'deleted') return 'deleted';
+  // Deleted then recreated: an atomic save replaced the file in place
+  if (first === 'deleted') return 'modified';
+  return last;
+}
+
+function collapseByPath(events: WatchEvent[]): WatchEvent[] {
+  const byPath = new Map<string, { first: WatchEvent; last: WatchEvent }>();
+  for (const event of events) {
+    const entry = byPath.get(event.path);
+    if (entry) {
+      entry.last = event;
+    } else {
+      byPath.set(event.path, { first: event, last: event });
+    }
+  }
+
+  const collapsed: WatchEvent[] = [];
+  for (const { first, last } of byPath.values()) {
+    const type = netEventType(first.type, last.type);
+    if (type) collapsed.push({ ...last, type });
+  }
+  return collapsed;
+}
+
+/**
+ * Pair each delete with a create of the same name elsewhere (a move) or
+ * in the same directory (a rename); the renamed event takes the create's
+ * place in the sequence.
+ */
+function pairRenames(events: WatchEvent[]): WatchEvent[] {
+  const deletes = events.filter(e => e.type === 'deleted');
+  const creates = events.filter(e => e.type === 'created');
+  const pairs = new Map<WatchEvent, WatchEvent>();
+
+  for (const match of [
+    (d: WatchEvent, c: WatchEvent) => basename(d.path) === basename(c.path),
+    (d: WatchEvent, c: WatchEvent) => dirname(d.path) === dirname(c.path)
+  ]) {
+    for (const deleted of deletes) {
+      if ([...pairs.values()].includes(deleted)) continue;
+      const created = creates.find(c => !pairs.has(c) && c.path !== deleted.path && match(deleted, c));
+      if (created) pairs.set(created, deleted);
+    }
+  }
+
+  const paired = new Set(pairs.values());
+  return events
+    .filter(event => !paired.has(event))
+    .map(event => {
+      const deleted = pairs.get(event);
+      return deleted ? { ...event, type: 'renamed' as const, from: deleted.path } : event;
+    });
+}
+
+/**
+ * Apply a watch's coalescing and rename pairing to a burst of events
+ */
+export function coalesceWatchEvents(
+  events: WatchEvent[],
+  settings: Pick<WatchSettings, 'coalesce' | 'pairRenames'>
+): WatchEvent[] {
+  let result = settings.coalesce ? collapseByPath(events) : events;
+  if (settings.pairRenames) {
+    result = pairRenames(result);
+  }
+  return result;
+}
+
+/**
+ * Subscribe to watch events
+ * Listener errors are logged and never reach the publisher.
+ * @returns Unsubscribe function
+ */
+export function subscribeWatchEvents(listener: WatchEventListener): () => void {
+  const wrapped = (event: WatchEvent) => {
+    try {
+      const result = listener(event);
+      if (result instanceof Promise) {
+        result.catch(err => console.error('[filesystem-guardian] Watch event listener failed:', (err as Error).message));
+      }
+    } catch (err) {
+      console.error('[filesystem-guardian] Watch event listener failed:', (err as Error).message);
+    }
+  };
+
+  emitter.on('event', wrapped);
+  return () => emitter.off('event', wrapped);
+}
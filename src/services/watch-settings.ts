@@ -0,0 +1,105 @@
+/**
+ * Watch Settings Service
+ *
+ * How each watch delivers events. Settings are cached in memory so the
+ * event bus never touches the database on the hot path; the cache is
+ * filled from the watch_settings table at startup.
+ */
+
+import {
+  upsertWatchSettings,
+  getWatchSettingsRows,
+  deleteWatchSettingsRow
+} from '../database/watch-settings.js';
+import type { FsEventType } from '../types.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+export interface WatchSettings {
+  /** Quiet period before a burst is delivered (0 delivers events as they arrive) */
+  debounceMs: number;
+  /** Collapse a burst to one event per path */
+  coalesce: boolean;
+  /** Report a delete + create within the window as one `renamed` event */
+  pairRenames: boolean;
+  /** Event types delivered after coalescing and pairing (null: all) */
+  events: FsEventType[] | null;
+}
+
+export interface WatchSettingsResult {
+  watch_id: string;
+  debounce_ms: number;
+  coalesce: boolean;
+  pair_renames: boolean;
+  events: FsEventType[] | null;
+}
+
+/** Longest debounce window a watch may use */
+export const MAX_DEBOUNCE_MS = 60_000;
+
+/** Events pass through untouched until a watch is given a debounce window */
+export const DEFAULT_WATCH_SETTINGS: WatchSettings = {
+  debounceMs: 0,
+  coalesce: true,
+  pairRenames: true,
+  events: null
+};
+
+const settingsCache = new Map<string, WatchSettings>();
+
+/**
+ * Load stored settings for all watches
+ * @returns Number of watches with stored settings
+ */
+export function loadWatchSettings(): number {
+  settingsCache.clear();
+  for (const row of getWatchSettingsRows()) {
+    settingsCache.set(row.watch_id, {
+      debounceMs: row.debounce_ms,
+      coalesce: row.coalesce === 1,
+      pairRenames: row.pair_renames === 1,
+      events: row.events ? JSON.parse(row.events) as FsEventType[] : null
+    });
+  }
+  return settingsCache.size;
+}
+
+export function getWatchSettings(watchId: string): WatchSettings {
+  return settingsCache.get(watchId) ?? DEFAULT_WATCH_SETTINGS;
+}
+
+/**
+ * Update a watch's settings; unspecified fields keep their current value
+ * @throws InvalidInputError if the debounce window is out of range
+ */
+export function setWatchSettings(watchId: string, changes: Partial<WatchSettings>): WatchSettings {
+  const settings = { ...getWatchSettings(watchId), ...changes };
+  if (!Number.isInteger(settings.debounceMs) || settings.debounceMs < 0 || settings.debounceMs > MAX_DEBOUNCE_MS) {
+    throw new InvalidInputError(`debounce_ms must be an integer between 0 and ${MAX_DEBOUNCE_MS}`);
+  }
+
+  upsertWatchSettings(watchId, settings.debounceMs, settings.coalesce, settings.pairRenames, settings.events);
+  settingsCache.set(watchId, settings);
+  return settings;
+}
+
+/**
+ * Settings as reported by the API
+ */
+export function describeWatchSettings(watchId: string): WatchSettingsResult {
+  const settings = getWatchSettings(watchId);
+  return {
+    watch_id: watchId,
+    debounce_ms: settings.debounceMs,
+    coalesce: settings.coalesce,
+    pair_renames: settings.pairRenames,
+    events: settings.events
+  };
+}
+
+/**
+ * Forget a stopped watch's settings
+ */
+export function deleteWatchSettings(watchId: string): void {
+  settingsCache.delete(watchId);
+  deleteWatchSettingsRow(watchId);
+}
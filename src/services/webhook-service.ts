@@ -0,0 +1,383 @@
+/**
+ * Webhook Service
+ *
+ * Delivers watch events to registered HTTP endpoints for consumers that
+ * can't use the WebSocket or InterLock. A webhook can be limited to one
+ * watch, path globs and event types. Each event is queued in SQLite first,
+ * so deliveries survive restarts; failures are retried with exponential
+ * backoff and dead-lettered after the attempt limit.
+ *
+ * Every request is signed: X-Guardian-Signature is
+ * `sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">` keyed with the
+ * webhook secret, and X-Guardian-Timestamp carries the timestamp so
+ * receivers can reject replays.
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  insertWebhook,
+  updateWebhookRow,
+  getWebhookRow,
+  listWebhookRows,
+  deleteWebhookRow,
+  enqueueWebhookDelivery,
+  getDueWebhookDeliveries,
+  markWebhookDelivered,
+  markWebhookFailed,
+  requeueWebhookDelivery,
+  getWebhookDeliveryRows,
+  pruneWebhookDeliveries,
+  type WebhookRow,
+  type WebhookDeliveryRow,
+  type DeliveryStatus
+} from '../database/webhooks.js';
+import { subscribeWatchEvents, type WatchEvent } from './watch-events.js';
+import { matchGlob } from '../utils/glob.js';
+import type { FsEventType } from '../types.js';
+import { InvalidInputError, NotFoundError } from '../utils/errors.js';
+
+export type { DeliveryStatus } from '../database/webhooks.js';
+
+export interface WebhookInput {
+  url: string;
+  /** HMAC key (default: generated) */
+  secret?: string;
+  /** Only events from this watch (default: all watches) */
+  watchId?: string;
+  /** Absolute path globs (default: all paths) */
+  paths?: string[];
+  /** Event types (default: all) */
+  events?: FsEventType[];
+}
+
+export interface WebhookInfo {
+  id: string;
+  url: string;
+  watch_id: string | null;
+  paths: string[] | null;
+  events: FsEventType[] | null;
+  enabled: boolean;
+  created_at: string;
+}
+
+export interface CreatedWebhook extends WebhookInfo {
+  /** Signing secret; not retrievable again */
+  secret: string;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: string;
+  event_seq: number | null;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface WebhookRetryPolicy {
+  /** Attempts before a delivery is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on each further attempt */
+  baseDelayMs: number;
+  /** Longest delay between attempts */
+  maxDelayMs: number;
+  /** Per-request timeout */
+  timeoutMs: number;
+}
+
+export const SIGNATURE_HEADER = 'X-Guardian-Signature';
+export const TIMESTAMP_HEADER = 'X-Guardian-Timestamp';
+
+/** Deliveries sent per queue pass */
+const BATCH_SIZE = 50;
+
+/** How often the queue is checked for due retries */
+const POLL_INTERVAL = 1000;
+
+let retryPolicy: WebhookRetryPolicy = {
+  maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8),
+  baseDelayMs: Number(process.env.WEBHOOK_RETRY_BASE_MS ?? 5000),
+  maxDelayMs: 60 * 60 * 1000,
+  timeoutMs: 10_000
+};
+
+let cachedWebhooks: WebhookRow[] | null = null;
+let unsubscribe: (() => void) | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let processing: Promise<number> | null = null;
+
+function toInfo(row: WebhookRow): WebhookInfo {
+  return {
+    id: row.id,
+    url: row.url,
+    watch_id: row.watch_id,
+    paths: row.paths ? JSON.parse(row.paths) as string[] : null,
+    events: row.events ? JSON.parse(row.events) as FsEventType[] : null,
+    enabled: row.enabled === 1,
+    created_at: new Date(row.created_at).toISOString()
+  };
+}
+
+function toDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhook_id: row.webhook_id,
+    event_seq: row.event_seq,
+    status: row.status,
+    attempts: row.attempts,
+    next_attempt_at: row.status === 'pending' ? new Date(row.next_attempt_at).toISOString() : null,
+    last_status: row.last_status,
+    last_error: row.last_error,
+    created_at: new Date(row.created_at).toISOString(),
+    delivered_at: row.delivered_at ? new Date(row.delivered_at).toISOString() : null
+  };
+}
+
+/**
+ * @throws InvalidInputError unless the URL is http(s)
+ */
+function checkUrl(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new InvalidInputError(`Invalid webhook URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new InvalidInputError('Webhook URL must use http or https');
+  }
+}
+
+export function createWebhook(input: WebhookInput): CreatedWebhook {
+  checkUrl(input.url);
+  const id = randomUUID();
+  const secret = input.secret ?? randomBytes(32).toString('base64url');
+  insertWebhook(id, input.url, secret, input.watchId ?? null, input.paths ?? null, input.events ?? null);
+  cachedWebhooks = null;
+  return { ...toInfo(getWebhookRow(id)!), secret };
+}
+
+/**
+ * Change a webhook; omitted fields keep their current value, null clears
+ * a filter
+ * @throws NotFoundError if the webhook doesn't exist
+ */
+export function updateWebhook(
+  id: string,
+  changes: { url?: string; watchId?: string | null; paths?: string[] | null; events?: FsEventType[] | null; enabled?: boolean }
+): WebhookInfo {
+  const row = getWebhookRow(id);
+  if (!row) {
+    throw new NotFoundError(`Webhook not found: ${id}`);
+  }
+  if (changes.url !== undefined) {
+    checkUrl(changes.url);
+  }
+
+  updateWebhookRow({
+    ...row,
+    url: changes.url ?? row.url,
+    watch_id: changes.watchId !== undefined ? changes.watchId : row.watch_id,
+    paths: changes.paths !== undefined ? changes.paths && JSON.stringify(changes.paths) : row.paths,
+    events: changes.events !== undefined ? changes.events && JSON.stringify(changes.events) : row.events,
+    enabled: changes.enabled !== undefined ? (changes.enabled ? 1 : 0) : row.enabled
+  });
+  cachedWebhooks = null;
+  return toInfo(getWebhookRow(id)!);
+}
+
+export function deleteWebhook(id: string): boolean {
+  cachedWebhooks = null;
+  return deleteWebhookRow(id);
+}
+
+export function listWebhooks(): WebhookInfo[] {
+  return listWebhookRows().map(toInfo);
+}
+
+/**
+ * Delivery history, newest first
+ */
+export function getWebhookDeliveries(webhookId?: string, status?: DeliveryStatus, limit: number = 100): WebhookDelivery[] {
+  return getWebhookDeliveryRows(webhookId, status, limit).map(toDelivery);
+}
+
+/**
+ * Queue a dead-lettered delivery again
+ */
+export function retryWebhookDelivery(id: number): boolean {
+  const requeued = requeueWebhookDelivery(id);
+  if (requeued) {
+    kickQueue();
+  }
+  return requeued;
+}
+
+export function setWebhookRetryPolicy(policy: Partial<WebhookRetryPolicy>): void {
+  retryPolicy = { ...retryPolicy, ...policy };
+}
+
+export function getWebhookRetryPolicy(): WebhookRetryPolicy {
+  return { ...retryPolicy };
+}
+
+/**
+ * Signature header value for a request body
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a received signature (for receivers written against this service)
+ */
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function webhookMatches(row: WebhookRow, event: WatchEvent): boolean {
+  if (row.enabled !== 1) return false;
+  if (row.watch_id && row.watch_id !== event.watchId) return false;
+  if (row.events && !(JSON.parse(row.events) as string[]).includes(event.type)) return false;
+  if (row.paths && !(JSON.parse(row.paths) as string[]).some(glob => matchGlob(glob, event.path))) return false;
+  return true;
+}
+
+/**
+ * Queue an event for every matching webhook
+ * @returns Number of deliveries queued
+ */
+export function enqueueWebhookEvent(event: WatchEvent): number {
+  if (!cachedWebhooks) {
+    cachedWebhooks = listWebhookRows();
+  }
+
+  let queued = 0;
+  for (const row of cachedWebhooks) {
+    if (!webhookMatches(row, event)) continue;
+    enqueueWebhookDelivery(row.id, event.seq ?? null, JSON.stringify({ webhook_id: row.id, event }));
+    queued++;
+  }
+  return queued;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(retryPolicy.baseDelayMs * 2 ** (attempts - 1), retryPolicy.maxDelayMs);
+}
+
+async function sendDelivery(row: WebhookDeliveryRow): Promise<void> {
+  const webhook = getWebhookRow(row.webhook_id);
+  if (!webhook) return;
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  let statusCode: number | null = null;
+  let error: string;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'filesystem-guardian-webhook',
+        'X-Guardian-Delivery': String(row.id),
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, row.payload)
+      },
+      body: row.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(retryPolicy.timeoutMs)
+    });
+    statusCode = response.status;
+    await response.body?.cancel();
+
+    if (response.ok) {
+      markWebhookDelivered(row.id, statusCode);
+      return;
+    }
+    error = `HTTP ${statusCode}`;
+  } catch (err) {
+    error = (err as Error).message;
+  }
+
+  const attempts = row.attempts + 1;
+  const nextAttemptAt = attempts >= retryPolicy.maxAttempts ? null : Date.now() + retryDelay(attempts);
+  markWebhookFailed(row.id, statusCode, error, nextAttemptAt);
+  if (nextAttemptAt === null) {
+    console.error(`[filesystem-guardian] Webhook delivery ${row.id} dead-lettered after ${attempts} attempts: ${error}`);
+  }
+}
+
+/**
+ * Send every due delivery (one pass at a time)
+ * @returns Number of deliveries attempted
+ */
+export function processWebhookQueue(): Promise<number> {
+  if (!processing) {
+    processing = (async () => {
+      // Paging by ID attempts a delivery at most once per pass, even if
+      // its retry is already due again
+      let attempted = 0;
+      let lastId = 0;
+      for (;;) {
+        const due = getDueWebhookDeliveries(Date.now(), BATCH_SIZE, lastId);
+        if (due.length === 0) break;
+        lastId = due[due.length - 1].id;
+        attempted += due.length;
+        await Promise.all(due.map(sendDelivery));
+      }
+      return attempted;
+    })().finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+function kickQueue(): void {
+  if (!unsubscribe) return;
+  // A pass already past its last query would miss newly queued deliveries
+  const pass = processing
+    ? processing.then(() => processWebhookQueue())
+    : processWebhookQueue();
+  pass.catch(err =>
+    console.error('[filesystem-guardian] Webhook queue failed:', (err as Error).message)
+  );
+}
+
+/**
+ * Queue watch events and deliver them in the background
+ */
+export function startWebhooks(): void {
+  if (unsubscribe) return;
+  pruneWebhookDeliveries();
+
+  unsubscribe = subscribeWatchEvents(event => {
+    if (enqueueWebhookEvent(event) > 0) {
+      kickQueue();
+    }
+  });
+
+  pollTimer = setInterval(kickQueue, POLL_INTERVAL);
+  pollTimer.unref();
+  kickQueue();
+}
+
+export function stopWebhooks(): void {
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
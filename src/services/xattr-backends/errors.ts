@@ -0,0 +1,38 @@
+/**
+ * Xattr Backend Errors
+ *
+ * The CLI backends only report errno as text, so failures are mapped onto
+ * the error taxonomy by matching the messages of macOS `xattr` and Linux
+ * getfattr/setfattr.
+ */
+
+import {
+  GuardianError,
+  BackendUnavailableError,
+  XattrUnsupportedError,
+  XattrNotFoundError,
+  FileNotFoundError
+} from '../../utils/errors.js';
+import { isXattrUnsupportedError } from './fallback.js';
+
+/**
+ * @returns A GuardianError, or null if the failure isn't recognised
+ */
+export function classifyXattrError(error: unknown, name?: string): GuardianError | null {
+  if (error instanceof GuardianError) return error;
+
+  const { code, syscall, message = '' } = error as NodeJS.ErrnoException;
+  if (code === 'ENOENT' && syscall?.startsWith('spawn')) {
+    return new BackendUnavailableError('Xattr command line tools are not installed');
+  }
+  if (isXattrUnsupportedError(error)) {
+    return new XattrUnsupportedError();
+  }
+  if (code === 'ENODATA' || /No such xattr|No such attribute|\[Errno 93\]/.test(message)) {
+    return new XattrNotFoundError(name);
+  }
+  if (code === 'ENOENT' || /No such file or directory/.test(message)) {
+    return new FileNotFoundError();
+  }
+  return null;
+}
@@ -0,0 +1,143 @@
+/**
+ * Fallback Xattr Backend
+ *
+ * Wraps a real backend for volumes that reject extended attributes
+ * (FAT, some network mounts and container overlays). When the filesystem
+ * answers "not supported", values go to the xattr_fallback table instead
+ * and are merged back into list/read. A name lives in exactly one place:
+ * a successful real write clears any fallback copy.
+ *
+ * Enabled with XATTR_FALLBACK=database.
+ */
+
+import { stat } from 'fs/promises';
+import type { XattrBackend } from './types.js';
+import {
+  getFallbackXattrRows,
+  putFallbackXattr,
+  deleteFallbackXattr,
+  type FallbackXattrRow
+} from '../../database/xattr-fallback.js';
+
+export interface FallbackXattrBackend extends XattrBackend {
+  /** The backend performing real xattr I/O */
+  readonly inner: XattrBackend;
+  fallbackNames(path: string): Promise<string[]>;
+}
+
+/**
+ * Whether an error means the filesystem doesn't support xattrs
+ * The CLI backends surface errno as text: "Operation not supported"
+ * (getfattr/setfattr) or "[Errno 45]"/"[Errno 95]" (macOS xattr).
+ */
+export function isXattrUnsupportedError(error: unknown): boolean {
+  const { code, message } = error as NodeJS.ErrnoException;
+  if (code === 'ENOTSUP' || code === 'EOPNOTSUPP') return true;
+  return typeof message === 'string' && /Operation not supported|\[Errno (45|95)\]/.test(message);
+}
+
+export interface FallbackFileKey {
+  dev: string;
+  ino: string;
+  /** Birth time in nanoseconds, null if the filesystem doesn't report one */
+  born: string | null;
+}
+
+/**
+ * Device, inode and birth time of a file, as strings (inodes can exceed 2^53)
+ */
+export async function fallbackFileKey(path: string): Promise<FallbackFileKey> {
+  const stats = await stat(path, { bigint: true });
+  return {
+    dev: stats.dev.toString(),
+    ino: stats.ino.toString(),
+    born: stats.birthtimeNs > 0n ? stats.birthtimeNs.toString() : null
+  };
+}
+
+/**
+ * Whether a row stored under this device and inode belongs to the file now
+ * at `path`, rather than a deleted file whose inode was reused. Without a
+ * birth time to compare, the row must still name this path.
+ */
+export function isSameStoredFile(row: FallbackXattrRow, key: FallbackFileKey, path: string): boolean {
+  if (row.born !== null && key.born !== null) {
+    return row.born === key.born;
+  }
+  return row.path === path;
+}
+
+/**
+ * Stored values for a file, pruning rows left by an earlier file with
+ * the same inode
+ */
+async function readStore(path: string): Promise<{ key: FallbackFileKey; values: Map<string, Buffer> }> {
+  const key = await fallbackFileKey(path);
+  const values = new Map<string, Buffer>();
+  for (const row of getFallbackXattrRows(key.dev, key.ino)) {
+    if (isSameStoredFile(row, key, path)) {
+      values.set(row.name, row.value);
+    } else {
+      deleteFallbackXattr(row.dev, row.ino, row.name);
+    }
+  }
+  return { key, values };
+}
+
+/**
+ * Wrap a backend with the database fallback store
+ */
+export function withFallbackStore(inner: XattrBackend): FallbackXattrBackend {
+  return {
+    name: `${inner.name}+fallback`,
+    inner,
+
+    async list(path: string): Promise<string[]> {
+      let names: string[] = [];
+      try {
+        names = await inner.list(path);
+      } catch (error) {
+        if (!isXattrUnsupportedError(error)) throw error;
+      }
+      const stored = [...(await readStore(path)).values.keys()];
+      return [...names, ...stored.filter(name => !names.includes(name))];
+    },
+
+    async read(path: string, name: string): Promise<Buffer> {
+      const stored = (await readStore(path)).values.get(name);
+      return stored ?? inner.read(path, name);
+    },
+
+    async write(path: string, name: string, value: Buffer): Promise<void> {
+      const { key } = await readStore(path);
+      try {
+        await inner.write(path, name, value);
+      } catch (error) {
+        if (!isXattrUnsupportedError(error)) throw error;
+        putFallbackXattr(key.dev, key.ino, key.born, path, name, value);
+        return;
+      }
+      deleteFallbackXattr(key.dev, key.ino, name);
+    },
+
+    async remove(path: string, name: string): Promise<void> {
+      const { key, values } = await readStore(path);
+      if (values.has(name)) {
+        deleteFallbackXattr(key.dev, key.ino, name);
+      } else {
+        await inner.remove(path, name);
+      }
+    },
+
+    async fallbackNames(path: string): Promise<string[]> {
+      return [...(await readStore(path)).values.keys()];
+    }
+  };
+}
+
+/**
+ * The real backend underneath a possibly wrapped one
+ */
+export function unwrapFallback(backend: XattrBackend): XattrBackend {
+  return 'inner' in backend ? (backend as FallbackXattrBackend).inner : backend;
+}
@@ -0,0 +1,81 @@
+/**
+ * Xattr Backend Selection
+ *
+ * The backend is chosen once at startup from XATTR_BACKEND
+ * (`macos` | `linux`), falling back to the host platform.
+ * XATTR_FALLBACK=database wraps it with the fallback store for volumes
+ * that reject xattrs.
+ */
+
+import type { XattrBackend } from './types.js';
+import { macosXattrBackend } from './macos.js';
+import { linuxXattrBackend } from './linux.js';
+import { withFallbackStore } from './fallback.js';
+import { BackendUnavailableError } from '../../utils/errors.js';
+
+export type { XattrBackend, XattrStorage } from './types.js';
+export { macosXattrBackend } from './macos.js';
+export { linuxXattrBackend } from './linux.js';
+export {
+  withFallbackStore,
+  unwrapFallback,
+  isXattrUnsupportedError,
+  fallbackFileKey,
+  isSameStoredFile
+} from './fallback.js';
+export { classifyXattrError } from './errors.js';
+
+const BACKENDS: Record<string, XattrBackend> = {
+  macos: macosXattrBackend,
+  linux: linuxXattrBackend
+};
+
+let activeBackend: XattrBackend | null = null;
+
+/**
+ * Resolve the backend for the current host
+ */
+export function selectXattrBackend(
+  override: string | undefined = process.env.XATTR_BACKEND,
+  platform: NodeJS.Platform = process.platform
+): XattrBackend {
+  if (override) {
+    const backend = BACKENDS[override];
+    if (!backend) {
+      throw new Error(`Unknown xattr backend: ${override}`);
+    }
+    return backend;
+  }
+
+  switch (platform) {
+    case 'darwin':
+      return macosXattrBackend;
+    case 'linux':
+      return linuxXattrBackend;
+    default:
+      throw new BackendUnavailableError(`No xattr backend available for platform: ${platform}`);
+  }
+}
+
+/**
+ * Get the active backend, selecting it on first use
+ */
+export function getXattrBackend(): XattrBackend {
+  if (!activeBackend) {
+    activeBackend = selectXattrBackend();
+    if (process.env.XATTR_FALLBACK === 'database') {
+      activeBackend = withFallbackStore(activeBackend);
+    } else if (process.env.XATTR_FALLBACK && process.env.XATTR_FALLBACK !== 'off') {
+      throw new Error(`Unknown xattr fallback: ${process.env.XATTR_FALLBACK}`);
+    }
+    console.error(`[filesystem-guardian] Using ${activeBackend.name} xattr backend`);
+  }
+  return activeBackend;
+}
+
+/**
+ * Replace the active backend (used by tests)
+ */
+export function setXattrBackend(backend: XattrBackend | null): void {
+  activeBackend = backend;
+}
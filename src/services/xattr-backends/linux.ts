@@ -0,0 +1,69 @@
+/**
+ * Linux Xattr Backend
+ *
+ * Wraps getfattr/setfattr from the `attr` package. Linux only lets
+ * unprivileged processes write the `user.*` namespace, so attribute names
+ * are transparently prefixed on write and stripped on read. A macOS name
+ * such as `com.imminence.dewey` is stored as `user.com.imminence.dewey`.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { XattrBackend } from './types.js';
+import { timeSubprocess } from '../metrics-service.js';
+
+const exec = promisify(execFile);
+
+const USER_NAMESPACE = 'user.';
+
+/**
+ * Map a guardian attribute name into the Linux user namespace
+ */
+export function toLinuxName(name: string): string {
+  return USER_NAMESPACE + name;
+}
+
+/**
+ * Map a Linux attribute name back to the guardian name
+ * Returns null for attributes outside the user namespace
+ */
+export function fromLinuxName(name: string): string | null {
+  return name.startsWith(USER_NAMESPACE) ? name.slice(USER_NAMESPACE.length) : null;
+}
+
+export const linuxXattrBackend: XattrBackend = {
+  name: 'linux',
+
+  async list(path: string): Promise<string[]> {
+    // --absolute-names keeps getfattr quiet about leading slashes,
+    // -m restricts the dump to the user namespace
+    const { stdout } = await timeSubprocess('getfattr', () => exec('getfattr', ['--absolute-names', '-m', '^user\\.', path]));
+
+    return stdout
+      .split('\n')
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => fromLinuxName(line.trim()))
+      .filter((name): name is string => name !== null);
+  },
+
+  async read(path: string, name: string): Promise<Buffer> {
+    // --only-values prints the raw bytes with no quoting or trailing newline
+    const { stdout } = await timeSubprocess('getfattr', () => exec('getfattr', [
+      '--absolute-names',
+      '--only-values',
+      '-n', toLinuxName(name),
+      path
+    ], { encoding: 'buffer' }));
+    return stdout;
+  },
+
+  async write(path: string, name: string, value: Buffer): Promise<void> {
+    // Hex-encode the value so setfattr never interprets quotes or escapes
+    const hex = '0x' + value.toString('hex');
+    await timeSubprocess('setfattr', () => exec('setfattr', ['-n', toLinuxName(name), '-v', hex, path]));
+  },
+
+  async remove(path: string, name: string): Promise<void> {
+    await timeSubprocess('setfattr', () => exec('setfattr', ['-x', toLinuxName(name), path]));
+  }
+};
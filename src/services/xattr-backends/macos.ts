@@ -0,0 +1,43 @@
+/**
+ * macOS Xattr Backend
+ *
+ * Wraps the native `xattr` command line tool. Values always travel
+ * as hex (`-px` / `-wx`) so binary attributes survive intact.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { XattrBackend } from './types.js';
+import { timeSubprocess } from '../metrics-service.js';
+
+const exec = promisify(execFile);
+
+export const macosXattrBackend: XattrBackend = {
+  name: 'macos',
+
+  async list(path: string): Promise<string[]> {
+    try {
+      const { stdout } = await timeSubprocess('xattr', () => exec('xattr', [path]));
+      return stdout.trim().split('\n').filter(Boolean);
+    } catch (error) {
+      // No attributes is not an error
+      if ((error as Error).message.includes('No such xattr')) {
+        return [];
+      }
+      throw error;
+    }
+  },
+
+  async read(path: string, name: string): Promise<Buffer> {
+    const { stdout } = await timeSubprocess('xattr', () => exec('xattr', ['-px', name, path]));
+    return Buffer.from(stdout.replace(/\s/g, ''), 'hex');
+  },
+
+  async write(path: string, name: string, value: Buffer): Promise<void> {
+    await timeSubprocess('xattr', () => exec('xattr', ['-wx', name, value.toString('hex'), path]));
+  },
+
+  async remove(path: string, name: string): Promise<void> {
+    await timeSubprocess('xattr', () => exec('xattr', ['-d', name, path]));
+  }
+};
@@ -0,0 +1,30 @@
+/**
+ * Xattr Backend Interface
+ *
+ * A backend performs raw extended attribute I/O on an already-validated path.
+ * Sandbox checks, decoding and audit logging stay in xattr-service.ts so
+ * every platform behaves the same above this layer.
+ */
+
+/** Where an attribute value lives */
+export type XattrStorage = 'xattr' | 'fallback';
+
+export interface XattrBackend {
+  /** Backend identifier (reported in logs and health output) */
+  readonly name: string;
+
+  /** List attribute names on a file (empty array when there are none) */
+  list(path: string): Promise<string[]>;
+
+  /** Read the raw bytes of a single attribute */
+  read(path: string, name: string): Promise<Buffer>;
+
+  /** Write the raw bytes of a single attribute */
+  write(path: string, name: string, value: Buffer): Promise<void>;
+
+  /** Remove a single attribute */
+  remove(path: string, name: string): Promise<void>;
+
+  /** Names held outside real xattrs (only backends with a fallback store) */
+  fallbackNames?(path: string): Promise<string[]>;
+}
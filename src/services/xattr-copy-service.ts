@@ -0,0 +1,230 @@
+/**
+ * Xattr Copy Service
+ *
+ * Copies attributes from one file to others, or mirrors them between two
+ * directory trees by relative path. Reads go through getXattrs() and
+ * writes through setXattrs(), so sandbox modes, schema validation, policy
+ * checks, history and the operation log all apply.
+ */
+
+import { lstat } from 'fs/promises';
+import { join, relative } from 'path';
+import type { XattrValue } from '../types.js';
+import { getXattrs, setXattrs, listXattrs, type CodedSetXattrResult } from './xattr-service.js';
+import { classifyXattrError } from './xattr-backends/index.js';
+import { selectBulkTargets } from './bulk-xattr-service.js';
+import { validatePath } from '../utils/path-validator.js';
+import type { EncodedXattrInput } from '../utils/xattr-encoding.js';
+import { describeError, InvalidInputError } from '../utils/errors.js';
+
+/**
+ * How source attributes combine with those already on a destination
+ * - merge: set every source attribute, keep destination-only attributes
+ * - overwrite: make the destination match the source exactly
+ *   (destination-only attributes in scope are deleted)
+ * - skip-existing: only add attributes the destination doesn't have
+ */
+export const COPY_MODES = ['overwrite', 'merge', 'skip-existing'] as const;
+
+export type CopyMode = typeof COPY_MODES[number];
+
+export interface CopyOptions {
+  /** Attributes to copy (default: all) */
+  names?: string[];
+  mode?: CopyMode;
+  dryRun?: boolean;
+}
+
+export interface CopyDestinationResult extends CodedSetXattrResult {
+  /** Attributes left alone because the destination already had them */
+  skipped: string[];
+}
+
+export interface CopyXattrsResult {
+  source: string;
+  mode: CopyMode;
+  dry_run: boolean;
+  destinations: CopyDestinationResult[];
+  /** Attributes removed from the source after a successful move */
+  moved?: string[];
+}
+
+export interface SyncOptions extends CopyOptions {
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+}
+
+export interface SyncXattrsResult {
+  source_root: string;
+  destination_root: string;
+  mode: CopyMode;
+  dry_run: boolean;
+  files: CopyDestinationResult[];
+  /** Source files (relative) with no counterpart in the destination tree */
+  missing: string[];
+}
+
+/**
+ * Encode a decoded value so setXattrs() writes back the identical bytes
+ */
+function toInput(value: XattrValue): EncodedXattrInput {
+  return { value: value.value, encoding: value.encoding };
+}
+
+/**
+ * Read the attributes to copy, byte-exact
+ */
+async function readSource(path: string, names?: string[]): Promise<Record<string, XattrValue>> {
+  const { attributes } = await getXattrs(path, undefined, false);
+  if (!names) return attributes;
+  return Object.fromEntries(Object.entries(attributes).filter(([name]) => names.includes(name)));
+}
+
+/**
+ * Apply source attributes to one destination
+ */
+async function applyToDestination(
+  source: Record<string, XattrValue>,
+  destination: string,
+  options: CopyOptions
+): Promise<CopyDestinationResult> {
+  const mode = options.mode ?? 'merge';
+  const existing = (await listXattrs(destination)).attributes;
+  const patch: Record<string, EncodedXattrInput | null> = {};
+  const skipped: string[] = [];
+
+  for (const [name, value] of Object.entries(source)) {
+    if (mode === 'skip-existing' && existing.includes(name)) {
+      skipped.push(name);
+    } else {
+      patch[name] = toInput(value);
+    }
+  }
+
+  if (mode === 'overwrite') {
+    const scope = options.names ?? existing;
+    for (const name of scope) {
+      if (existing.includes(name) && !(name in source)) {
+        patch[name] = null;
+      }
+    }
+  }
+
+  const names = Object.keys(patch);
+  if (options.dryRun || names.length === 0) {
+    return {
+      path: validatePath(destination),
+      set: names.filter(n => patch[n] !== null),
+      deleted: names.filter(n => patch[n] === null),
+      failed: [],
+      skipped
+    };
+  }
+
+  return { ...(await setXattrs(destination, patch)), skipped };
+}
+
+/**
+ * Copy attributes from a source file to one or more destinations
+ * @param move - Once every destination succeeded, remove from the source
+ *   the attributes written to all of them (skipped ones stay put)
+ */
+export async function copyXattrs(
+  sourcePath: string,
+  destinations: string[],
+  options: CopyOptions & { move?: boolean } = {}
+): Promise<CopyXattrsResult> {
+  if (destinations.length === 0) {
+    throw new InvalidInputError('At least one destination is required');
+  }
+
+  const validatedSource = validatePath(sourcePath);
+  const source = await readSource(validatedSource, options.names);
+  const results: CopyDestinationResult[] = [];
+
+  for (const destination of destinations) {
+    try {
+      results.push(await applyToDestination(source, destination, options));
+    } catch (err) {
+      // SECURITY: Sanitize error message to prevent path leakage
+      const { code, message } = describeError(classifyXattrError(err) ?? err, true);
+      results.push({ path: destination, set: [], deleted: [], failed: [{ name: '*', error: message, code }], skipped: [] });
+    }
+  }
+
+  const result: CopyXattrsResult = {
+    source: validatedSource,
+    mode: options.mode ?? 'merge',
+    dry_run: options.dryRun ?? false,
+    destinations: results
+  };
+
+  if (options.move && results.every(r => r.failed.length === 0)) {
+    const names = Object.keys(source).filter(name => results.every(r => r.set.includes(name)));
+    if (!options.dryRun && names.length > 0) {
+      const removal = await setXattrs(validatedSource, Object.fromEntries(names.map(n => [n, null])));
+      result.moved = removal.deleted;
+    } else {
+      result.moved = names;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Mirror attributes from one directory tree onto another by relative path
+ * Only files present in both trees are touched.
+ */
+export async function syncXattrs(
+  sourceRoot: string,
+  destinationRoot: string,
+  options: SyncOptions = {}
+): Promise<SyncXattrsResult> {
+  const validatedSource = validatePath(sourceRoot);
+  const validatedDestination = validatePath(destinationRoot);
+
+  const targets = await selectBulkTargets(validatedSource, {
+    include: options.include,
+    exclude: options.exclude,
+    maxDepth: options.maxDepth
+  });
+
+  const files: CopyDestinationResult[] = [];
+  const missing: string[] = [];
+
+  for (const sourceFile of targets) {
+    const rel = relative(validatedSource, sourceFile);
+    const destination = join(validatedDestination, rel);
+
+    try {
+      const stats = await lstat(destination);
+      // SECURITY: Never write through a symlink in the destination tree
+      if (stats.isSymbolicLink()) {
+        missing.push(rel);
+        continue;
+      }
+    } catch {
+      missing.push(rel);
+      continue;
+    }
+
+    try {
+      const source = await readSource(sourceFile, options.names);
+      files.push(await applyToDestination(source, destination, options));
+    } catch (err) {
+      const { code, message } = describeError(classifyXattrError(err) ?? err, true);
+      files.push({ path: destination, set: [], deleted: [], failed: [{ name: '*', error: message, code }], skipped: [] });
+    }
+  }
+
+  return {
+    source_root: validatedSource,
+    destination_root: validatedDestination,
+    mode: options.mode ?? 'merge',
+    dry_run: options.dryRun ?? false,
+    files,
+    missing
+  };
+}
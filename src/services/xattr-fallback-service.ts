@@ -0,0 +1,140 @@
+/**
+ * Xattr Fallback Migration
+ *
+ * Moves values out of the fallback store into real extended attributes,
+ * e.g. after files were copied from a FAT volume to APFS or ext4. Values
+ * stay in the store until the real write succeeds, so a migration run on a
+ * volume that still rejects xattrs loses nothing. Each write is checked
+ * against the xattr policy and recorded in the value history.
+ */
+
+import { getDatabase } from '../database/schema.js';
+import {
+  getFallbackXattrRowsUnder,
+  deleteFallbackXattr,
+  type FallbackXattrRow
+} from '../database/xattr-fallback.js';
+import { recordXattrChange } from '../database/xattr-history.js';
+import {
+  getXattrBackend,
+  unwrapFallback,
+  fallbackFileKey,
+  isSameStoredFile,
+  classifyXattrError
+} from './xattr-backends/index.js';
+import { readCurrent, type SetXattrFailure } from './xattr-service.js';
+import { enforcePolicy } from './xattr-policy.js';
+import { assertPathPermission, validatePath } from '../utils/path-validator.js';
+import { describeError } from '../utils/errors.js';
+
+export interface FallbackMigrationFile {
+  path: string;
+  migrated: string[];
+  failed: SetXattrFailure[];
+}
+
+export interface FallbackMigrationResult {
+  root: string;
+  dry_run: boolean;
+  files: FallbackMigrationFile[];
+  migrated: number;
+  remaining: number;
+}
+
+/**
+ * Whether the row's file is still at its recorded path
+ * A row whose inode now belongs to a different file is stale and removed.
+ */
+async function matchesStoredFile(row: FallbackXattrRow): Promise<boolean> {
+  let key;
+  try {
+    key = await fallbackFileKey(row.path);
+  } catch {
+    return false;
+  }
+  if (key.dev !== row.dev || key.ino !== row.ino) {
+    return false;
+  }
+  if (!isSameStoredFile(row, key, row.path)) {
+    deleteFallbackXattr(row.dev, row.ino, row.name);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Migrate fallback values for a file, or every file beneath a directory
+ */
+export async function migrateFallbackXattrs(
+  filePath: string,
+  options: { dryRun?: boolean } = {}
+): Promise<FallbackMigrationResult> {
+  const dryRun = options.dryRun ?? false;
+  // SECURITY: Migration writes, so the root must accept writes
+  const root = dryRun ? validatePath(filePath) : assertPathPermission(filePath, 'write');
+
+  const db = getDatabase();
+  const backend = unwrapFallback(getXattrBackend());
+
+  const byPath = new Map<string, FallbackXattrRow[]>();
+  for (const row of getFallbackXattrRowsUnder(root)) {
+    byPath.set(row.path, [...(byPath.get(row.path) ?? []), row]);
+  }
+
+  const files: FallbackMigrationFile[] = [];
+  let migrated = 0;
+  let remaining = 0;
+
+  for (const [path, rows] of byPath) {
+    const file: FallbackMigrationFile = { path, migrated: [], failed: [] };
+    files.push(file);
+
+    // SECURITY: Stored paths may predate a sandbox change
+    let allowed = true;
+    try {
+      assertPathPermission(path, dryRun ? 'read' : 'write');
+    } catch (err) {
+      allowed = false;
+      const { code, message } = describeError(err, true);
+      for (const row of rows) {
+        file.failed.push({ name: row.name, error: message, code });
+      }
+    }
+    if (!allowed) {
+      remaining += rows.length;
+      continue;
+    }
+
+    for (const row of rows) {
+      if (!(await matchesStoredFile(row))) {
+        file.failed.push({ name: row.name, error: 'File was moved or replaced since the value was stored', code: 'FILE_NOT_FOUND' });
+        remaining++;
+        continue;
+      }
+      if (dryRun) {
+        file.migrated.push(row.name);
+        migrated++;
+        continue;
+      }
+
+      try {
+        const current = await readCurrent(backend, path, row.name);
+        enforcePolicy(path, row.name, current ? 'overwrite' : 'create');
+        await backend.write(path, row.name, row.value);
+        deleteFallbackXattr(row.dev, row.ino, row.name);
+        file.migrated.push(row.name);
+        migrated++;
+        db.logXattrOperation('migrate', path, row.name, true);
+        recordXattrChange(path, row.name, 'migrate', current, row.value);
+      } catch (err) {
+        // SECURITY: Sanitize error message to prevent path leakage
+        const { code, message } = describeError(classifyXattrError(err, row.name) ?? err, true);
+        file.failed.push({ name: row.name, error: message, code });
+        remaining++;
+        db.logXattrOperation('migrate', path, row.name, false);
+      }
+    }
+  }
+
+  return { root, dry_run: dryRun, files, migrated, remaining };
+}
@@ -0,0 +1,154 @@
+/**
+ * Xattr History Service
+ *
+ * Exposes recorded value history and restores attributes to an
+ * earlier state. All paths are validated against the sandbox.
+ */
+
+import { getDatabase } from '../database/schema.js';
+import {
+  getXattrHistoryRows,
+  getXattrHistoryEntry,
+  getEarliestChangesSince,
+  recordXattrChange,
+  type XattrHistoryRow
+} from '../database/xattr-history.js';
+import { getXattrBackend, classifyXattrError } from './xattr-backends/index.js';
+import { readCurrent, type SetXattrFailure } from './xattr-service.js';
+import { enforcePolicy } from './xattr-policy.js';
+import { decodeXattrValue } from '../utils/xattr-encoding.js';
+import { validatePath, assertPathPermission } from '../utils/path-validator.js';
+import type { XattrValue } from '../types.js';
+import { describeError, InvalidInputError, NotFoundError } from '../utils/errors.js';
+
+export interface XattrHistoryEntry {
+  id: number;
+  attribute: string;
+  operation: string;
+  old_value: XattrValue | null;
+  new_value: XattrValue | null;
+  timestamp: string;
+}
+
+export interface XattrHistoryResult {
+  path: string;
+  entries: XattrHistoryEntry[];
+  count: number;
+}
+
+export interface RollbackTarget {
+  /** Undo this operation and everything after it */
+  operationId?: number;
+  /** Restore the state as of this time (ISO string or epoch ms) */
+  timestamp?: string | number;
+}
+
+export interface RollbackChange {
+  attribute: string;
+  action: 'restored' | 'deleted';
+  from_operation: number;
+}
+
+export interface RollbackResult {
+  path: string;
+  dry_run: boolean;
+  changes: RollbackChange[];
+  failed: SetXattrFailure[];
+}
+
+function toEntry(row: XattrHistoryRow): XattrHistoryEntry {
+  return {
+    id: row.id,
+    attribute: row.attribute,
+    operation: row.operation,
+    old_value: row.old_value ? decodeXattrValue(row.old_value) : null,
+    new_value: row.new_value ? decodeXattrValue(row.new_value) : null,
+    timestamp: new Date(row.created_at).toISOString()
+  };
+}
+
+/**
+ * Get value history for a path, newest first
+ */
+export function getXattrHistory(filePath: string, attribute?: string, limit: number = 100): XattrHistoryResult {
+  const validatedPath = validatePath(filePath);
+  const entries = getXattrHistoryRows(validatedPath, attribute, limit).map(toEntry);
+  return { path: validatedPath, entries, count: entries.length };
+}
+
+/**
+ * Restore one or all attributes on a path to an earlier state
+ * Attributes that already hold their earlier value are left out.
+ */
+export async function rollbackXattrs(
+  filePath: string,
+  target: RollbackTarget,
+  attribute?: string,
+  dryRun: boolean = false
+): Promise<RollbackResult> {
+  // SECURITY: A real rollback writes, so the root must accept writes
+  const validatedPath = dryRun ? validatePath(filePath) : assertPathPermission(filePath, 'write');
+
+  let since: { id: number } | { timestamp: number };
+  if (target.operationId !== undefined) {
+    const entry = getXattrHistoryEntry(target.operationId);
+    if (!entry || entry.path !== validatedPath) {
+      throw new NotFoundError(`Operation ${target.operationId} not found for this path`);
+    }
+    since = { id: target.operationId };
+  } else if (target.timestamp !== undefined) {
+    const timestamp = typeof target.timestamp === 'number' ? target.timestamp : Date.parse(target.timestamp);
+    if (Number.isNaN(timestamp)) {
+      throw new InvalidInputError('Invalid rollback timestamp');
+    }
+    since = { timestamp };
+  } else {
+    throw new InvalidInputError('Rollback requires an operation ID or timestamp');
+  }
+
+  const db = getDatabase();
+  const backend = getXattrBackend();
+  const changes: RollbackChange[] = [];
+  const failed: SetXattrFailure[] = [];
+
+  for (const row of getEarliestChangesSince(validatedPath, since, attribute)) {
+    const change: RollbackChange = {
+      attribute: row.attribute,
+      action: row.old_value ? 'restored' : 'deleted',
+      from_operation: row.id
+    };
+
+    try {
+      const current = await readCurrent(backend, validatedPath, row.attribute);
+      const unchanged = row.old_value ? current?.equals(row.old_value) : !current;
+      if (unchanged) {
+        continue;
+      }
+      if (dryRun) {
+        changes.push(change);
+        continue;
+      }
+
+      if (row.old_value) {
+        enforcePolicy(validatedPath, row.attribute, current ? 'overwrite' : 'create');
+        await backend.write(validatedPath, row.attribute, row.old_value);
+      } else {
+        assertPathPermission(validatedPath, 'delete');
+        enforcePolicy(validatedPath, row.attribute, 'delete');
+        await backend.remove(validatedPath, row.attribute);
+      }
+      db.logXattrOperation('rollback', validatedPath, row.attribute, true);
+      recordXattrChange(validatedPath, row.attribute, 'rollback', current, row.old_value);
+      changes.push(change);
+    } catch (err) {
+      // SECURITY: Sanitize error message to prevent path leakage
+      const { code, message } = describeError(classifyXattrError(err, row.attribute) ?? err, true);
+      failed.push({ name: row.attribute, error: message, code });
+      if (!dryRun) {
+        db.logXattrOperation('rollback', validatedPath, row.attribute, false);
+      }
+    }
+  }
+
+  return { path: validatedPath, dry_run: dryRun, changes, failed };
+}
@@ -0,0 +1,189 @@
+/**
+ * Xattr Policy Engine
+ *
+ * Declarative allow/deny rules evaluated before every attribute
+ * mutation. Rules match on attribute-name globs, path globs and the
+ * operation; the first matching rule decides and unmatched mutations are
+ * allowed. Loaded from config/xattr-policy.json (override with
+ * XATTR_POLICY_PATH). Every decision is recorded for auditing.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { matchGlob } from '../utils/glob.js';
+import { PolicyDeniedError } from '../utils/errors.js';
+import { recordPolicyDecision, getPolicyDecisionRows } from '../database/policy-decisions.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_CONFIG_PATH = join(__dirname, '..', '..', 'config', 'xattr-policy.json');
+
+/**
+ * Mutation kinds
+ * - create: set an attribute that doesn't exist yet
+ * - overwrite: set an attribute that already exists
+ * - delete: remove an attribute
+ */
+export type PolicyOperation = 'create' | 'overwrite' | 'delete';
+
+/** Rule operations: `set` is shorthand for create + overwrite, `*` for all */
+export type PolicyRuleOperation = PolicyOperation | 'set' | '*';
+
+export interface PolicyRule {
+  id: string;
+  effect: 'allow' | 'deny';
+  /** Attribute-name globs (default: all attributes) */
+  attributes?: string[];
+  /** Absolute path globs (default: all paths) */
+  paths?: string[];
+  operations: PolicyRuleOperation[];
+  /** Shown to callers on denial */
+  reason?: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  /** ID of the deciding rule, absent when no rule matched */
+  rule?: string;
+  reason: string;
+}
+
+export interface PolicyDecisionEntry {
+  id: number;
+  path: string;
+  attribute: string;
+  operation: string;
+  allowed: boolean;
+  rule: string | null;
+  reason: string;
+  timestamp: string;
+}
+
+const RULE_OPERATIONS: readonly PolicyRuleOperation[] = ['create', 'overwrite', 'delete', 'set', '*'];
+
+let rules: PolicyRule[] = [];
+
+/**
+ * Check rules are well formed
+ * @throws Error describing the first malformed rule
+ */
+export function compilePolicy(configs: PolicyRule[]): PolicyRule[] {
+  const ids = new Set<string>();
+  return configs.map((rule, index) => {
+    const label = rule.id ?? `#${index}`;
+    if (!rule.id || ids.has(rule.id)) {
+      throw new Error(`Policy rule ${label}: a unique "id" is required`);
+    }
+    if (rule.effect !== 'allow' && rule.effect !== 'deny') {
+      throw new Error(`Policy rule ${label}: effect must be "allow" or "deny"`);
+    }
+    if (!Array.isArray(rule.operations) || rule.operations.length === 0 ||
+        rule.operations.some(op => !RULE_OPERATIONS.includes(op))) {
+      throw new Error(`Policy rule ${label}: operations must be a non-empty list of ${RULE_OPERATIONS.join(', ')}`);
+    }
+    ids.add(rule.id);
+    return { ...rule };
+  });
+}
+
+/**
+ * Load the policy from disk
+ * A missing file leaves no rules; a malformed one is reported and keeps
+ * the current rules so a bad edit can't silently lift protections.
+ */
+export function loadXattrPolicy(configPath: string = process.env.XATTR_POLICY_PATH || DEFAULT_CONFIG_PATH): number {
+  let content: string;
+  try {
+    content = readFileSync(configPath, 'utf-8');
+  } catch {
+    rules = [];
+    return 0;
+  }
+
+  try {
+    const parsed = JSON.parse(content) as { rules?: PolicyRule[] };
+    rules = compilePolicy(parsed.rules ?? []);
+  } catch (error) {
+    console.error(`[filesystem-guardian] Invalid xattr policy, keeping current rules: ${(error as Error).message}`);
+  }
+
+  return rules.length;
+}
+
+/**
+ * Replace policy rules (used by tests)
+ */
+export function setXattrPolicy(configs: PolicyRule[]): void {
+  rules = compilePolicy(configs);
+}
+
+export function listPolicyRules(): PolicyRule[] {
+  return rules.map(rule => ({ ...rule }));
+}
+
+function ruleMatches(rule: PolicyRule, path: string, attribute: string, operation: PolicyOperation): boolean {
+  const operationMatches = rule.operations.some(op =>
+    op === '*' || op === operation || (op === 'set' && operation !== 'delete')
+  );
+
+  return operationMatches &&
+    (rule.attributes ?? ['*']).some(glob => matchGlob(glob, attribute)) &&
+    (rule.paths ?? ['**']).some(glob => matchGlob(glob, path));
+}
+
+/**
+ * Evaluate the policy without recording the decision
+ */
+export function evaluatePolicy(path: string, attribute: string, operation: PolicyOperation): PolicyDecision {
+  const rule = rules.find(r => ruleMatches(r, path, attribute, operation));
+  if (!rule) {
+    return { allowed: true, reason: 'No matching policy rule' };
+  }
+
+  const allowed = rule.effect === 'allow';
+  return {
+    allowed,
+    rule: rule.id,
+    reason: rule.reason ?? `${allowed ? 'Allowed' : 'Denied'} by policy rule ${rule.id}`
+  };
+}
+
+/**
+ * Evaluate and record a decision, throwing on denial
+ * @throws PolicyDeniedError with the rule's reason if the mutation is denied
+ */
+export function enforcePolicy(path: string, attribute: string, operation: PolicyOperation): PolicyDecision {
+  const decision = evaluatePolicy(path, attribute, operation);
+  recordPolicyDecision(path, attribute, operation, decision.allowed, decision.rule ?? null, decision.reason);
+
+  if (!decision.allowed) {
+    throw new PolicyDeniedError(decision.rule!, decision.reason);
+  }
+  return decision;
+}
+
+/**
+ * Record a mutation made without evaluating the rules
+ * Used for compensating writes that undo an operation's own changes, so
+ * the audit log still shows every mutation.
+ */
+export function recordPolicyBypass(path: string, attribute: string, operation: PolicyOperation, reason: string): void {
+  recordPolicyDecision(path, attribute, operation, true, null, reason);
+}
+
+/**
+ * Recent policy decisions, newest first
+ */
+export function getPolicyDecisions(limit: number = 100, deniedOnly: boolean = false): PolicyDecisionEntry[] {
+  return getPolicyDecisionRows(limit, deniedOnly).map(row => ({
+    id: row.id,
+    path: row.path,
+    attribute: row.attribute,
+    operation: row.operation,
+    allowed: row.allowed === 1,
+    rule: row.rule,
+    reason: row.reason,
+    timestamp: new Date(row.created_at).toISOString()
+  }));
+}
@@ -1,78 +1,133 @@
 /**
  * Extended Attributes Service
  *
- * Provides xattr operations using macOS native commands.
+ * Provides xattr operations through the platform xattr backend
+ * (macOS `xattr` CLI or Linux getfattr/setfattr).
  * All paths are validated against the sandbox before execution.
  */
 
-import { execFile } from 'child_process';
-import { promisify } from 'util';
-import type { XattrResult, XattrValue, SetXattrResult, ListXattrResult, XattrEncoding } from '../types.js';
+import type { XattrResult, XattrValue, SetXattrResult, ListXattrResult } from '../types.js';
 import { getDatabase } from '../database/schema.js';
-import { validatePath, sanitizeErrorMessage } from '../utils/path-validator.js';
+import { validatePath, sanitizeErrorMessage, assertPathPermission } from '../utils/path-validator.js';
+import { encodeXattrValue, decodeXattrValue, xattrValueToJson, type XattrInput } from '../utils/xattr-encoding.js';
+import { getXattrBackend, classifyXattrError, type XattrBackend, type XattrStorage } from './xattr-backends/index.js';
+import { recordXattrChange } from '../database/xattr-history.js';
+import { validateAttribute, formatSchemaIssues, type SchemaValidationResult } from './schema-registry.js';
+import { enforcePolicy } from './xattr-policy.js';
+import { describeError, BackendFailedError, type ErrorCode } from '../utils/errors.js';
 
-const exec = promisify(execFile);
+/**
+ * Attribute value tagged with where it is stored
+ */
+export interface StoredXattrValue extends XattrValue {
+  storage: XattrStorage;
+}
+
+/**
+ * An attribute setXattrs couldn't write, with the error's code
+ */
+export interface SetXattrFailure {
+  name: string;
+  error: string;
+  code: ErrorCode;
+}
+
+export interface CodedSetXattrResult extends SetXattrResult {
+  failed: SetXattrFailure[];
+}
+
+/**
+ * getXattrs result, with any stored values that fail their registered schema
+ */
+export interface ValidatedXattrResult extends XattrResult {
+  attributes: Record<string, StoredXattrValue>;
+  violations?: SchemaValidationResult[];
+}
+
+/**
+ * listXattrs result, naming attributes held in the fallback store
+ */
+export interface StoredListXattrResult extends ListXattrResult {
+  fallback?: string[];
+}
+
+export interface ValidateXattrsResult {
+  path: string;
+  valid: boolean;
+  results: SchemaValidationResult[];
+}
 
 /**
  * List all extended attributes on a file
  */
-export async function listXattrs(filePath: string): Promise<ListXattrResult> {
+export async function listXattrs(filePath: string): Promise<StoredListXattrResult> {
   // SECURITY: Validate path is within sandbox
   const validatedPath = validatePath(filePath);
 
   const db = getDatabase();
+  const backend = getXattrBackend();
 
   try {
-    const { stdout } = await exec('xattr', [validatedPath]);
-    const attributes = stdout.trim().split('\n').filter(Boolean);
+    const attributes = await backend.list(validatedPath);
+    const fallback = await backend.fallbackNames?.(validatedPath) ?? [];
 
     db.logXattrOperation('list', validatedPath, undefined, true);
 
     return {
       path: validatedPath,
       attributes,
-      count: attributes.length
+      count: attributes.length,
+      ...(fallback.length > 0 && { fallback })
     };
   } catch (error) {
     db.logXattrOperation('list', validatedPath, undefined, false);
     const message = (error as Error).message;
 
-    // No attributes is not an error
-    if (message.includes('No such xattr')) {
-      return { path: validatedPath, attributes: [], count: 0 };
+    const classified = classifyXattrError(error);
+    if (classified) {
+      throw classified;
     }
-
     // SECURITY: Sanitize error message to prevent path leakage
-    throw new Error(`Failed to list xattrs: ${sanitizeErrorMessage(message)}`);
+    throw new BackendFailedError(`Failed to list xattrs: ${sanitizeErrorMessage(message)}`);
   }
 }
 
 /**
  * Get extended attributes from a file
+ * Binary plist values (Finder tags, WhereFroms) are decoded to JSON
+ * unless decodePlist is false.
+ * @param attribute - Only this attribute, or these attributes (default: all)
  */
-export async function getXattrs(filePath: string, attribute?: string, decodePlist: boolean = true): Promise<XattrResult> {
+export async function getXattrs(filePath: string, attribute?: string | string[], decodePlist: boolean = true): Promise<ValidatedXattrResult> {
   // SECURITY: Validate path is within sandbox
   const validatedPath = validatePath(filePath);
 
   const db = getDatabase();
-  const attributes: Record<string, XattrValue> = {};
+  const backend = getXattrBackend();
+  const attributes: Record<string, StoredXattrValue> = {};
+  const violations: SchemaValidationResult[] = [];
+  const wanted = typeof attribute === 'string' ? (attribute ? [attribute] : undefined) : attribute;
 
   try {
     // Get list of attributes first (already validates path)
-    const { attributes: attrList } = await listXattrs(validatedPath);
+    const { attributes: attrList, fallback = [] } = await listXattrs(validatedPath);
 
     for (const attrName of attrList) {
-      if (attribute && attrName !== attribute) continue;
+      if (wanted && !wanted.includes(attrName)) continue;
 
       try {
-        // Get attribute value using xattr -p
-        const { stdout } = await exec('xattr', ['-p', attrName, validatedPath]);
-        const rawValue = stdout.trim();
+        const rawValue = await backend.read(validatedPath, attrName);
 
-        // Determine encoding and decode
-        const decoded = decodeXattrValue(rawValue, decodePlist);
+        attributes[attrName] = {
+          ...decodeXattrValue(rawValue, decodePlist),
+          storage: fallback.includes(attrName) ? 'fallback' : 'xattr'
+        };
 
-        attributes[attrName] = decoded;
+        // Report values already on disk that fail their registered schema
+        const validation = validateAttribute(attrName, xattrValueToJson(decodeXattrValue(rawValue, true)));
+        if (!validation.valid) {
+          violations.push(validation);
+        }
         db.logXattrOperation('get', validatedPath, attrName, true);
       } catch (err) {
         // SECURITY: Skip attributes we can't read, sanitize error message
@@ -83,29 +138,33 @@ export async function getXattrs(filePath: string, attribute?: string, decodePlis
     return {
       path: validatedPath,
       attributes,
-      count: Object.keys(attributes).length
+      count: Object.keys(attributes).length,
+      ...(violations.length > 0 && { violations })
     };
   } catch (error) {
-    db.logXattrOperation('get', validatedPath, attribute, false);
+    db.logXattrOperation('get', validatedPath, wanted?.join(','), false);
     throw error;
   }
 }
 
 /**
  * Set extended attributes on a file
+ * Values may be plain strings (UTF-8), objects (JSON) or
+ * explicit `{ value, encoding }` pairs; null deletes the attribute.
  */
 export async function setXattrs(
   filePath: string,
-  attrs: Record<string, string | Record<string, unknown> | null>,
+  attrs: Record<string, XattrInput | null>,
   createOnly: boolean = false
-): Promise<SetXattrResult> {
-  // SECURITY: Validate path is within sandbox
-  const validatedPath = validatePath(filePath);
+): Promise<CodedSetXattrResult> {
+  // SECURITY: Validate path is within sandbox and its root accepts writes
+  const validatedPath = assertPathPermission(filePath, 'write');
 
   const db = getDatabase();
+  const backend = getXattrBackend();
   const set: string[] = [];
   const deleted: string[] = [];
-  const failed: Array<{ name: string; error: string }> = [];
+  const failed: SetXattrFailure[] = [];
 
   // Check existing attributes if createOnly
   let existingAttrs: string[] = [];
@@ -117,26 +176,44 @@ export async function setXattrs(
   for (const [name, value] of Object.entries(attrs)) {
     try {
       if (value === null) {
-        // Delete attribute
-        await exec('xattr', ['-d', name, validatedPath]);
+        // Delete attribute (refused in no-delete roots)
+        assertPathPermission(validatedPath, 'delete');
+        enforcePolicy(validatedPath, name, 'delete');
+        const previous = await readCurrent(backend, validatedPath, name);
+        await backend.remove(validatedPath, name);
         deleted.push(name);
         db.logXattrOperation('delete', validatedPath, name, true);
+        recordXattrChange(validatedPath, name, 'delete', previous, null);
       } else {
         // Check if exists when createOnly
         if (createOnly && existingAttrs.includes(name)) {
-          failed.push({ name, error: 'Attribute already exists' });
+          failed.push({ name, error: 'Attribute already exists', code: 'ALREADY_EXISTS' });
+          continue;
+        }
+
+        const encoded = encodeXattrValue(value);
+
+        // Reject values that don't conform to a registered schema
+        const validation = validateAttribute(name, xattrValueToJson(decodeXattrValue(encoded, true)));
+        if (!validation.valid) {
+          failed.push({ name, error: `Schema validation failed: ${formatSchemaIssues(validation.issues)}`, code: 'INVALID_INPUT' });
+          db.logXattrOperation('set', validatedPath, name, false);
           continue;
         }
 
-        // Set attribute
-        const valueStr = typeof value === 'object' ? JSON.stringify(value) : String(value);
-        await exec('xattr', ['-w', name, valueStr, validatedPath]);
+        // Set attribute; a value that can't be read fails the attribute
+        // rather than being checked against the policy as a create
+        const previous = await readCurrent(backend, validatedPath, name);
+        enforcePolicy(validatedPath, name, previous ? 'overwrite' : 'create');
+        await backend.write(validatedPath, name, encoded);
         set.push(name);
         db.logXattrOperation('set', validatedPath, name, true);
+        recordXattrChange(validatedPath, name, 'set', previous, encoded);
       }
     } catch (err) {
       // SECURITY: Sanitize error message to prevent path leakage
-      failed.push({ name, error: sanitizeErrorMessage((err as Error).message) });
+      const { code, message } = describeError(classifyXattrError(err, name) ?? err, true);
+      failed.push({ name, error: message, code });
       db.logXattrOperation('set', validatedPath, name, false);
     }
   }
@@ -145,63 +222,56 @@ export async function setXattrs(
 }
 
 /**
- * Decode an xattr value
+ * Read an attribute's current bytes, or null if absent
+ * @throws if the attribute can't be listed or read, so callers never
+ * mistake a failed read for an absent attribute
  */
-function decodeXattrValue(rawValue: string, decodePlist: boolean): XattrValue {
-  // Check if it looks like hex-encoded data
-  if (/^[0-9A-Fa-f\s]+$/.test(rawValue)) {
-    const bytes = rawValue.replace(/\s/g, '');
+export async function readCurrent(backend: XattrBackend, path: string, name: string): Promise<Buffer | null> {
+  const names = await backend.list(path);
+  return names.includes(name) ? backend.read(path, name) : null;
+}
 
-    // Try to decode as UTF-8 string
-    try {
-      const buffer = Buffer.from(bytes, 'hex');
-      const decoded = buffer.toString('utf8');
-
-      // Check if it's valid UTF-8
-      if (decoded && !decoded.includes('\ufffd')) {
-        // Try to parse as JSON
-        try {
-          const parsed = JSON.parse(decoded);
-          return {
-            value: parsed,
-            size: buffer.length,
-            encoding: 'utf8'
-          };
-        } catch {
-          return {
-            value: decoded,
-            size: buffer.length,
-            encoding: 'utf8'
-          };
-        }
+/**
+ * Validate attributes against the schema registry without writing
+ * Checks the given candidate values, or the values currently on disk.
+ * Only attributes with a registered schema appear in the results.
+ */
+export async function validateXattrs(
+  filePath: string,
+  attrs?: Record<string, XattrInput>
+): Promise<ValidateXattrsResult> {
+  const validatedPath = validatePath(filePath);
+  const results: SchemaValidationResult[] = [];
+
+  const candidates: Array<[string, Buffer]> = [];
+  if (attrs) {
+    for (const [name, value] of Object.entries(attrs)) {
+      try {
+        candidates.push([name, encodeXattrValue(value)]);
+      } catch (err) {
+        results.push({ attribute: name, valid: false, issues: [{ path: '(root)', message: (err as Error).message }] });
       }
-    } catch {
-      // Not valid UTF-8
     }
-
-    // Return as hex
-    return {
-      value: bytes,
-      size: bytes.length / 2,
-      encoding: 'hex'
-    };
+  } else {
+    const backend = getXattrBackend();
+    const { attributes: names } = await listXattrs(validatedPath);
+    for (const name of names) {
+      candidates.push([name, await backend.read(validatedPath, name)]);
+    }
   }
 
-  // Plain string value
-  try {
-    const parsed = JSON.parse(rawValue);
-    return {
-      value: parsed,
-      size: Buffer.byteLength(rawValue, 'utf8'),
-      encoding: 'utf8'
-    };
-  } catch {
-    return {
-      value: rawValue,
-      size: Buffer.byteLength(rawValue, 'utf8'),
-      encoding: 'utf8'
-    };
+  for (const [name, raw] of candidates) {
+    const validation = validateAttribute(name, xattrValueToJson(decodeXattrValue(raw, true)));
+    if (validation.matched) {
+      results.push(validation);
+    }
   }
+
+  return {
+    path: validatedPath,
+    valid: results.every(r => r.valid),
+    results
+  };
 }
 
 /**
@@ -0,0 +1,38 @@
+/**
+ * add_tags Tool
+ * Add Finder tags to a file, keeping existing ones
+ */
+
+import { z } from 'zod';
+import { addTags } from '../services/tag-service.js';
+import { TagInputSchema, TAG_JSON_SCHEMA } from './tag-schema.js';
+
+export const AddTagsInputSchema = z.object({
+  path: z.string().min(1),
+  tags: z.array(TagInputSchema).min(1)
+});
+
+export const ADD_TAGS_TOOL = {
+  name: 'add_tags',
+  description: 'Add Finder tags to a file. Existing tags are kept; re-adding a tag updates its color.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the file'
+      },
+      tags: {
+        type: 'array',
+        items: TAG_JSON_SCHEMA,
+        description: 'Tags to add'
+      }
+    },
+    required: ['path', 'tags']
+  }
+};
+
+export async function handleAddTags(args: unknown) {
+  const { path, tags } = AddTagsInputSchema.parse(args);
+  return addTags(path, tags);
+}
@@ -0,0 +1,70 @@
+/**
+ * batch Tool
+ * Run several tool calls in one request
+ */
+
+import { z } from 'zod';
+import {
+  runBatch,
+  BATCH_TOOL_NAME,
+  BATCH_MAX_CALLS,
+  BATCH_MAX_CONCURRENCY,
+  type BatchOptions,
+  type ToolHandler
+} from '../services/batch-service.js';
+
+export const BatchInputSchema = z.object({
+  calls: z.array(z.object({
+    tool: z.string().min(1),
+    arguments: z.record(z.unknown()).optional()
+  })).min(1).max(BATCH_MAX_CALLS),
+  concurrency: z.number().int().min(1).max(BATCH_MAX_CONCURRENCY).optional(),
+  stop_on_error: z.boolean().optional()
+});
+
+export const BATCH_TOOL = {
+  name: BATCH_TOOL_NAME,
+  description: `Run up to ${BATCH_MAX_CALLS} tool calls in one request, e.g. list_xattr, get_xattr and set_xattr across many files. Returns one entry per call, in order, with status "ok" and the result, "error" and the error code, or "skipped" (after a failure with stop_on_error).`,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      calls: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            tool: {
+              type: 'string',
+              description: 'Tool name, e.g. "get_xattr" (batches cannot be nested)'
+            },
+            arguments: {
+              type: 'object',
+              description: "The tool's arguments",
+              additionalProperties: true
+            }
+          },
+          required: ['tool']
+        },
+        description: 'Tool calls, started in order'
+      },
+      concurrency: {
+        type: 'number',
+        description: `Calls to run at once (default: 4, max: ${BATCH_MAX_CONCURRENCY})`
+      },
+      stop_on_error: {
+        type: 'boolean',
+        description: 'Skip the calls not yet started once one fails (default: false)'
+      }
+    },
+    required: ['calls']
+  }
+};
+
+export async function handleBatch(
+  args: unknown,
+  handlers: Record<string, ToolHandler>,
+  validate?: BatchOptions['validate']
+) {
+  const { calls, concurrency, stop_on_error } = BatchInputSchema.parse(args);
+  return runBatch(calls, handlers, { concurrency, stopOnError: stop_on_error, exposeInternal: true, validate });
+}
@@ -0,0 +1,77 @@
+/**
+ * bulk_set_xattr Tool
+ * Apply an attribute patch to every matching file under a directory
+ */
+
+import { z } from 'zod';
+import { bulkSetXattrs } from '../services/bulk-xattr-service.js';
+
+export const BulkSetXattrInputSchema = z.object({
+  root: z.string().min(1),
+  attributes: z.record(z.union([z.string(), z.record(z.unknown()), z.null()])),
+  include: z.array(z.string().min(1)).optional(),
+  exclude: z.array(z.string().min(1)).optional(),
+  max_depth: z.number().int().min(0).max(32).optional(),
+  include_directories: z.boolean().optional(),
+  create_only: z.boolean().optional(),
+  dry_run: z.boolean().optional()
+});
+
+export const BULK_SET_XATTR_TOOL = {
+  name: 'bulk_set_xattr',
+  description: 'Set or delete extended attributes on every file under a directory matching include/exclude globs. All-or-nothing: if any file fails, files already changed are rolled back (rolled_back is false, with rollback_failed per file, if some could not be restored).',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      root: {
+        type: 'string',
+        description: 'Absolute path to the directory to walk'
+      },
+      attributes: {
+        type: 'object',
+        description: 'Attribute patch, as in set_xattr. Use null to delete an attribute.',
+        additionalProperties: true
+      },
+      include: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Globs relative to root a file must match, e.g. "**/*.md" (default: all files)'
+      },
+      exclude: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Globs relative to root to skip, e.g. "node_modules/**"'
+      },
+      max_depth: {
+        type: 'number',
+        description: 'Directory levels below root to descend (default: 8)'
+      },
+      include_directories: {
+        type: 'boolean',
+        description: 'Also patch matching directories (default: false)'
+      },
+      create_only: {
+        type: 'boolean',
+        description: 'Leave attributes a file already has alone; such files are reported with skipped attributes and counted in skipped, not failed (default: false)'
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'List the affected files without writing (default: false)'
+      }
+    },
+    required: ['root', 'attributes']
+  }
+};
+
+export async function handleBulkSetXattr(args: unknown) {
+  const { root, attributes, include, exclude, max_depth, include_directories, create_only, dry_run } =
+    BulkSetXattrInputSchema.parse(args);
+  return bulkSetXattrs(root, attributes, {
+    include,
+    exclude,
+    maxDepth: max_depth,
+    includeDirectories: include_directories,
+    createOnly: create_only,
+    dryRun: dry_run
+  });
+}
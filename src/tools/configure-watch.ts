@@ -0,0 +1,51 @@
+/**
+ * configure_watch Tool
+ * Set how a watch delivers events (debounce, coalescing, rename pairing)
+ */
+
+import { z } from 'zod';
+import { setWatchSettings, describeWatchSettings, MAX_DEBOUNCE_MS } from '../services/watch-settings.js';
+
+export const ConfigureWatchInputSchema = z.object({
+  watch_id: z.string().min(1),
+  debounce_ms: z.number().int().min(0).max(MAX_DEBOUNCE_MS).optional(),
+  coalesce: z.boolean().optional(),
+  pair_renames: z.boolean().optional()
+});
+
+export const CONFIGURE_WATCH_TOOL = {
+  name: 'configure_watch',
+  description: 'Configure event delivery for a watch. With a debounce window, bursts (such as atomic saves) are held until the watch is quiet, then delivered as one event per path, with delete + create pairs reported as a single renamed event. Omitted settings are left unchanged; settings persist with the watch.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      watch_id: {
+        type: 'string',
+        description: 'Watch to configure'
+      },
+      debounce_ms: {
+        type: 'number',
+        description: `Quiet period before a burst is delivered, 0-${MAX_DEBOUNCE_MS} ms (0 delivers raw events; default: 0)`
+      },
+      coalesce: {
+        type: 'boolean',
+        description: 'Collapse a burst to one event per path (default: true)'
+      },
+      pair_renames: {
+        type: 'boolean',
+        description: 'Report delete + create of a moved or renamed file as one renamed event with from/path (default: true)'
+      }
+    },
+    required: ['watch_id']
+  }
+};
+
+export async function handleConfigureWatch(args: unknown) {
+  const { watch_id, debounce_ms, coalesce, pair_renames } = ConfigureWatchInputSchema.parse(args);
+  setWatchSettings(watch_id, {
+    ...(debounce_ms !== undefined && { debounceMs: debounce_ms }),
+    ...(coalesce !== undefined && { coalesce }),
+    ...(pair_renames !== undefined && { pairRenames: pair_renames })
+  });
+  return describeWatchSettings(watch_id);
+}
@@ -0,0 +1,64 @@
+/**
+ * copy_xattrs Tool
+ * Copy attributes from one file to one or more others
+ */
+
+import { z } from 'zod';
+import { copyXattrs, COPY_MODES } from '../services/xattr-copy-service.js';
+
+export const CopyXattrsInputSchema = z.object({
+  source: z.string().min(1),
+  destinations: z.array(z.string().min(1)).min(1).max(1000),
+  names: z.array(z.string().min(1)).optional(),
+  mode: z.enum(COPY_MODES).optional(),
+  move: z.boolean().optional(),
+  dry_run: z.boolean().optional()
+});
+
+export const COPY_XATTRS_TOOL = {
+  name: 'copy_xattrs',
+  description: 'Copy all or selected extended attributes from a source file to one or more destinations. Values are copied byte for byte.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      source: {
+        type: 'string',
+        description: 'Absolute path to the file to copy attributes from'
+      },
+      destinations: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Absolute paths to copy attributes to'
+      },
+      names: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Attributes to copy (default: all)'
+      },
+      mode: {
+        type: 'string',
+        enum: [...COPY_MODES],
+        description: 'merge (default): add and replace; overwrite: make destinations match the source; skip-existing: only add missing attributes'
+      },
+      move: {
+        type: 'boolean',
+        description: 'Remove the copied attributes from the source if every destination succeeded (default: false)'
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'Report what would change without writing (default: false)'
+      }
+    },
+    required: ['source', 'destinations']
+  }
+};
+
+export async function handleCopyXattrs(args: unknown) {
+  const { source, destinations, names, mode, move, dry_run } = CopyXattrsInputSchema.parse(args);
+  return copyXattrs(source, destinations, {
+    names,
+    mode,
+    move,
+    dryRun: dry_run
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * export_appledouble Tool
+ * Write a file's extended attributes to an AppleDouble (._) sidecar
+ */
+
+import { z } from 'zod';
+import { exportSidecar } from '../services/appledouble-service.js';
+
+export const ExportAppleDoubleInputSchema = z.object({
+  path: z.string().min(1),
+  names: z.array(z.string().min(1)).optional(),
+  overwrite: z.boolean().optional()
+});
+
+export const EXPORT_APPLEDOUBLE_TOOL = {
+  name: 'export_appledouble',
+  description: 'Write extended attributes to a ._ sidecar next to the file, so they survive copies to filesystems without xattr support',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the data file'
+      },
+      names: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Attributes to export (default: all)'
+      },
+      overwrite: {
+        type: 'boolean',
+        description: 'Replace an existing sidecar (default: false)'
+      }
+    },
+    required: ['path']
+  }
+};
+
+export async function handleExportAppleDouble(args: unknown) {
+  const { path, names, overwrite } = ExportAppleDoubleInputSchema.parse(args);
+  return exportSidecar(path, { names, overwrite });
+}
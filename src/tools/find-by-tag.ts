@@ -0,0 +1,47 @@
+/**
+ * find_by_tag Tool
+ * Find files carrying a Finder tag
+ */
+
+import { z } from 'zod';
+import { findByTag } from '../services/tag-service.js';
+
+export const FindByTagInputSchema = z.object({
+  tag: z.string().min(1),
+  scope: z.array(z.string()).optional(),
+  limit: z.number().int().positive().max(10000).optional(),
+  max_depth: z.number().int().min(0).max(64).optional()
+});
+
+export const FIND_BY_TAG_TOOL = {
+  name: 'find_by_tag',
+  description: 'Find files with a Finder tag. Uses Spotlight on macOS and a directory scan elsewhere.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      tag: {
+        type: 'string',
+        description: 'Tag name (case-insensitive)'
+      },
+      scope: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Directories to search (default: all sandbox roots)'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum results (default: 100)'
+      },
+      max_depth: {
+        type: 'number',
+        description: 'Maximum directory depth when scanning (default: 8)'
+      }
+    },
+    required: ['tag']
+  }
+};
+
+export async function handleFindByTag(args: unknown) {
+  const { tag, scope, limit, max_depth } = FindByTagInputSchema.parse(args);
+  return findByTag(tag, scope, limit ?? 100, max_depth);
+}
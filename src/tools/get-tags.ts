@@ -0,0 +1,31 @@
+/**
+ * get_tags Tool
+ * List Finder tags on a file
+ */
+
+import { z } from 'zod';
+import { getTags } from '../services/tag-service.js';
+
+export const GetTagsInputSchema = z.object({
+  path: z.string().min(1)
+});
+
+export const GET_TAGS_TOOL = {
+  name: 'get_tags',
+  description: 'List Finder tags (name and color) on a file',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the file'
+      }
+    },
+    required: ['path']
+  }
+};
+
+export async function handleGetTags(args: unknown) {
+  const { path } = GetTagsInputSchema.parse(args);
+  return getTags(path);
+}
@@ -0,0 +1,41 @@
+/**
+ * get_xattr_history Tool
+ * Show previous and new values for attribute changes on a file
+ */
+
+import { z } from 'zod';
+import { getXattrHistory } from '../services/xattr-history-service.js';
+
+export const GetXattrHistoryInputSchema = z.object({
+  path: z.string().min(1),
+  attribute: z.string().min(1).optional(),
+  limit: z.number().int().positive().max(1000).optional()
+});
+
+export const GET_XATTR_HISTORY_TOOL = {
+  name: 'get_xattr_history',
+  description: 'List recorded set/delete/rollback operations on a file, newest first, with old and new values',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the file'
+      },
+      attribute: {
+        type: 'string',
+        description: 'Only show history for this attribute'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum entries (default: 100)'
+      }
+    },
+    required: ['path']
+  }
+};
+
+export async function handleGetXattrHistory(args: unknown) {
+  const { path, attribute, limit } = GetXattrHistoryInputSchema.parse(args);
+  return getXattrHistory(path, attribute, limit ?? 100);
+}
@@ -0,0 +1,46 @@
+/**
+ * import_appledouble Tool
+ * Import an AppleDouble (._) sidecar into real extended attributes
+ */
+
+import { z } from 'zod';
+import { importSidecar } from '../services/appledouble-service.js';
+
+export const ImportAppleDoubleInputSchema = z.object({
+  path: z.string().min(1),
+  skip_existing: z.boolean().optional(),
+  delete_sidecar: z.boolean().optional(),
+  dry_run: z.boolean().optional()
+});
+
+export const IMPORT_APPLEDOUBLE_TOOL = {
+  name: 'import_appledouble',
+  description: 'Copy the attributes in a ._ sidecar onto its data file as real extended attributes',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the data file or to its ._ sidecar'
+      },
+      skip_existing: {
+        type: 'boolean',
+        description: 'Keep attributes the file already has (default: false, sidecar values win)'
+      },
+      delete_sidecar: {
+        type: 'boolean',
+        description: 'Delete the sidecar after a complete import (default: false)'
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'Report what would be imported without writing (default: false)'
+      }
+    },
+    required: ['path']
+  }
+};
+
+export async function handleImportAppleDouble(args: unknown) {
+  const { path, skip_existing, delete_sidecar, dry_run } = ImportAppleDoubleInputSchema.parse(args);
+  return importSidecar(path, { skipExisting: skip_existing, deleteSidecar: delete_sidecar, dryRun: dry_run });
+}
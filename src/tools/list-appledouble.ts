@@ -0,0 +1,36 @@
+/**
+ * list_appledouble Tool
+ * List the attributes stored in an AppleDouble (._) sidecar
+ */
+
+import { z } from 'zod';
+import { listSidecar } from '../services/appledouble-service.js';
+
+export const ListAppleDoubleInputSchema = z.object({
+  path: z.string().min(1),
+  decode_plist: z.boolean().optional()
+});
+
+export const LIST_APPLEDOUBLE_TOOL = {
+  name: 'list_appledouble',
+  description: 'List the extended attributes stored in an AppleDouble ._ sidecar file',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the data file or to its ._ sidecar'
+      },
+      decode_plist: {
+        type: 'boolean',
+        description: 'Decode binary plist values to JSON (default: true)'
+      }
+    },
+    required: ['path']
+  }
+};
+
+export async function handleListAppleDouble(args: unknown) {
+  const { path, decode_plist } = ListAppleDoubleInputSchema.parse(args);
+  return listSidecar(path, decode_plist ?? true);
+}
@@ -0,0 +1,20 @@
+/**
+ * list_attribute_schemas Tool
+ * Expose the attribute schema registry
+ */
+
+import { listAttributeSchemas } from '../services/schema-registry.js';
+
+export const LIST_ATTRIBUTE_SCHEMAS_TOOL = {
+  name: 'list_attribute_schemas',
+  description: 'List registered attribute schemas (exact names and prefixes) that set_xattr enforces',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {}
+  }
+};
+
+export async function handleListAttributeSchemas(_args: unknown) {
+  const schemas = listAttributeSchemas();
+  return { schemas, count: schemas.length };
+}
@@ -0,0 +1,61 @@
+/**
+ * manage_api_tokens Tool
+ * Create, list and revoke HTTP API tokens
+ */
+
+import { z } from 'zod';
+import { createApiToken, listApiTokens, revokeApiToken, API_SCOPES } from '../services/auth-service.js';
+
+const ManageApiTokensInputSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    name: z.string().min(1),
+    scopes: z.array(z.enum(API_SCOPES)).min(1)
+  }),
+  z.object({ action: z.literal('list') }),
+  z.object({ action: z.literal('revoke'), id: z.string().min(1) })
+]);
+
+export const MANAGE_API_TOKENS_TOOL = {
+  name: 'manage_api_tokens',
+  description: 'Create, list or revoke HTTP API tokens. A created token is only shown once; store it securely.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['create', 'list', 'revoke'],
+        description: 'Operation to perform'
+      },
+      name: {
+        type: 'string',
+        description: 'Label for a new token (create)'
+      },
+      scopes: {
+        type: 'array',
+        items: { type: 'string', enum: [...API_SCOPES] },
+        description: 'Scopes granted to a new token (create); admin grants all'
+      },
+      id: {
+        type: 'string',
+        description: 'Token ID to revoke (revoke)'
+      }
+    },
+    required: ['action']
+  }
+};
+
+export async function handleManageApiTokens(args: unknown) {
+  const input = ManageApiTokensInputSchema.parse(args);
+
+  switch (input.action) {
+    case 'create':
+      return createApiToken(input.name, input.scopes);
+    case 'list': {
+      const tokens = listApiTokens();
+      return { tokens, count: tokens.length };
+    }
+    case 'revoke':
+      return { id: input.id, revoked: revokeApiToken(input.id) };
+  }
+}
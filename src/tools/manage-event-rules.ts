@@ -0,0 +1,133 @@
+/**
+ * manage_event_rules Tool
+ * Create, list, update and delete event rules, and read their run log
+ */
+
+import { z } from 'zod';
+import {
+  createEventRule,
+  updateEventRule,
+  deleteEventRule,
+  listEventRules,
+  getEventRuleRuns,
+  RULE_EVENT_TYPES,
+  RULE_SIGNALS
+} from '../services/event-rules.js';
+import { TagInputSchema, TAG_JSON_SCHEMA } from './tag-schema.js';
+
+const RuleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('set_xattr'), name: z.string().min(1), value: z.union([z.string(), z.record(z.unknown())]) }),
+  z.object({ type: z.literal('delete_xattr'), name: z.string().min(1) }),
+  z.object({ type: z.literal('add_tags'), tags: z.array(TagInputSchema).min(1) }),
+  z.object({ type: z.literal('remove_tags'), names: z.array(z.string().min(1)).min(1) }),
+  z.object({ type: z.literal('reindex') }),
+  z.object({ type: z.literal('broadcast'), signal: z.enum(RULE_SIGNALS).optional() })
+]);
+
+const RuleFieldsSchema = z.object({
+  name: z.string().min(1),
+  enabled: z.boolean().optional(),
+  events: z.array(z.enum(RULE_EVENT_TYPES)).min(1),
+  paths: z.array(z.string().min(1)).optional(),
+  kinds: z.array(z.string().min(1)).optional(),
+  actions: z.array(RuleActionSchema).min(1).max(20)
+});
+
+const ManageEventRulesInputSchema = z.discriminatedUnion('action', [
+  RuleFieldsSchema.extend({ action: z.literal('create') }),
+  z.object({ action: z.literal('list') }),
+  RuleFieldsSchema.partial().extend({ action: z.literal('update'), id: z.string().min(1) }),
+  z.object({ action: z.literal('delete'), id: z.string().min(1) }),
+  z.object({
+    action: z.literal('runs'),
+    id: z.string().min(1).optional(),
+    limit: z.number().int().min(1).max(1000).optional()
+  })
+]);
+
+export const MANAGE_EVENT_RULES_TOOL = {
+  name: 'manage_event_rules',
+  description: 'Manage rules that act on filesystem events by themselves, e.g. "when a PDF is created under Dropository, set com.imminence.dewey and add the Blue tag, then reindex". Rules match on event type, path globs and file kind; actions run in order and stop at the first failure. Every execution is logged (action "runs").',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['create', 'list', 'update', 'delete', 'runs'],
+        description: 'Operation to perform'
+      },
+      id: {
+        type: 'string',
+        description: 'Rule ID (update, delete; optional filter for runs)'
+      },
+      name: {
+        type: 'string',
+        description: 'Rule label (create, update)'
+      },
+      enabled: {
+        type: 'boolean',
+        description: 'Whether the rule runs (default: true)'
+      },
+      events: {
+        type: 'array',
+        items: { type: 'string', enum: [...RULE_EVENT_TYPES] },
+        description: 'Event types the rule reacts to (create, update)'
+      },
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Absolute path globs, e.g. "**/Dropository/**" (default: all paths)'
+      },
+      kinds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'File kinds, e.g. "PDF Document" (default: all kinds)'
+      },
+      actions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['set_xattr', 'delete_xattr', 'add_tags', 'remove_tags', 'reindex', 'broadcast']
+            },
+            name: { type: 'string', description: 'Attribute name (set_xattr, delete_xattr)' },
+            value: { description: 'Attribute value, as for set_xattr (set_xattr)' },
+            tags: { type: 'array', items: TAG_JSON_SCHEMA, description: 'Tags to add (add_tags)' },
+            names: { type: 'array', items: { type: 'string' }, description: 'Tag names to remove (remove_tags)' },
+            signal: { type: 'string', enum: [...RULE_SIGNALS], description: 'InterLock signal (broadcast; default: fs_watch_event)' }
+          },
+          required: ['type']
+        },
+        description: 'Actions to run in order (create, update)'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum runs to return (runs; default: 100)'
+      }
+    },
+    required: ['action']
+  }
+};
+
+export async function handleManageEventRules(args: unknown) {
+  const input = ManageEventRulesInputSchema.parse(args);
+
+  switch (input.action) {
+    case 'create':
+      return createEventRule(input);
+    case 'list': {
+      const rules = listEventRules();
+      return { rules, count: rules.length };
+    }
+    case 'update':
+      return updateEventRule(input.id, input);
+    case 'delete':
+      return { id: input.id, deleted: deleteEventRule(input.id) };
+    case 'runs': {
+      const runs = getEventRuleRuns(input.id, input.limit ?? 100);
+      return { runs, count: runs.length };
+    }
+  }
+}
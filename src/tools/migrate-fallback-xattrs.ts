@@ -0,0 +1,36 @@
+/**
+ * migrate_fallback_xattrs Tool
+ * Move values from the fallback store into real extended attributes
+ */
+
+import { z } from 'zod';
+import { migrateFallbackXattrs } from '../services/xattr-fallback-service.js';
+
+export const MigrateFallbackXattrsInputSchema = z.object({
+  path: z.string().min(1),
+  dry_run: z.boolean().optional()
+});
+
+export const MIGRATE_FALLBACK_XATTRS_TOOL = {
+  name: 'migrate_fallback_xattrs',
+  description: 'Move attributes held in the fallback store (used on volumes that reject xattrs) into real extended attributes. Run once the files are on a volume with xattr support; values that still fail stay in the store.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to a file, or a directory to migrate every file beneath it'
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'Report what would be migrated without writing (default: false)'
+      }
+    },
+    required: ['path']
+  }
+};
+
+export async function handleMigrateFallbackXattrs(args: unknown) {
+  const { path, dry_run } = MigrateFallbackXattrsInputSchema.parse(args);
+  return migrateFallbackXattrs(path, { dryRun: dry_run });
+}
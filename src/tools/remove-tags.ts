@@ -0,0 +1,37 @@
+/**
+ * remove_tags Tool
+ * Remove Finder tags from a file by name
+ */
+
+import { z } from 'zod';
+import { removeTags } from '../services/tag-service.js';
+
+export const RemoveTagsInputSchema = z.object({
+  path: z.string().min(1),
+  names: z.array(z.string().min(1)).min(1)
+});
+
+export const REMOVE_TAGS_TOOL = {
+  name: 'remove_tags',
+  description: 'Remove Finder tags from a file by name (case-insensitive)',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the file'
+      },
+      names: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Tag names to remove'
+      }
+    },
+    required: ['path', 'names']
+  }
+};
+
+export async function handleRemoveTags(args: unknown) {
+  const { path, names } = RemoveTagsInputSchema.parse(args);
+  return removeTags(path, names);
+}
@@ -0,0 +1,54 @@
+/**
+ * rollback_xattr Tool
+ * Restore attributes on a file to an earlier state
+ */
+
+import { z } from 'zod';
+import { rollbackXattrs } from '../services/xattr-history-service.js';
+
+export const RollbackXattrInputSchema = z.object({
+  path: z.string().min(1),
+  attribute: z.string().min(1).optional(),
+  operation_id: z.number().int().positive().optional(),
+  timestamp: z.union([z.string(), z.number()]).optional(),
+  dry_run: z.boolean().optional()
+}).refine(
+  input => (input.operation_id === undefined) !== (input.timestamp === undefined),
+  { message: 'Provide exactly one of operation_id or timestamp' }
+);
+
+export const ROLLBACK_XATTR_TOOL = {
+  name: 'rollback_xattr',
+  description: 'Restore one or all attributes on a file to their state before a history operation ID, or as of a timestamp',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the file'
+      },
+      attribute: {
+        type: 'string',
+        description: 'Only roll back this attribute (default: all attributes on the path)'
+      },
+      operation_id: {
+        type: 'number',
+        description: 'Undo this operation and every later one'
+      },
+      timestamp: {
+        type: 'string',
+        description: 'Restore the state as of this ISO timestamp'
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'Report what would change without writing (default: false)'
+      }
+    },
+    required: ['path']
+  }
+};
+
+export async function handleRollbackXattr(args: unknown) {
+  const { path, attribute, operation_id, timestamp, dry_run } = RollbackXattrInputSchema.parse(args);
+  return rollbackXattrs(path, { operationId: operation_id, timestamp }, attribute, dry_run ?? false);
+}
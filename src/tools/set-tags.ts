@@ -0,0 +1,38 @@
+/**
+ * set_tags Tool
+ * Replace all Finder tags on a file
+ */
+
+import { z } from 'zod';
+import { setTags } from '../services/tag-service.js';
+import { TagInputSchema, TAG_JSON_SCHEMA } from './tag-schema.js';
+
+export const SetTagsInputSchema = z.object({
+  path: z.string().min(1),
+  tags: z.array(TagInputSchema)
+});
+
+export const SET_TAGS_TOOL = {
+  name: 'set_tags',
+  description: 'Replace all Finder tags on a file. An empty list clears the tags.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the file'
+      },
+      tags: {
+        type: 'array',
+        items: TAG_JSON_SCHEMA,
+        description: 'Complete tag list'
+      }
+    },
+    required: ['path', 'tags']
+  }
+};
+
+export async function handleSetTags(args: unknown) {
+  const { path, tags } = SetTagsInputSchema.parse(args);
+  return setTags(path, tags);
+}
@@ -0,0 +1,78 @@
+/**
+ * sync_xattrs Tool
+ * Mirror attributes from one directory tree onto another
+ */
+
+import { z } from 'zod';
+import { syncXattrs, COPY_MODES } from '../services/xattr-copy-service.js';
+
+export const SyncXattrsInputSchema = z.object({
+  source_root: z.string().min(1),
+  destination_root: z.string().min(1),
+  names: z.array(z.string().min(1)).optional(),
+  mode: z.enum(COPY_MODES).optional(),
+  include: z.array(z.string().min(1)).optional(),
+  exclude: z.array(z.string().min(1)).optional(),
+  max_depth: z.number().int().min(0).max(32).optional(),
+  dry_run: z.boolean().optional()
+});
+
+export const SYNC_XATTRS_TOOL = {
+  name: 'sync_xattrs',
+  description: 'Copy extended attributes from every file in a source tree to the file at the same relative path in a destination tree (e.g. after regenerating a build)',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      source_root: {
+        type: 'string',
+        description: 'Absolute path to the directory to copy attributes from'
+      },
+      destination_root: {
+        type: 'string',
+        description: 'Absolute path to the directory to copy attributes to'
+      },
+      names: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Attributes to copy (default: all)'
+      },
+      mode: {
+        type: 'string',
+        enum: [...COPY_MODES],
+        description: 'merge (default), overwrite or skip-existing, as in copy_xattrs'
+      },
+      include: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Globs relative to source_root a file must match (default: all files)'
+      },
+      exclude: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Globs relative to source_root to skip'
+      },
+      max_depth: {
+        type: 'number',
+        description: 'Directory levels to descend (default: 8)'
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'Report what would change without writing (default: false)'
+      }
+    },
+    required: ['source_root', 'destination_root']
+  }
+};
+
+export async function handleSyncXattrs(args: unknown) {
+  const { source_root, destination_root, names, mode, include, exclude, max_depth, dry_run } =
+    SyncXattrsInputSchema.parse(args);
+  return syncXattrs(source_root, destination_root, {
+    names,
+    mode,
+    include,
+    exclude,
+    maxDepth: max_depth,
+    dryRun: dry_run
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Shared Tag Tool Schemas
+ */
+
+import { z } from 'zod';
+import { TAG_COLORS } from '../services/tag-service.js';
+
+export const TagInputSchema = z.object({
+  name: z.string().min(1),
+  color: z.enum(TAG_COLORS).optional()
+});
+
+/**
+ * JSON schema for a tag entry (mirrors TagInputSchema)
+ */
+export const TAG_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Tag name' },
+    color: {
+      type: 'string',
+      enum: [...TAG_COLORS],
+      description: 'Finder color (default: none)'
+    }
+  },
+  required: ['name']
+};
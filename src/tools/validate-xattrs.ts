@@ -0,0 +1,37 @@
+/**
+ * validate_xattrs Tool
+ * Check attribute values against the schema registry without writing
+ */
+
+import { z } from 'zod';
+import { validateXattrs } from '../services/xattr-service.js';
+import type { XattrInput } from '../utils/xattr-encoding.js';
+
+const ValidateXattrsInputSchema = z.object({
+  path: z.string().min(1),
+  attributes: z.record(z.unknown()).optional()
+});
+
+export const VALIDATE_XATTRS_TOOL = {
+  name: 'validate_xattrs',
+  description: 'Validate attributes against registered schemas. Checks the given values, or the values currently on the file when none are given.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Absolute path to the file'
+      },
+      attributes: {
+        type: 'object',
+        description: 'Candidate values keyed by attribute name (same format as set_xattr)'
+      }
+    },
+    required: ['path']
+  }
+};
+
+export async function handleValidateXattrs(args: unknown) {
+  const { path, attributes } = ValidateXattrsInputSchema.parse(args);
+  return validateXattrs(path, attributes as Record<string, XattrInput> | undefined);
+}
@@ -0,0 +1,219 @@
+/**
+ * AppleDouble Codec
+ *
+ * Reader/writer for AppleDouble `._name` sidecar files, which carry
+ * extended attributes through zip archives, SMB shares and filesystems
+ * without xattr support. Follows the macOS layout: Finder Info entry with
+ * an `ATTR` block holding the extended attributes, then the resource fork.
+ *
+ * Format reference: RFC 1740, Apple copyfile.c
+ */
+
+import { basename, dirname, join } from 'path';
+import { InvalidInputError } from './errors.js';
+
+const MAGIC = 0x00051607;
+const VERSION_1 = 0x00010000;
+const VERSION_2 = 0x00020000;
+const ATTR_MAGIC = 0x41545452; // 'ATTR'
+
+const ENTRY_RESOURCE_FORK = 2;
+const ENTRY_FINDER_INFO = 9;
+
+const HEADER_SIZE = 26;
+const ENTRY_SIZE = 12;
+const FINDER_INFO_SIZE = 32;
+const ATTR_HEADER_SIZE = 36;
+const ATTR_ENTRY_FIXED_SIZE = 11;
+
+const FILLER = Buffer.from('Mac OS X        ', 'latin1');
+
+/** Placeholder resource fork macOS writes when a file has none */
+const BLANK_FORK_TEXT = 'This resource fork intentionally left blank';
+
+export const FINDER_INFO_XATTR = 'com.apple.FinderInfo';
+export const RESOURCE_FORK_XATTR = 'com.apple.ResourceFork';
+
+export const APPLEDOUBLE_PREFIX = '._';
+
+/**
+ * Check whether a buffer holds an AppleDouble file
+ */
+export function isAppleDouble(data: Buffer): boolean {
+  if (data.length < HEADER_SIZE || data.readUInt32BE(0) !== MAGIC) return false;
+  const version = data.readUInt32BE(4);
+  return version === VERSION_1 || version === VERSION_2;
+}
+
+/**
+ * Sidecar path for a file (`dir/name` -> `dir/._name`)
+ */
+export function sidecarPathFor(filePath: string): string {
+  return join(dirname(filePath), APPLEDOUBLE_PREFIX + basename(filePath));
+}
+
+/**
+ * Data file a sidecar belongs to (`dir/._name` -> `dir/name`)
+ */
+export function dataPathFor(sidecarPath: string): string {
+  const name = basename(sidecarPath);
+  if (!name.startsWith(APPLEDOUBLE_PREFIX) || name.length === APPLEDOUBLE_PREFIX.length) {
+    throw new InvalidInputError('Not an AppleDouble sidecar name');
+  }
+  return join(dirname(sidecarPath), name.slice(APPLEDOUBLE_PREFIX.length));
+}
+
+function slice(data: Buffer, offset: number, length: number, what: string): Buffer {
+  if (offset + length > data.length) {
+    throw new InvalidInputError(`AppleDouble ${what} out of bounds`);
+  }
+  return data.subarray(offset, offset + length);
+}
+
+function isBlankResourceFork(fork: Buffer): boolean {
+  return fork.length === 286 && fork.toString('latin1').includes(BLANK_FORK_TEXT);
+}
+
+/**
+ * Parse the extended attributes stored in an AppleDouble file
+ * Finder Info and a (non-placeholder) resource fork are returned as the
+ * com.apple.FinderInfo and com.apple.ResourceFork attributes.
+ * @throws InvalidInputError if the data is malformed
+ */
+export function parseAppleDouble(data: Buffer): Record<string, Buffer> {
+  if (!isAppleDouble(data)) {
+    throw new InvalidInputError('Not an AppleDouble file');
+  }
+
+  const attributes: Record<string, Buffer> = {};
+  const numEntries = data.readUInt16BE(24);
+  slice(data, HEADER_SIZE, numEntries * ENTRY_SIZE, 'entry table');
+
+  for (let i = 0; i < numEntries; i++) {
+    const base = HEADER_SIZE + i * ENTRY_SIZE;
+    const id = data.readUInt32BE(base);
+    const offset = data.readUInt32BE(base + 4);
+    const length = data.readUInt32BE(base + 8);
+    const entry = slice(data, offset, length, 'entry');
+
+    if (id === ENTRY_FINDER_INFO && length >= FINDER_INFO_SIZE) {
+      const finderInfo = entry.subarray(0, FINDER_INFO_SIZE);
+      if (finderInfo.some(byte => byte !== 0)) {
+        attributes[FINDER_INFO_XATTR] = Buffer.from(finderInfo);
+      }
+
+      const attrHeader = offset + FINDER_INFO_SIZE + 2;
+      if (length >= FINDER_INFO_SIZE + 2 + ATTR_HEADER_SIZE && data.readUInt32BE(attrHeader) === ATTR_MAGIC) {
+        Object.assign(attributes, parseAttrBlock(data, attrHeader));
+      }
+    } else if (id === ENTRY_RESOURCE_FORK && length > 0 && !isBlankResourceFork(entry)) {
+      attributes[RESOURCE_FORK_XATTR] = Buffer.from(entry);
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse the `ATTR` block (entry offsets are absolute file offsets)
+ */
+function parseAttrBlock(data: Buffer, headerOffset: number): Record<string, Buffer> {
+  const attributes: Record<string, Buffer> = {};
+  const numAttrs = data.readUInt16BE(headerOffset + 34);
+  let position = headerOffset + ATTR_HEADER_SIZE;
+
+  for (let i = 0; i < numAttrs; i++) {
+    const fixed = slice(data, position, ATTR_ENTRY_FIXED_SIZE, 'attribute entry');
+    const valueOffset = fixed.readUInt32BE(0);
+    const valueLength = fixed.readUInt32BE(4);
+    const nameLength = fixed.readUInt8(10);
+
+    const nameBytes = slice(data, position + ATTR_ENTRY_FIXED_SIZE, nameLength, 'attribute name');
+    const name = nameBytes.toString('utf8').replace(/\0+$/, '');
+    if (!name) {
+      throw new InvalidInputError('AppleDouble attribute has an empty name');
+    }
+
+    attributes[name] = Buffer.from(slice(data, valueOffset, valueLength, 'attribute value'));
+    position = align4(position + ATTR_ENTRY_FIXED_SIZE + nameLength);
+  }
+
+  return attributes;
+}
+
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
+
+/**
+ * Serialize extended attributes as an AppleDouble file
+ * @throws InvalidInputError if Finder Info isn't 32 bytes or a name is too long
+ */
+export function buildAppleDouble(attributes: Record<string, Buffer>): Buffer {
+  const finderInfo = attributes[FINDER_INFO_XATTR] ?? Buffer.alloc(FINDER_INFO_SIZE);
+  if (finderInfo.length !== FINDER_INFO_SIZE) {
+    throw new InvalidInputError(`${FINDER_INFO_XATTR} must be ${FINDER_INFO_SIZE} bytes`);
+  }
+  const resourceFork = attributes[RESOURCE_FORK_XATTR] ?? Buffer.alloc(0);
+
+  const xattrs = Object.entries(attributes)
+    .filter(([name]) => name !== FINDER_INFO_XATTR && name !== RESOURCE_FORK_XATTR)
+    .map(([name, value]) => {
+      const nameBytes = Buffer.concat([Buffer.from(name, 'utf8'), Buffer.alloc(1)]);
+      if (nameBytes.length > 255) {
+        throw new InvalidInputError(`Attribute name too long for AppleDouble: ${name}`);
+      }
+      return { nameBytes, value };
+    });
+
+  const finderInfoOffset = HEADER_SIZE + 2 * ENTRY_SIZE;
+  const attrHeaderOffset = finderInfoOffset + FINDER_INFO_SIZE + 2;
+
+  // Finder Info alone when there are no extended attributes
+  let finderInfoEntry: Buffer;
+  if (xattrs.length === 0) {
+    finderInfoEntry = Buffer.from(finderInfo);
+  } else {
+    const entriesSize = xattrs.reduce((sum, x) => sum + align4(ATTR_ENTRY_FIXED_SIZE + x.nameBytes.length), 0);
+    const dataStart = attrHeaderOffset + ATTR_HEADER_SIZE + entriesSize;
+    const dataLength = xattrs.reduce((sum, x) => sum + x.value.length, 0);
+    const totalSize = dataStart + dataLength;
+
+    const header = Buffer.alloc(ATTR_HEADER_SIZE);
+    header.writeUInt32BE(ATTR_MAGIC, 0);
+    header.writeUInt32BE(totalSize, 8);
+    header.writeUInt32BE(dataStart, 12);
+    header.writeUInt32BE(dataLength, 16);
+    header.writeUInt16BE(xattrs.length, 34);
+
+    const entries: Buffer[] = [];
+    let valueOffset = dataStart;
+    for (const { nameBytes, value } of xattrs) {
+      const entry = Buffer.alloc(align4(ATTR_ENTRY_FIXED_SIZE + nameBytes.length));
+      entry.writeUInt32BE(valueOffset, 0);
+      entry.writeUInt32BE(value.length, 4);
+      entry.writeUInt8(nameBytes.length, 10);
+      nameBytes.copy(entry, ATTR_ENTRY_FIXED_SIZE);
+      entries.push(entry);
+      valueOffset += value.length;
+    }
+
+    finderInfoEntry = Buffer.concat([finderInfo, Buffer.alloc(2), header, ...entries, ...xattrs.map(x => x.value)]);
+  }
+
+  const resourceForkOffset = finderInfoOffset + finderInfoEntry.length;
+
+  const fileHeader = Buffer.alloc(finderInfoOffset);
+  fileHeader.writeUInt32BE(MAGIC, 0);
+  fileHeader.writeUInt32BE(VERSION_2, 4);
+  FILLER.copy(fileHeader, 8);
+  fileHeader.writeUInt16BE(2, 24);
+  fileHeader.writeUInt32BE(ENTRY_FINDER_INFO, 26);
+  fileHeader.writeUInt32BE(finderInfoOffset, 30);
+  fileHeader.writeUInt32BE(finderInfoEntry.length, 34);
+  fileHeader.writeUInt32BE(ENTRY_RESOURCE_FORK, 38);
+  fileHeader.writeUInt32BE(resourceForkOffset, 42);
+  fileHeader.writeUInt32BE(resourceFork.length, 46);
+
+  return Buffer.concat([fileHeader, finderInfoEntry, resourceFork]);
+}
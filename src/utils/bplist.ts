@@ -0,0 +1,400 @@
+/**
+ * Binary Property List Codec
+ *
+ * Pure TypeScript reader/writer for the `bplist00` format used by
+ * Apple metadata attributes (Finder tags, WhereFroms, ...).
+ * No dependency on plutil, so it works on every platform.
+ *
+ * Format reference: CoreFoundation CFBinaryPList.c
+ */
+
+export type PlistValue =
+  | null
+  | boolean
+  | number
+  | string
+  | Date
+  | Buffer
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+const MAGIC = 'bplist00';
+const HEADER_SIZE = 8;
+const TRAILER_SIZE = 32;
+
+/** Seconds between the Unix epoch and the CoreFoundation absolute time epoch (2001-01-01) */
+const APPLE_EPOCH_OFFSET = 978307200;
+
+/** Deepest collection nesting accepted; real metadata is a few levels deep */
+const MAX_DEPTH = 256;
+
+/**
+ * Decoded objects allowed per stored object. A collection referenced
+ * from several places is decoded once per reference, so nested shared
+ * references could otherwise expand a tiny document exponentially.
+ */
+const MAX_EXPANSION = 8;
+
+/**
+ * Check whether a buffer holds a binary plist
+ */
+export function isBinaryPlist(data: Buffer): boolean {
+  return data.length >= HEADER_SIZE + TRAILER_SIZE &&
+    data.toString('latin1', 0, HEADER_SIZE) === MAGIC;
+}
+
+/**
+ * Parse a binary plist
+ * @throws Error if the data is not a well-formed bplist00 document, or
+ *   nests or shares references beyond the limits above
+ */
+export function parseBinaryPlist(data: Buffer): PlistValue {
+  if (!isBinaryPlist(data)) {
+    throw new Error('Not a binary plist');
+  }
+
+  const trailer = data.subarray(data.length - TRAILER_SIZE);
+  const offsetSize = trailer.readUInt8(6);
+  const refSize = trailer.readUInt8(7);
+  const numObjects = readSize(trailer, 8, 8);
+  const topObject = readSize(trailer, 16, 8);
+  const offsetTableOffset = readSize(trailer, 24, 8);
+
+  if (offsetSize < 1 || offsetSize > 8 || refSize < 1 || refSize > 8) {
+    throw new Error('Invalid plist trailer');
+  }
+  if (offsetTableOffset + numObjects * offsetSize > data.length - TRAILER_SIZE) {
+    throw new Error('Plist offset table out of bounds');
+  }
+  if (topObject >= numObjects) {
+    throw new Error('Plist top object out of range');
+  }
+
+  const offsets: number[] = [];
+  for (let i = 0; i < numObjects; i++) {
+    offsets.push(readSize(data, offsetTableOffset + i * offsetSize, offsetSize));
+  }
+
+  // Guards against reference cycles and shared-reference blowup in malicious input
+  const visiting = new Set<number>();
+  const maxDecoded = numObjects * MAX_EXPANSION;
+  let decoded = 0;
+
+  function readObject(ref: number, depth: number = 0): PlistValue {
+    if (ref >= numObjects) {
+      throw new Error('Plist object reference out of range');
+    }
+    if (visiting.has(ref)) {
+      throw new Error('Plist contains a reference cycle');
+    }
+    if (depth > MAX_DEPTH) {
+      throw new Error('Plist nesting too deep');
+    }
+    if (++decoded > maxDecoded) {
+      throw new Error('Plist expands to too many objects');
+    }
+
+    const offset = offsets[ref];
+    if (offset >= offsetTableOffset) {
+      throw new Error('Plist object offset out of bounds');
+    }
+
+    const marker = data[offset];
+    const type = marker >> 4;
+    const info = marker & 0x0f;
+
+    switch (type) {
+      case 0x0:
+        if (info === 0x0) return null;
+        if (info === 0x8) return false;
+        if (info === 0x9) return true;
+        throw new Error(`Unsupported plist singleton: 0x${marker.toString(16)}`);
+
+      case 0x1:
+        return readInt(data, offset + 1, 1 << info);
+
+      case 0x2:
+        return readReal(data, offset + 1, 1 << info);
+
+      case 0x3:
+        if (info !== 0x3) throw new Error('Invalid plist date');
+        return new Date((data.readDoubleBE(offset + 1) + APPLE_EPOCH_OFFSET) * 1000);
+
+      case 0x4: {
+        const { length, start } = readLength(offset, info);
+        return Buffer.from(slice(start, length));
+      }
+
+      case 0x5: {
+        const { length, start } = readLength(offset, info);
+        return slice(start, length).toString('latin1');
+      }
+
+      case 0x6: {
+        const { length, start } = readLength(offset, info);
+        const utf16 = Buffer.from(slice(start, length * 2));
+        return utf16.swap16().toString('utf16le');
+      }
+
+      case 0x8:
+        // UID (NSKeyedArchiver); exposed as its integer value
+        return readSize(data, offset + 1, info + 1);
+
+      case 0xa:
+      case 0xc: {
+        const { length, start } = readLength(offset, info);
+        const refs = readRefs(start, length);
+        visiting.add(ref);
+        const items = refs.map(child => readObject(child, depth + 1));
+        visiting.delete(ref);
+        return items;
+      }
+
+      case 0xd: {
+        const { length, start } = readLength(offset, info);
+        const keyRefs = readRefs(start, length);
+        const valueRefs = readRefs(start + length * refSize, length);
+        const dict: { [key: string]: PlistValue } = {};
+        visiting.add(ref);
+        for (let i = 0; i < length; i++) {
+          const key = readObject(keyRefs[i], depth + 1);
+          if (typeof key !== 'string') {
+            throw new Error('Plist dictionary key is not a string');
+          }
+          dict[key] = readObject(valueRefs[i], depth + 1);
+        }
+        visiting.delete(ref);
+        return dict;
+      }
+
+      default:
+        throw new Error(`Unsupported plist object type: 0x${marker.toString(16)}`);
+    }
+  }
+
+  function readLength(offset: number, info: number): { length: number; start: number } {
+    if (info !== 0xf) {
+      return { length: info, start: offset + 1 };
+    }
+    const intMarker = data[offset + 1];
+    if (intMarker >> 4 !== 0x1) {
+      throw new Error('Invalid plist length marker');
+    }
+    const intSize = 1 << (intMarker & 0x0f);
+    return { length: readSize(data, offset + 2, intSize), start: offset + 2 + intSize };
+  }
+
+  function readRefs(start: number, count: number): number[] {
+    const refs: number[] = [];
+    for (let i = 0; i < count; i++) {
+      refs.push(readSize(data, start + i * refSize, refSize));
+    }
+    return refs;
+  }
+
+  function slice(start: number, length: number): Buffer {
+    if (start + length > offsetTableOffset) {
+      throw new Error('Plist object data out of bounds');
+    }
+    return data.subarray(start, start + length);
+  }
+
+  return readObject(topObject);
+}
+
+/**
+ * Serialize a value as a binary plist
+ *
+ * Objects are flattened depth-first (dictionary keys before values),
+ * matching the layout CoreFoundation produces.
+ */
+export function buildBinaryPlist(value: PlistValue): Buffer {
+  const objects: PlistValue[] = [];
+  const childRefs: number[][] = [];
+
+  function flatten(item: PlistValue): number {
+    const ref = objects.length;
+    objects.push(item);
+
+    if (Array.isArray(item)) {
+      childRefs[ref] = item.map(flatten);
+    } else if (isDict(item)) {
+      const keyRefs = Object.keys(item).map(flatten);
+      const valueRefs = Object.values(item).map(flatten);
+      childRefs[ref] = [...keyRefs, ...valueRefs];
+    }
+
+    return ref;
+  }
+
+  flatten(value);
+
+  const refSize = bytesNeeded(objects.length);
+
+  const encoded = objects.map((item, ref) => {
+    if (Array.isArray(item)) {
+      return encodeContainer(0xa, item.length, childRefs[ref], refSize);
+    }
+    if (isDict(item)) {
+      return encodeContainer(0xd, Object.keys(item).length, childRefs[ref], refSize);
+    }
+    return encodeScalar(item);
+  });
+
+  const offsets: number[] = [];
+  let position = HEADER_SIZE;
+  for (const chunk of encoded) {
+    offsets.push(position);
+    position += chunk.length;
+  }
+
+  const offsetTableOffset = position;
+  const offsetSize = bytesNeeded(offsetTableOffset);
+  const offsetTable = Buffer.concat(offsets.map(o => writeSize(o, offsetSize)));
+
+  const trailer = Buffer.alloc(TRAILER_SIZE);
+  trailer.writeUInt8(offsetSize, 6);
+  trailer.writeUInt8(refSize, 7);
+  trailer.writeBigUInt64BE(BigInt(objects.length), 8);
+  trailer.writeBigUInt64BE(0n, 16);
+  trailer.writeBigUInt64BE(BigInt(offsetTableOffset), 24);
+
+  return Buffer.concat([Buffer.from(MAGIC, 'latin1'), ...encoded, offsetTable, trailer]);
+}
+
+function isDict(value: PlistValue): value is { [key: string]: PlistValue } {
+  return value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !Buffer.isBuffer(value);
+}
+
+/**
+ * Encode a non-container object
+ */
+function encodeScalar(value: PlistValue): Buffer {
+  if (value === null) return Buffer.from([0x00]);
+  if (value === false) return Buffer.from([0x08]);
+  if (value === true) return Buffer.from([0x09]);
+
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      return encodeInt(value);
+    }
+    const real = Buffer.alloc(9);
+    real[0] = 0x23;
+    real.writeDoubleBE(value, 1);
+    return real;
+  }
+
+  if (typeof value === 'string') {
+    if (/^[\x00-\x7f]*$/.test(value)) {
+      return Buffer.concat([encodeMarker(0x5, value.length), Buffer.from(value, 'latin1')]);
+    }
+    const utf16 = Buffer.from(value, 'utf16le').swap16();
+    return Buffer.concat([encodeMarker(0x6, utf16.length / 2), utf16]);
+  }
+
+  if (value instanceof Date) {
+    const date = Buffer.alloc(9);
+    date[0] = 0x33;
+    date.writeDoubleBE(value.getTime() / 1000 - APPLE_EPOCH_OFFSET, 1);
+    return date;
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeMarker(0x4, value.length), value]);
+  }
+
+  throw new Error(`Unsupported plist value type: ${typeof value}`);
+}
+
+function encodeContainer(type: number, count: number, refs: number[], refSize: number): Buffer {
+  return Buffer.concat([encodeMarker(type, count), ...refs.map(r => writeSize(r, refSize))]);
+}
+
+/**
+ * Object marker with inline length, or 0xF followed by an int object
+ */
+function encodeMarker(type: number, length: number): Buffer {
+  if (length < 0x0f) {
+    return Buffer.from([(type << 4) | length]);
+  }
+  return Buffer.concat([Buffer.from([(type << 4) | 0x0f]), encodeInt(length)]);
+}
+
+function encodeInt(value: number): Buffer {
+  // Negative integers are always stored as 8-byte two's complement
+  if (value < 0) {
+    const int = Buffer.alloc(9);
+    int[0] = 0x13;
+    int.writeBigInt64BE(BigInt(value), 1);
+    return int;
+  }
+
+  const size = value <= 0xff ? 1 : value <= 0xffff ? 2 : value <= 0xffffffff ? 4 : 8;
+  return Buffer.concat([Buffer.from([0x10 | Math.log2(size)]), writeSize(value, size)]);
+}
+
+/**
+ * Smallest of 1, 2, 4 or 8 bytes that can hold a value
+ */
+function bytesNeeded(value: number): number {
+  if (value <= 0xff) return 1;
+  if (value <= 0xffff) return 2;
+  if (value <= 0xffffffff) return 4;
+  return 8;
+}
+
+function writeSize(value: number, size: number): Buffer {
+  const buffer = Buffer.alloc(size);
+  if (size === 8) {
+    buffer.writeBigUInt64BE(BigInt(value));
+  } else {
+    buffer.writeUIntBE(value, 0, size);
+  }
+  return buffer;
+}
+
+/**
+ * Read an unsigned big-endian size/offset/reference
+ */
+function readSize(data: Buffer, offset: number, size: number): number {
+  if (offset + size > data.length) {
+    throw new Error('Plist read out of bounds');
+  }
+  if (size <= 6) {
+    return data.readUIntBE(offset, size);
+  }
+  const value = Number(data.readBigUInt64BE(offset + size - 8));
+  if (!Number.isSafeInteger(value)) {
+    throw new Error('Plist size exceeds safe integer range');
+  }
+  return value;
+}
+
+function readInt(data: Buffer, offset: number, size: number): number {
+  if (offset + size > data.length) {
+    throw new Error('Plist read out of bounds');
+  }
+  switch (size) {
+    case 1:
+    case 2:
+    case 4:
+      return data.readUIntBE(offset, size);
+    case 8:
+      return Number(data.readBigInt64BE(offset));
+    case 16:
+      // 128-bit ints only appear for large unsigned values; keep the low 64 bits
+      return Number(data.readBigUInt64BE(offset + 8));
+    default:
+      throw new Error(`Invalid plist integer size: ${size}`);
+  }
+}
+
+function readReal(data: Buffer, offset: number, size: number): number {
+  if (size === 4) return data.readFloatBE(offset);
+  if (size === 8) return data.readDoubleBE(offset);
+  throw new Error(`Invalid plist real size: ${size}`);
+}
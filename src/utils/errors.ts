@@ -0,0 +1,197 @@
+/**
+ * Error Taxonomy
+ *
+ * Every error a client can act on carries a stable code. The MCP
+ * handler, the HTTP server and InterLock responses all report the same
+ * code, so clients branch on it instead of matching message text.
+ * Messages may change; codes may not.
+ */
+
+import { ZodError } from 'zod';
+import { formatZodIssues } from './json-schema.js';
+import { sanitizeErrorMessage } from './path-validator.js';
+
+export const ERROR_CODES = [
+  'INVALID_INPUT',
+  'INVALID_PATH',
+  'PATH_OUTSIDE_SANDBOX',
+  'SYMLINK_REJECTED',
+  'OPERATION_NOT_PERMITTED',
+  'POLICY_DENIED',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'RATE_LIMITED',
+  'NOT_FOUND',
+  'FILE_NOT_FOUND',
+  'XATTR_NOT_FOUND',
+  'ALREADY_EXISTS',
+  'XATTR_UNSUPPORTED',
+  'BACKEND_UNAVAILABLE',
+  'BACKEND_FAILED',
+  'INTERNAL'
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+/** HTTP status for each code */
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_INPUT: 400,
+  INVALID_PATH: 400,
+  PATH_OUTSIDE_SANDBOX: 403,
+  SYMLINK_REJECTED: 403,
+  OPERATION_NOT_PERMITTED: 403,
+  POLICY_DENIED: 403,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  RATE_LIMITED: 429,
+  NOT_FOUND: 404,
+  FILE_NOT_FOUND: 404,
+  XATTR_NOT_FOUND: 404,
+  ALREADY_EXISTS: 409,
+  XATTR_UNSUPPORTED: 422,
+  BACKEND_UNAVAILABLE: 503,
+  BACKEND_FAILED: 502,
+  INTERNAL: 500
+};
+
+export interface ErrorBody {
+  code: ErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export class GuardianError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'GuardianError';
+  }
+}
+
+export class InvalidInputError extends GuardianError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('INVALID_INPUT', message, details);
+  }
+}
+
+export class InvalidPathError extends GuardianError {
+  constructor(message: string = 'Invalid path: must be a non-empty string') {
+    super('INVALID_PATH', message);
+  }
+}
+
+export class PathOutsideSandboxError extends GuardianError {
+  constructor() {
+    super('PATH_OUTSIDE_SANDBOX', 'Path outside allowed directories');
+  }
+}
+
+export class SymlinkRejectedError extends GuardianError {
+  constructor() {
+    super('SYMLINK_REJECTED', 'Symlinks are not allowed: potential sandbox escape');
+  }
+}
+
+/**
+ * The sandbox root's mode forbids the operation
+ */
+export class OperationNotPermittedError extends GuardianError {
+  constructor(message: string) {
+    super('OPERATION_NOT_PERMITTED', message);
+  }
+}
+
+export class PolicyDeniedError extends GuardianError {
+  constructor(rule: string, reason: string) {
+    super('POLICY_DENIED', `Denied by policy (${rule}): ${reason}`, { rule });
+  }
+}
+
+/**
+ * A webhook, rule, token or other stored resource doesn't exist
+ */
+export class NotFoundError extends GuardianError {
+  constructor(message: string) {
+    super('NOT_FOUND', message);
+  }
+}
+
+export class FileNotFoundError extends GuardianError {
+  constructor() {
+    super('FILE_NOT_FOUND', 'File not found');
+  }
+}
+
+export class XattrNotFoundError extends GuardianError {
+  constructor(name?: string) {
+    super('XATTR_NOT_FOUND', name ? `Attribute not found: ${name}` : 'Attribute not found', name ? { name } : undefined);
+  }
+}
+
+export class AlreadyExistsError extends GuardianError {
+  constructor(message: string) {
+    super('ALREADY_EXISTS', message);
+  }
+}
+
+/**
+ * The volume rejects extended attributes
+ */
+export class XattrUnsupportedError extends GuardianError {
+  constructor() {
+    super('XATTR_UNSUPPORTED', 'Operation not supported: the volume rejects extended attributes');
+  }
+}
+
+/**
+ * A required tool (xattr, getfattr, mdfind) or platform facility is missing
+ */
+export class BackendUnavailableError extends GuardianError {
+  constructor(message: string) {
+    super('BACKEND_UNAVAILABLE', message);
+  }
+}
+
+/**
+ * A backend command ran but failed for a reason not covered above
+ */
+export class BackendFailedError extends GuardianError {
+  constructor(message: string) {
+    super('BACKEND_FAILED', message);
+  }
+}
+
+/**
+ * Code, message and details of any thrown value
+ * Unclassified errors become INTERNAL; their message is only included
+ * (sanitized) when exposeInternal is set, since it can name paths.
+ */
+export function describeError(error: unknown, exposeInternal: boolean = false): ErrorBody {
+  if (error instanceof GuardianError) {
+    return { code: error.code, message: error.message, ...(error.details && { details: error.details }) };
+  }
+  if (error instanceof ZodError) {
+    return { code: 'INVALID_INPUT', message: 'Invalid arguments', details: { issues: formatZodIssues(error) } };
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return { code: 'INTERNAL', message: exposeInternal ? sanitizeErrorMessage(message) : 'Internal server error' };
+}
+
+/**
+ * MCP tool result for a failed call
+ * The text is JSON so clients can read the code without a schema.
+ */
+export function toMcpError(error: unknown): { content: Array<{ type: 'text'; text: string }>; isError: true } {
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error: describeError(error, true) }, null, 2) }],
+    isError: true
+  };
+}
+
+/**
+ * Payload of an InterLock response reporting a failure
+ */
+export function toInterlockError(error: unknown): Record<string, unknown> {
+  const { code, message, details } = describeError(error);
+  return { success: false, error: message, code, ...(details && { details }) };
+}
@@ -0,0 +1,48 @@
+/**
+ * Glob Matching
+ *
+ * Minimal glob-to-RegExp conversion for policy rules:
+ * - `**` matches across `/` (`**\/` also matches zero directories)
+ * - `*` matches within one path segment
+ * - `?` matches one character other than `/`
+ * Everything else is literal.
+ */
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) return cached;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (ch === '/' && pattern.slice(i + 1) === '**') {
+      source += '(?:/.*)?';
+      break;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  cache.set(pattern, regex);
+  return regex;
+}
+
+export function matchGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
@@ -0,0 +1,151 @@
+/**
+ * JSON Schema to Zod
+ *
+ * Converts the JSON Schema subset used in config files into zod schemas:
+ * type (object, array, string, number, integer, boolean, null), properties,
+ * required, additionalProperties: false, items, enum, const,
+ * minimum/maximum, minLength/maxLength, pattern, minItems/maxItems,
+ * format: date-time, and anyOf. Annotations (description, title,
+ * default, examples, $schema, $id, $comment) are accepted and ignored.
+ * Any other keyword is rejected, so a schema never validates less than
+ * its author expects.
+ */
+
+import { z, type ZodTypeAny } from 'zod';
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  const?: string | number | boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  format?: 'date-time';
+  anyOf?: JsonSchema[];
+}
+
+const SUPPORTED_KEYWORDS = new Set([
+  'type', 'properties', 'required', 'additionalProperties', 'items', 'enum', 'const',
+  'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems',
+  'format', 'anyOf',
+  // Annotations
+  'description', 'title', 'default', 'examples', '$schema', '$id', '$comment'
+]);
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Build a zod schema from a JSON schema
+ * @throws Error on unsupported keywords or malformed schemas
+ */
+export function jsonSchemaToZod(schema: JsonSchema): ZodTypeAny {
+  if (!schema || typeof schema !== 'object') {
+    throw new Error('Schema must be an object');
+  }
+
+  const unsupported = Object.keys(schema).filter(key => !SUPPORTED_KEYWORDS.has(key));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported schema keyword: ${unsupported.join(', ')}`);
+  }
+  if (schema.format !== undefined && schema.format !== 'date-time') {
+    throw new Error(`Unsupported schema format: ${schema.format as string}`);
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    throw new Error('additionalProperties must be a boolean');
+  }
+
+  if (schema.anyOf) {
+    const options = schema.anyOf.map(jsonSchemaToZod);
+    if (options.length < 2) {
+      return options[0] ?? z.never();
+    }
+    return z.union(options as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+  }
+
+  if (schema.const !== undefined) {
+    return z.literal(schema.const);
+  }
+
+  if (schema.enum) {
+    if (schema.enum.length === 0) return z.never();
+    if (schema.enum.every(v => typeof v === 'string')) {
+      return z.enum(schema.enum as [string, ...string[]]);
+    }
+    const literals = schema.enum.map(v => z.literal(v));
+    return literals.length === 1
+      ? literals[0]
+      : z.union(literals as unknown as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const required = new Set(schema.required ?? []);
+      const shape: Record<string, ZodTypeAny> = {};
+      for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+        const prop = jsonSchemaToZod(propSchema);
+        shape[key] = required.has(key) ? prop : prop.optional();
+      }
+      const object = z.object(shape);
+      return schema.additionalProperties === false ? object.strict() : object.passthrough();
+    }
+
+    case 'array': {
+      let array = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+      if (schema.minItems !== undefined) array = array.min(schema.minItems);
+      if (schema.maxItems !== undefined) array = array.max(schema.maxItems);
+      return array;
+    }
+
+    case 'string': {
+      let string = z.string();
+      if (schema.minLength !== undefined) string = string.min(schema.minLength);
+      if (schema.maxLength !== undefined) string = string.max(schema.maxLength);
+      if (schema.pattern !== undefined) string = string.regex(new RegExp(schema.pattern));
+      if (schema.format === 'date-time') string = string.datetime({ offset: true });
+      return string;
+    }
+
+    case 'number':
+    case 'integer': {
+      let number = z.number();
+      if (schema.type === 'integer') number = number.int();
+      if (schema.minimum !== undefined) number = number.min(schema.minimum);
+      if (schema.maximum !== undefined) number = number.max(schema.maximum);
+      return number;
+    }
+
+    case 'boolean':
+      return z.boolean();
+
+    case 'null':
+      return z.null();
+
+    case undefined:
+      return z.unknown();
+
+    default:
+      throw new Error(`Unsupported schema type: ${schema.type as string}`);
+  }
+}
+
+/**
+ * Flatten zod issues into per-field messages
+ */
+export function formatZodIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    message: issue.message
+  }));
+}
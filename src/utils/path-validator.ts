@@ -10,26 +10,109 @@
 
 import { lstatSync } from 'fs';
 import path from 'path';
+import {
+  InvalidPathError,
+  PathOutsideSandboxError,
+  SymlinkRejectedError,
+  OperationNotPermittedError
+} from './errors.js';
 
 /**
- * Allowed root directories for file operations
- * All path operations are restricted to these directories
+ * Per-root permission mode
+ * - read-only: attributes can be read but never written or deleted
+ * - read-write: no restrictions beyond the sandbox itself
+ * - no-delete: attributes can be written but not deleted
+ */
+export type SandboxMode = 'read-only' | 'read-write' | 'no-delete';
+
+export type SandboxOperation = 'read' | 'write' | 'delete';
+
+export interface SandboxRoot {
+  path: string;
+  mode: SandboxMode;
+}
+
+export const SANDBOX_MODES: readonly SandboxMode[] = ['read-only', 'read-write', 'no-delete'];
+
+/**
+ * Roots used when no sandbox config or SANDBOX_ROOTS is provided
  */
-export const ALLOWED_ROOTS = [
-  '/Users/macbook/Documents/BoxOfPrompts-Central',
-  '/Users/macbook/Documents/Dropository',
-  '/Users/macbook/Documents/BoxOfPrompts-Central/Dropository'
+export const DEFAULT_SANDBOX_ROOTS: readonly SandboxRoot[] = [
+  { path: '/Users/macbook/Documents/BoxOfPrompts-Central', mode: 'read-write' },
+  { path: '/Users/macbook/Documents/Dropository', mode: 'read-write' },
+  { path: '/Users/macbook/Documents/BoxOfPrompts-Central/Dropository', mode: 'read-write' }
 ];
 
+let sandboxRoots: SandboxRoot[] = DEFAULT_SANDBOX_ROOTS.map(root => ({ ...root }));
+
+/**
+ * Allowed root directories for file operations
+ * All path operations are restricted to these directories.
+ * Kept in sync with the sandbox roots (updated in place on reload).
+ */
+export const ALLOWED_ROOTS: string[] = sandboxRoots.map(root => root.path);
+
+/**
+ * Replace the sandbox roots
+ * @throws Error if a root is not absolute or has an unknown mode
+ */
+export function setSandboxRoots(roots: SandboxRoot[]): void {
+  const normalized = roots.map((root, index) => {
+    if (typeof root.path !== 'string' || !path.isAbsolute(root.path) || root.path.includes('\0')) {
+      throw new Error(`Sandbox root ${index}: path must be absolute`);
+    }
+    if (!SANDBOX_MODES.includes(root.mode)) {
+      throw new Error(`Sandbox root ${index}: mode must be one of ${SANDBOX_MODES.join(', ')}`);
+    }
+    const rootPath = path.normalize(root.path);
+    return { path: rootPath.length > 1 ? rootPath.replace(/\/+$/, '') : rootPath, mode: root.mode };
+  });
+
+  sandboxRoots = normalized;
+  ALLOWED_ROOTS.splice(0, ALLOWED_ROOTS.length, ...normalized.map(root => root.path));
+}
+
+/**
+ * Effective sandbox roots
+ */
+export function getSandboxRoots(): SandboxRoot[] {
+  return sandboxRoots.map(root => ({ ...root }));
+}
+
+/**
+ * Find the root governing a normalized absolute path
+ * Nested roots are allowed; the most specific one wins.
+ */
+export function findSandboxRoot(normalizedPath: string): SandboxRoot | undefined {
+  let match: SandboxRoot | undefined;
+  for (const root of sandboxRoots) {
+    const prefix = root.path === path.sep ? root.path : root.path + path.sep;
+    const contains = normalizedPath === root.path || normalizedPath.startsWith(prefix);
+    if (contains && (!match || root.path.length > match.path.length)) {
+      match = root;
+    }
+  }
+  return match;
+}
+
+/**
+ * Cheap sandbox membership test for already-normalized paths
+ * Unlike isPathAllowed() this does not touch the filesystem, so it is
+ * safe to call for every watch event.
+ */
+export function isWithinSandbox(normalizedPath: string): boolean {
+  return findSandboxRoot(normalizedPath) !== undefined;
+}
+
 /**
  * Validate and normalize a path, ensuring it's within the sandbox
  * @param filePath - Path to validate
  * @returns Normalized absolute path
- * @throws Error if path is outside sandbox, is a symlink, or invalid
+ * @throws InvalidPathError, SymlinkRejectedError or PathOutsideSandboxError
  */
 export function validatePath(filePath: string): string {
   if (!filePath || typeof filePath !== 'string') {
-    throw new Error('Invalid path: must be a non-empty string');
+    throw new InvalidPathError();
   }
 
   // Strip null bytes (CWE-158)
@@ -61,13 +144,13 @@ export function validatePath(filePath: string): string {
   try {
     const stats = lstatSync(normalized);
     if (stats.isSymbolicLink()) {
-      throw new Error('Symlinks are not allowed: potential sandbox escape');
+      throw new SymlinkRejectedError();
     }
   } catch (err: any) {
     // ENOENT is ok - file doesn't exist yet
     if (err.code !== 'ENOENT') {
       // Re-throw symlink rejection
-      if (err.message && err.message.includes('Symlinks are not allowed')) {
+      if (err instanceof SymlinkRejectedError) {
         throw err;
       }
       // Other errors are logged but not fatal (file might not exist yet)
@@ -75,14 +158,29 @@ export function validatePath(filePath: string): string {
   }
 
   // Sandbox check - the definitive security gate
-  const isAllowed = ALLOWED_ROOTS.some(root => {
-    const normalizedRoot = path.normalize(root);
-    return normalized === normalizedRoot ||
-           normalized.startsWith(normalizedRoot + path.sep);
-  });
+  if (!isWithinSandbox(normalized)) {
+    throw new PathOutsideSandboxError();
+  }
+
+  return normalized;
+}
 
-  if (!isAllowed) {
-    throw new Error('Path outside allowed directories');
+/**
+ * Validate a path and check its root permits an operation
+ * SECURITY: Messages never name the root, only its mode.
+ * @returns Normalized absolute path
+ * @throws OperationNotPermittedError if the root's mode forbids the operation
+ *   (and validatePath's errors)
+ */
+export function assertPathPermission(filePath: string, operation: SandboxOperation): string {
+  const normalized = validatePath(filePath);
+  const { mode } = findSandboxRoot(normalized)!;
+
+  if (operation !== 'read' && mode === 'read-only') {
+    throw new OperationNotPermittedError('Operation not permitted: sandbox root is read-only');
+  }
+  if (operation === 'delete' && mode === 'no-delete') {
+    throw new OperationNotPermittedError('Operation not permitted: sandbox root does not allow deletion');
   }
 
   return normalized;
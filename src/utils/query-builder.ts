@@ -0,0 +1,284 @@
+/**
+ * Structured Query Builder
+ *
+ * JSON query AST that compiles to escaped mdfind syntax (Spotlight) or
+ * to a parameterized SQL WHERE clause over the local index. Callers never
+ * write raw query strings, so input can't change the query structure.
+ */
+
+import { z } from 'zod';
+import { InvalidInputError } from './errors.js';
+
+export type ComparisonOp = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Date operand: relative to now (e.g. "-7d") or an absolute ISO timestamp
+ */
+export type QueryDate = { relative: string } | { iso: string };
+
+export type QueryNode =
+  | { and: QueryNode[] }
+  | { or: QueryNode[] }
+  | { not: QueryNode }
+  | {
+      attribute: string;
+      op: ComparisonOp;
+      value: string | number | QueryDate;
+      /** Treat `*` in string values as a wildcard */
+      wildcard?: boolean;
+      caseInsensitive?: boolean;
+      diacriticInsensitive?: boolean;
+    }
+  | { tag: string }
+  | { contentType: string }
+  | { text: string };
+
+export interface SqlQuery {
+  where: string;
+  params: unknown[];
+}
+
+/**
+ * Spotlight attribute names accepted in comparisons
+ */
+const ATTRIBUTE_PATTERN = /^_?kMDItem[A-Za-z0-9_]+$/;
+
+const RELATIVE_PATTERN = /^([+-]?\d+)([smhdw])$/;
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800
+};
+
+const QueryDateSchema = z.union([
+  z.object({ relative: z.string().regex(RELATIVE_PATTERN) }).strict(),
+  z.object({ iso: z.string().datetime({ offset: true }) }).strict()
+]);
+
+export const QueryNodeSchema: z.ZodType<QueryNode> = z.lazy(() => z.union([
+  z.object({ and: z.array(QueryNodeSchema).min(1) }).strict(),
+  z.object({ or: z.array(QueryNodeSchema).min(1) }).strict(),
+  z.object({ not: QueryNodeSchema }).strict(),
+  z.object({
+    attribute: z.string().regex(ATTRIBUTE_PATTERN),
+    op: z.enum(['==', '!=', '<', '<=', '>', '>=']),
+    value: z.union([z.string(), z.number().finite(), QueryDateSchema]),
+    wildcard: z.boolean().optional(),
+    caseInsensitive: z.boolean().optional(),
+    diacriticInsensitive: z.boolean().optional()
+  }).strict(),
+  z.object({ tag: z.string().min(1) }).strict(),
+  z.object({ contentType: z.string().regex(/^[A-Za-z0-9.-]+$/) }).strict(),
+  z.object({ text: z.string().min(1) }).strict()
+]));
+
+/**
+ * Validate an untrusted query AST
+ * @throws InvalidInputError describing the first invalid node
+ */
+export function parseQuery(input: unknown): QueryNode {
+  const result = QueryNodeSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new InvalidInputError(`Invalid query at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Escape a literal for use inside a double-quoted Spotlight query string
+ * Backslashes, quotes and wildcards are escaped so user input can't
+ * change the query structure.
+ */
+export function escapeQueryString(value: string): string {
+  return value.replace(/[\\"*?]/g, ch => `\\${ch}`);
+}
+
+/**
+ * Escape everything except `*`, which stays a Spotlight wildcard
+ */
+function escapeWildcardString(value: string): string {
+  return value.replace(/[\\"?]/g, ch => `\\${ch}`);
+}
+
+/**
+ * Convert a relative offset such as "-7d" to seconds
+ */
+export function relativeSeconds(relative: string): number {
+  const match = relative.match(RELATIVE_PATTERN);
+  if (!match) {
+    throw new InvalidInputError(`Invalid relative time: ${relative}`);
+  }
+  return Number(match[1]) * UNIT_SECONDS[match[2]];
+}
+
+function isQueryDate(value: unknown): value is QueryDate {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Compile to mdfind query syntax
+ */
+export function compileToMdfind(node: QueryNode): string {
+  if ('and' in node) {
+    return node.and.length === 1 ? compileToMdfind(node.and[0]) : `(${node.and.map(compileToMdfind).join(' && ')})`;
+  }
+  if ('or' in node) {
+    return node.or.length === 1 ? compileToMdfind(node.or[0]) : `(${node.or.map(compileToMdfind).join(' || ')})`;
+  }
+  if ('not' in node) {
+    return `!(${compileToMdfind(node.not)})`;
+  }
+  if ('tag' in node) {
+    return `kMDItemUserTags == "${escapeQueryString(node.tag)}"`;
+  }
+  if ('contentType' in node) {
+    return `kMDItemContentTypeTree == "${escapeQueryString(node.contentType)}"`;
+  }
+  if ('text' in node) {
+    return `kMDItemTextContent == "*${escapeQueryString(node.text)}*"`;
+  }
+
+  if (!ATTRIBUTE_PATTERN.test(node.attribute)) {
+    throw new InvalidInputError(`Invalid attribute name: ${node.attribute}`);
+  }
+
+  const { value } = node;
+  let operand: string;
+
+  if (typeof value === 'number') {
+    operand = String(value);
+  } else if (isQueryDate(value)) {
+    operand = 'relative' in value
+      ? `$time.now(${relativeSeconds(value.relative)})`
+      : `$time.iso(${new Date(value.iso).toISOString()})`;
+  } else {
+    const escaped = node.wildcard ? escapeWildcardString(value) : escapeQueryString(value);
+    const modifiers = (node.caseInsensitive ? 'c' : '') + (node.diacriticInsensitive ? 'd' : '');
+    operand = `"${escaped}"${modifiers}`;
+  }
+
+  return `${node.attribute} ${node.op} ${operand}`;
+}
+
+/**
+ * Local index columns for Spotlight attributes (table alias `f`)
+ */
+const SQL_COLUMNS: Record<string, { column: string; type: 'text' | 'number' | 'date' }> = {
+  kMDItemDisplayName: { column: 'f.name', type: 'text' },
+  kMDItemFSName: { column: 'f.name', type: 'text' },
+  kMDItemPath: { column: 'f.path', type: 'text' },
+  kMDItemKind: { column: 'f.kind', type: 'text' },
+  kMDItemFSSize: { column: 'f.size', type: 'number' },
+  kMDItemFSContentChangeDate: { column: 'f.mtime', type: 'date' },
+  kMDItemContentModificationDate: { column: 'f.mtime', type: 'date' }
+};
+
+/**
+ * File extensions standing in for content types in the local index
+ */
+const CONTENT_TYPE_EXTENSIONS: Record<string, string[]> = {
+  'public.image': ['jpg', 'jpeg', 'png', 'gif', 'heic', 'tiff', 'webp'],
+  'public.jpeg': ['jpg', 'jpeg'],
+  'public.png': ['png'],
+  'com.adobe.pdf': ['pdf'],
+  'net.daringfireball.markdown': ['md', 'markdown'],
+  'public.plain-text': ['txt'],
+  'public.text': ['txt', 'md', 'markdown', 'json', 'html', 'css', 'js', 'ts', 'py', 'sh'],
+  'public.audio': ['mp3', 'm4a', 'wav', 'aiff'],
+  'public.movie': ['mp4', 'mov', 'm4v'],
+  'public.archive': ['zip', 'gz', 'tar']
+};
+
+const TAGS_ATTRIBUTE = 'com.apple.metadata:_kMDItemUserTags';
+
+/**
+ * Convert a Spotlight wildcard pattern to a LIKE pattern (escape: \)
+ */
+function toLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, ch => `\\${ch}`).replace(/\*/g, '%');
+}
+
+/**
+ * Compile to a parameterized WHERE clause over the local index
+ * @param now - Reference time for relative dates (epoch ms)
+ * @throws InvalidInputError for predicates the local index can't answer
+ */
+export function compileToSql(node: QueryNode, now: number = Date.now()): SqlQuery {
+  if ('and' in node || 'or' in node) {
+    const children = ('and' in node ? node.and : node.or).map(child => compileToSql(child, now));
+    const joiner = 'and' in node ? ' AND ' : ' OR ';
+    return {
+      where: `(${children.map(c => c.where).join(joiner)})`,
+      params: children.flatMap(c => c.params)
+    };
+  }
+
+  if ('not' in node) {
+    const inner = compileToSql(node.not, now);
+    return { where: `NOT (${inner.where})`, params: inner.params };
+  }
+
+  if ('tag' in node) {
+    return {
+      where: `EXISTS (SELECT 1 FROM file_xattrs x, json_each(CASE WHEN json_valid(x.value) THEN x.value ELSE '[]' END) j
+        WHERE x.file_id = f.id AND x.name = ?
+        AND (lower(j.value) = lower(?) OR lower(j.value) LIKE lower(?) ESCAPE '\\'))`,
+      params: [TAGS_ATTRIBUTE, node.tag, `${toLikePattern(node.tag)}\n%`]
+    };
+  }
+
+  if ('contentType' in node) {
+    const extensions = CONTENT_TYPE_EXTENSIONS[node.contentType];
+    if (!extensions) {
+      throw new InvalidInputError(`Content type not supported by the local index: ${node.contentType}`);
+    }
+    return {
+      where: `(${extensions.map(() => "lower(f.name) LIKE ? ESCAPE '\\'").join(' OR ')})`,
+      params: extensions.map(ext => `%.${ext}`)
+    };
+  }
+
+  if ('text' in node) {
+    throw new InvalidInputError('Content search is not supported by the local index');
+  }
+
+  const mapping = SQL_COLUMNS[node.attribute];
+  if (!mapping) {
+    throw new InvalidInputError(`Attribute not supported by the local index: ${node.attribute}`);
+  }
+
+  const { value } = node;
+  const sqlOp = node.op === '==' ? '=' : node.op;
+
+  if (isQueryDate(value)) {
+    if (mapping.type !== 'date') {
+      throw new InvalidInputError(`${node.attribute} does not hold a date`);
+    }
+    const time = 'relative' in value ? now + relativeSeconds(value.relative) * 1000 : Date.parse(value.iso);
+    return { where: `${mapping.column} ${sqlOp} ?`, params: [time] };
+  }
+
+  if (typeof value === 'number') {
+    return { where: `${mapping.column} ${sqlOp} ?`, params: [value] };
+  }
+
+  if (mapping.type !== 'text') {
+    throw new InvalidInputError(`${node.attribute} does not hold text`);
+  }
+
+  if (node.wildcard && value.includes('*') && (node.op === '==' || node.op === '!=')) {
+    // LIKE is case-insensitive for ASCII; GLOB-free so escaping stays simple
+    const not = node.op === '!=' ? 'NOT ' : '';
+    return { where: `${mapping.column} ${not}LIKE ? ESCAPE '\\'`, params: [toLikePattern(value)] };
+  }
+
+  if (node.caseInsensitive) {
+    return { where: `lower(${mapping.column}) ${sqlOp} lower(?)`, params: [value] };
+  }
+
+  return { where: `${mapping.column} ${sqlOp} ?`, params: [value] };
+}
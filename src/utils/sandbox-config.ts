@@ -0,0 +1,111 @@
+/**
+ * Sandbox Configuration
+ *
+ * Loads sandbox roots and their modes. Sources, first match wins:
+ * 1. SANDBOX_ROOTS, e.g. "/srv/docs:read-only,/srv/inbox"
+ *    (entries without a mode are read-write)
+ * 2. config/sandbox.json (override with SANDBOX_CONFIG_PATH)
+ * 3. Built-in defaults
+ *
+ * Reloading keeps the current roots if the new config is invalid, so a
+ * bad edit followed by SIGHUP never widens or drops the sandbox.
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  setSandboxRoots,
+  SANDBOX_MODES,
+  DEFAULT_SANDBOX_ROOTS,
+  type SandboxMode,
+  type SandboxRoot
+} from './path-validator.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_CONFIG_PATH = join(__dirname, '..', '..', 'config', 'sandbox.json');
+
+export type SandboxSource = 'env' | 'file' | 'default';
+
+export interface SandboxLoadResult {
+  source: SandboxSource;
+  roots: number;
+}
+
+let currentSource: SandboxSource = 'default';
+
+/**
+ * Parse the SANDBOX_ROOTS list
+ * A trailing ":<mode>" is only treated as a mode when it names one.
+ */
+export function parseSandboxRootsEnv(value: string): SandboxRoot[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.lastIndexOf(':');
+    const suffix = separator > 0 ? entry.slice(separator + 1) : '';
+    if (SANDBOX_MODES.includes(suffix as SandboxMode)) {
+      return { path: entry.slice(0, separator), mode: suffix as SandboxMode };
+    }
+    return { path: entry, mode: 'read-write' as const };
+  });
+}
+
+/**
+ * Load sandbox roots from the environment, config file or defaults
+ * @throws Error if the selected source is malformed (current roots are kept)
+ */
+export function loadSandboxConfig(
+  configPath: string = process.env.SANDBOX_CONFIG_PATH || DEFAULT_CONFIG_PATH,
+  envRoots: string | undefined = process.env.SANDBOX_ROOTS
+): SandboxLoadResult {
+  let roots: SandboxRoot[];
+  let source: SandboxSource;
+
+  if (envRoots && envRoots.trim()) {
+    roots = parseSandboxRootsEnv(envRoots);
+    source = 'env';
+  } else {
+    let content: string | null = null;
+    try {
+      content = readFileSync(configPath, 'utf-8');
+    } catch {
+      // No config file: fall through to defaults
+    }
+
+    if (content === null) {
+      roots = DEFAULT_SANDBOX_ROOTS.map(root => ({ ...root }));
+      source = 'default';
+    } else {
+      const parsed = JSON.parse(content) as { roots?: Array<{ path: string; mode?: SandboxMode }> };
+      if (!Array.isArray(parsed.roots)) {
+        throw new Error('Sandbox config must contain a "roots" array');
+      }
+      roots = parsed.roots.map(root => ({ path: root.path, mode: root.mode ?? 'read-write' }));
+      source = 'file';
+    }
+  }
+
+  setSandboxRoots(roots);
+  currentSource = source;
+  return { source, roots: roots.length };
+}
+
+/**
+ * Reload sandbox roots, keeping the current ones on error
+ * @returns Load result, or null if the new config was rejected
+ */
+export function reloadSandboxConfig(): SandboxLoadResult | null {
+  try {
+    return loadSandboxConfig();
+  } catch (error) {
+    console.error(`[filesystem-guardian] Invalid sandbox config, keeping current roots: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Where the effective roots came from
+ */
+export function getSandboxSource(): SandboxSource {
+  return currentSource;
+}
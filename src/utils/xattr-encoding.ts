@@ -0,0 +1,167 @@
+/**
+ * Xattr Value Encoding
+ *
+ * Converts between raw attribute bytes and the `{ value, encoding }`
+ * representation used by tools and the HTTP API.
+ *
+ * Reads are deterministic: the same bytes always decode to the same
+ * encoding, and encoding the decoded value yields the original bytes.
+ * The one opt-in exception is plist decoding, which trades byte-exactness
+ * for readable JSON.
+ */
+
+import type { XattrEncoding, XattrValue } from '../types.js';
+import { isBinaryPlist, parseBinaryPlist, buildBinaryPlist, type PlistValue } from './bplist.js';
+
+/**
+ * An explicitly encoded value supplied by a caller
+ */
+export interface EncodedXattrInput {
+  value: unknown;
+  encoding: XattrEncoding;
+}
+
+/**
+ * Accepted write values:
+ * - string: written as UTF-8
+ * - object: written as JSON
+ * - { value, encoding }: written using the given encoding
+ *   (`plist` serializes the JSON value as a binary plist)
+ */
+export type XattrInput = string | Record<string, unknown> | EncodedXattrInput;
+
+export const XATTR_ENCODINGS: readonly XattrEncoding[] = ['utf8', 'hex', 'base64', 'json', 'plist'];
+
+const HEX_PATTERN = /^(?:[0-9A-Fa-f]{2})*$/;
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/**
+ * Check whether a write value carries an explicit encoding
+ */
+export function isEncodedInput(input: unknown): input is EncodedXattrInput {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return false;
+  const keys = Object.keys(input);
+  return keys.length === 2 &&
+    keys.includes('value') &&
+    XATTR_ENCODINGS.includes((input as EncodedXattrInput).encoding);
+}
+
+/**
+ * Convert a write value into the bytes stored on disk
+ * @throws Error if the value does not match its declared encoding
+ */
+export function encodeXattrValue(input: XattrInput): Buffer {
+  if (typeof input === 'string') {
+    return Buffer.from(input, 'utf8');
+  }
+
+  if (!isEncodedInput(input)) {
+    return Buffer.from(JSON.stringify(input), 'utf8');
+  }
+
+  const { value, encoding } = input;
+
+  switch (encoding) {
+    case 'json':
+      return Buffer.from(JSON.stringify(value), 'utf8');
+
+    case 'utf8':
+      if (typeof value !== 'string') {
+        throw new Error('utf8 value must be a string');
+      }
+      return Buffer.from(value, 'utf8');
+
+    case 'hex': {
+      if (typeof value !== 'string') {
+        throw new Error('hex value must be a string');
+      }
+      const hex = value.replace(/\s/g, '');
+      if (!HEX_PATTERN.test(hex)) {
+        throw new Error('Invalid hex value');
+      }
+      return Buffer.from(hex, 'hex');
+    }
+
+    case 'base64':
+      if (typeof value !== 'string' || !BASE64_PATTERN.test(value)) {
+        throw new Error('Invalid base64 value');
+      }
+      return Buffer.from(value, 'base64');
+
+    case 'plist':
+      if (value === undefined) {
+        throw new Error('plist value is required');
+      }
+      return buildBinaryPlist(value as PlistValue);
+
+    default:
+      throw new Error(`Unsupported encoding: ${encoding as string}`);
+  }
+}
+
+/**
+ * Decode raw attribute bytes
+ *
+ * - Binary plist, when decodePlist is set: `plist` (value converted to JSON)
+ * - Valid UTF-8 whose JSON form re-serializes to identical bytes: `json`
+ * - Other valid UTF-8: `utf8`
+ * - Anything else: `hex`
+ */
+export function decodeXattrValue(raw: Buffer, decodePlist: boolean = false): XattrValue {
+  const size = raw.length;
+
+  if (decodePlist && isBinaryPlist(raw)) {
+    try {
+      return { value: plistToJson(parseBinaryPlist(raw)), size, encoding: 'plist' };
+    } catch {
+      // Malformed plist: fall back to raw bytes
+    }
+  }
+
+  const text = raw.toString('utf8');
+
+  // Round-trip check rejects invalid sequences and lone surrogates
+  if (!Buffer.from(text, 'utf8').equals(raw) || text.includes('\0')) {
+    return { value: raw.toString('hex'), size, encoding: 'hex' };
+  }
+
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed !== null && typeof parsed === 'object' && JSON.stringify(parsed) === text) {
+      return { value: parsed, size, encoding: 'json' };
+    }
+  } catch {
+    // Not JSON
+  }
+
+  return { value: text, size, encoding: 'utf8' };
+}
+
+/**
+ * Interpret a decoded attribute as JSON for schema validation
+ * UTF-8 text is parsed as JSON when possible, otherwise kept as a string.
+ */
+export function xattrValueToJson(decoded: XattrValue): unknown {
+  if (decoded.encoding === 'utf8' && typeof decoded.value === 'string') {
+    try {
+      return JSON.parse(decoded.value);
+    } catch {
+      return decoded.value;
+    }
+  }
+  return decoded.value;
+}
+
+/**
+ * Convert a parsed plist into plain JSON
+ * Dates become ISO strings and data blobs become base64 strings.
+ */
+export function plistToJson(value: PlistValue): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('base64');
+  if (Array.isArray(value)) return value.map(plistToJson);
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, plistToJson(v)]));
+  }
+  return value;
+}
@@ -0,0 +1,162 @@
+/**
+ * AppleDouble Codec Tests
+ * Fixtures under tests/fixtures/appledouble were produced by an
+ * independent writer following the macOS copyfile layout (4096-byte file,
+ * ATTR block in the Finder Info entry, blank resource fork) and the older
+ * Finder Info + resource fork layout.
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync, writeFileSync, mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  parseAppleDouble,
+  buildAppleDouble,
+  isAppleDouble,
+  sidecarPathFor,
+  dataPathFor
+} from '../../src/utils/appledouble.js';
+import { parseBinaryPlist } from '../../src/utils/bplist.js';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { setXattrBackend } from '../../src/services/xattr-backends/index.js';
+import { listSidecar, importSidecar, exportSidecar } from '../../src/services/appledouble-service.js';
+import { createMemoryBackend, type MemoryXattrBackend } from '../helpers/memory-backend.js';
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'appledouble');
+
+function fixture(name: string): Buffer {
+  return readFileSync(join(FIXTURES, name));
+}
+
+describe('AppleDouble Codec', () => {
+
+  describe('parseAppleDouble()', () => {
+    it('should read extended attributes from a macOS sidecar', () => {
+      const attrs = parseAppleDouble(fixture('macos-attrs.adouble'));
+      assert.deepStrictEqual(Object.keys(attrs).sort(), [
+        'com.apple.FinderInfo',
+        'com.apple.metadata:_kMDItemUserTags',
+        'com.apple.quarantine',
+        'com.imminence.dewey'
+      ]);
+      assert.strictEqual(attrs['com.apple.quarantine'].toString(), '0081;6523a0b1;Safari;8C1D3F7E-5B1A-4F3E-9C2D-0A1B2C3D4E5F');
+      assert.deepStrictEqual(parseBinaryPlist(attrs['com.apple.metadata:_kMDItemUserTags']), ['Red\n6', 'Project Alpha', 'Blue\n4']);
+      assert.strictEqual(attrs['com.apple.FinderInfo'].length, 32);
+    });
+
+    it('should ignore the placeholder resource fork', () => {
+      assert.ok(!('com.apple.ResourceFork' in parseAppleDouble(fixture('macos-attrs.adouble'))));
+    });
+
+    it('should read Finder Info and a resource fork without an ATTR block', () => {
+      const attrs = parseAppleDouble(fixture('finderinfo-rsrc.adouble'));
+      assert.strictEqual(attrs['com.apple.FinderInfo'].subarray(0, 8).toString('latin1'), 'TEXTttxt');
+      assert.strictEqual(attrs['com.apple.ResourceFork'].toString(), 'custom resource fork payload');
+    });
+
+    it('should reject truncated and foreign data', () => {
+      const data = fixture('macos-attrs.adouble');
+      assert.throws(() => parseAppleDouble(data.subarray(0, 200)), { code: 'INVALID_INPUT', message: /out of bounds/ });
+      assert.throws(() => parseAppleDouble(Buffer.from('not a sidecar at all, just text')), { code: 'INVALID_INPUT', message: /Not an AppleDouble file/ });
+      assert.ok(!isAppleDouble(Buffer.alloc(10)));
+    });
+  });
+
+  describe('buildAppleDouble()', () => {
+    it('should round-trip the fixtures', () => {
+      for (const name of ['macos-attrs.adouble', 'finderinfo-rsrc.adouble']) {
+        const attrs = parseAppleDouble(fixture(name));
+        assert.deepStrictEqual(parseAppleDouble(buildAppleDouble(attrs)), attrs);
+      }
+    });
+
+    it('should write Finder Info only when there are no extended attributes', () => {
+      const built = buildAppleDouble({});
+      assert.strictEqual(built.length, 50 + 32);
+      assert.deepStrictEqual(parseAppleDouble(built), {});
+    });
+
+    it('should reject Finder Info of the wrong size', () => {
+      assert.throws(() => buildAppleDouble({ 'com.apple.FinderInfo': Buffer.alloc(16) }), /must be 32 bytes/);
+    });
+  });
+
+  describe('Sidecar paths', () => {
+    it('should map between data files and sidecars', () => {
+      assert.strictEqual(sidecarPathFor('/srv/docs/report.pdf'), '/srv/docs/._report.pdf');
+      assert.strictEqual(dataPathFor('/srv/docs/._report.pdf'), '/srv/docs/report.pdf');
+      assert.throws(() => dataPathFor('/srv/docs/report.pdf'), { code: 'INVALID_INPUT', message: /Not an AppleDouble sidecar/ });
+    });
+  });
+
+  describe('Sidecar import and export', () => {
+    let root: string;
+    let backend: MemoryXattrBackend;
+
+    before(() => {
+      openConnection(':memory:');
+      root = mkdtempSync(join(tmpdir(), 'fg-adouble-'));
+      setSandboxRoots([{ path: root, mode: 'read-write' }]);
+    });
+
+    after(() => {
+      setXattrBackend(null);
+      setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+      rmSync(root, { recursive: true, force: true });
+      closeConnection();
+    });
+
+    beforeEach(() => {
+      backend = createMemoryBackend();
+      setXattrBackend(backend);
+    });
+
+    it('should list a sidecar with decoded values', async () => {
+      writeFileSync(join(root, '._listed.pdf'), fixture('macos-attrs.adouble'));
+      const result = await listSidecar(join(root, 'listed.pdf'));
+      assert.strictEqual(result.count, 4);
+      assert.deepStrictEqual(result.attributes['com.apple.metadata:_kMDItemUserTags'].value, ['Red\n6', 'Project Alpha', 'Blue\n4']);
+    });
+
+    it('should import a sidecar into xattrs and optionally delete it', async () => {
+      const data = join(root, 'imported.pdf');
+      writeFileSync(data, '');
+      writeFileSync(join(root, '._imported.pdf'), fixture('macos-attrs.adouble'));
+
+      const result = await importSidecar(join(root, '._imported.pdf'), { deleteSidecar: true });
+
+      assert.strictEqual(result.set.length, 4);
+      assert.ok(result.sidecar_deleted);
+      assert.ok(!existsSync(join(root, '._imported.pdf')));
+      assert.strictEqual(backend.files.get(data)!.get('com.imminence.dewey')!.toString(), '{"code":"004.6","label":"networking"}');
+    });
+
+    it('should keep existing attributes with skip_existing', async () => {
+      const data = join(root, 'kept.pdf');
+      backend.files.set(data, new Map([['com.apple.quarantine', Buffer.from('local')]]));
+      writeFileSync(join(root, '._kept.pdf'), fixture('macos-attrs.adouble'));
+
+      const result = await importSidecar(data, { skipExisting: true });
+      assert.deepStrictEqual(result.skipped, ['com.apple.quarantine']);
+      assert.strictEqual(backend.files.get(data)!.get('com.apple.quarantine')!.toString(), 'local');
+    });
+
+    it('should export xattrs to a sidecar that imports back identically', async () => {
+      const source = join(root, 'exported.pdf');
+      const attrs = parseAppleDouble(fixture('macos-attrs.adouble'));
+      backend.files.set(source, new Map(Object.entries(attrs)));
+
+      const result = await exportSidecar(source);
+      assert.strictEqual(result.sidecar, join(root, '._exported.pdf'));
+      assert.deepStrictEqual(parseAppleDouble(readFileSync(result.sidecar)), attrs);
+
+      await assert.rejects(exportSidecar(source), /already exists/);
+      await assert.doesNotReject(exportSidecar(source, { names: ['com.apple.quarantine'], overwrite: true }));
+      assert.deepStrictEqual(Object.keys(parseAppleDouble(readFileSync(result.sidecar))), ['com.apple.quarantine']);
+    });
+  });
+});
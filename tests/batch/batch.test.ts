@@ -0,0 +1,139 @@
+/**
+ * Batch Tool Call Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { setTimeout as sleep } from 'timers/promises';
+import { runBatch, BATCH_MAX_CALLS, type ToolHandler } from '../../src/services/batch-service.js';
+import { handleBatch } from '../../src/tools/batch.js';
+import { GuardianError, InvalidInputError, XattrNotFoundError } from '../../src/utils/errors.js';
+
+function createHandlers() {
+  let active = 0;
+  let peak = 0;
+  const started: string[] = [];
+
+  const handlers: Record<string, ToolHandler> = {
+    echo: async (args) => {
+      const { value, delay } = args as { value: string; delay?: number };
+      started.push(value);
+      active++;
+      peak = Math.max(peak, active);
+      await sleep(delay ?? 5);
+      active--;
+      return { value };
+    },
+    missing: async () => {
+      throw new XattrNotFoundError('user.a');
+    },
+    crash: () => {
+      throw new Error('EIO reading /srv/private/file');
+    }
+  };
+
+  return { handlers, started, peak: () => peak };
+}
+
+describe('Batch Tool Calls', () => {
+  it('should return one result per call in request order', async () => {
+    const { handlers } = createHandlers();
+    const result = await runBatch([
+      { tool: 'echo', arguments: { value: 'slow', delay: 30 } },
+      { tool: 'missing' },
+      { tool: 'echo', arguments: { value: 'fast', delay: 1 } }
+    ], handlers);
+
+    assert.deepStrictEqual(result.results.map(r => r.status), ['ok', 'error', 'ok']);
+    assert.deepStrictEqual(result.results[0], { index: 0, tool: 'echo', status: 'ok', result: { value: 'slow' } });
+    assert.deepStrictEqual(result.results[1], {
+      index: 1,
+      tool: 'missing',
+      status: 'error',
+      error: { code: 'XATTR_NOT_FOUND', message: 'Attribute not found: user.a', details: { name: 'user.a' } }
+    });
+    assert.deepStrictEqual([result.succeeded, result.failed, result.skipped], [2, 1, 0]);
+  });
+
+  it('should bound the calls in flight', async () => {
+    const { handlers, peak } = createHandlers();
+    const calls = Array.from({ length: 10 }, (_, i) => ({ tool: 'echo', arguments: { value: String(i) } }));
+
+    await runBatch(calls, handlers, { concurrency: 3 });
+    assert.strictEqual(peak(), 3);
+  });
+
+  it('should skip calls not yet started after a failure with stopOnError', async () => {
+    const { handlers, started } = createHandlers();
+    const result = await runBatch([
+      { tool: 'echo', arguments: { value: 'a' } },
+      { tool: 'missing' },
+      { tool: 'echo', arguments: { value: 'b' } },
+      { tool: 'echo', arguments: { value: 'c' } }
+    ], handlers, { concurrency: 1, stopOnError: true });
+
+    assert.deepStrictEqual(result.results.map(r => r.status), ['ok', 'error', 'skipped', 'skipped']);
+    assert.deepStrictEqual(started, ['a']);
+    assert.strictEqual(result.skipped, 2);
+  });
+
+  it('should report unknown tools, nested batches and refused calls per entry', async () => {
+    const { handlers } = createHandlers();
+    const result = await runBatch([
+      { tool: 'nope' },
+      { tool: 'batch', arguments: { calls: [] } },
+      { tool: 'echo', arguments: { value: 'a' } }
+    ], handlers, {
+      authorize: (tool) => {
+        if (tool === 'echo') throw new GuardianError('FORBIDDEN', 'Token lacks required scope: admin', { scope: 'admin' });
+      }
+    });
+
+    const codes = result.results.map(r => r.status === 'error' ? r.error.code : r.status);
+    assert.deepStrictEqual(codes, ['NOT_FOUND', 'INVALID_INPUT', 'FORBIDDEN']);
+  });
+
+  it('should withhold unclassified messages unless exposed', async () => {
+    const { handlers } = createHandlers();
+    const hidden = await runBatch([{ tool: 'crash' }], handlers);
+    const shown = await runBatch([{ tool: 'crash' }], handlers, { exposeInternal: true });
+
+    const message = (entry: typeof hidden.results[number]) => entry.status === 'error' ? entry.error.message : '';
+    assert.strictEqual(message(hidden.results[0]), 'Internal server error');
+    assert.ok(message(shown.results[0]).startsWith('EIO'));
+    assert.ok(!message(shown.results[0]).includes('/srv/private'));
+  });
+
+  it('should reject invalid arguments without running the call', async () => {
+    const { handlers, started } = createHandlers();
+    const result = await runBatch([{ tool: 'echo', arguments: { value: 42 } }, { tool: 'echo', arguments: { value: 'ok' } }], handlers, {
+      validate: (_tool, args) => {
+        if (typeof (args as { value: unknown }).value !== 'string') {
+          throw new InvalidInputError('value must be a string');
+        }
+      }
+    });
+
+    assert.ok(result.results[0].status === 'error' && result.results[0].error.code === 'INVALID_INPUT');
+    assert.deepStrictEqual(started, ['ok']);
+  });
+
+  it('should reject empty and oversized batches', async () => {
+    const { handlers } = createHandlers();
+    await assert.rejects(runBatch([], handlers), /at least one call/);
+
+    const calls = Array.from({ length: BATCH_MAX_CALLS + 1 }, () => ({ tool: 'echo' }));
+    await assert.rejects(handleBatch({ calls }, handlers));
+  });
+
+  it('should run calls through the tool', async () => {
+    const { handlers } = createHandlers();
+    const result = await handleBatch({
+      calls: [{ tool: 'echo', arguments: { value: 'x' } }, { tool: 'crash' }],
+      stop_on_error: true
+    }, handlers);
+
+    assert.strictEqual(result.succeeded, 1);
+    assert.ok(result.results[1].status === 'error' && result.results[1].error.message !== 'Internal server error');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Local Metadata Index Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import {
+  upsertIndexedFile,
+  removeIndexedPath,
+  removeStaleEntries,
+  searchIndexedFiles,
+  getIndexedXattrs,
+  getIndexStats
+} from '../../src/database/file-index.js';
+import { toFtsQuery } from '../../src/services/local-index-service.js';
+
+const ROOT = '/sandbox/Dropository';
+
+function file(name: string, dir: string = ROOT) {
+  return { path: `${dir}/${name}`, name, size: 10, mtime: Date.now(), kind: 'Document' };
+}
+
+describe('Local Metadata Index', () => {
+  before(() => {
+    openConnection(':memory:');
+  });
+
+  after(() => {
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    getConnection().exec('DELETE FROM file_xattrs; DELETE FROM file_index_fts; DELETE FROM file_index;');
+  });
+
+  describe('Full-Text Search', () => {
+    it('should match file names', () => {
+      upsertIndexedFile(file('quarterly-report.pdf'), {});
+      upsertIndexedFile(file('notes.md'), {});
+      const rows = searchIndexedFiles(toFtsQuery('quarterly'), [], 10);
+      assert.deepStrictEqual(rows.map(r => r.name), ['quarterly-report.pdf']);
+    });
+
+    it('should match xattr names and values', () => {
+      upsertIndexedFile(file('a.md'), { 'com.imminence.dewey': '{"code":"004.6","label":"networking"}' });
+      upsertIndexedFile(file('b.md'), { 'com.apple.metadata:_kMDItemUserTags': '["Red\\n6"]' });
+      assert.deepStrictEqual(searchIndexedFiles(toFtsQuery('networking'), [], 10).map(r => r.name), ['a.md']);
+      assert.deepStrictEqual(searchIndexedFiles(toFtsQuery('dewey'), [], 10).map(r => r.name), ['a.md']);
+    });
+
+    it('should support prefix terms', () => {
+      upsertIndexedFile(file('architecture.md'), {});
+      assert.strictEqual(searchIndexedFiles(toFtsQuery('archi*'), [], 10).length, 1);
+    });
+
+    it('should restrict results to scope directories', () => {
+      upsertIndexedFile(file('plan.md', `${ROOT}/alpha`), {});
+      upsertIndexedFile(file('plan.md', `${ROOT}/alphabet`), {});
+      const rows = searchIndexedFiles(toFtsQuery('plan'), [`${ROOT}/alpha`], 10);
+      assert.deepStrictEqual(rows.map(r => r.path), [`${ROOT}/alpha/plan.md`]);
+    });
+
+    it('should replace xattrs on re-index', () => {
+      upsertIndexedFile(file('a.md'), { x: 'old' });
+      upsertIndexedFile(file('a.md'), { y: 'new' });
+      const [row] = searchIndexedFiles(toFtsQuery('new'), [], 10);
+      assert.deepStrictEqual(getIndexedXattrs(row.id), { y: 'new' });
+      assert.strictEqual(searchIndexedFiles(toFtsQuery('old'), [], 10).length, 0);
+    });
+  });
+
+  describe('Removal', () => {
+    it('should remove a directory and its children', () => {
+      upsertIndexedFile(file('dir', ROOT), {});
+      upsertIndexedFile(file('child.md', `${ROOT}/dir`), {});
+      upsertIndexedFile(file('dir2', ROOT), {});
+      assert.strictEqual(removeIndexedPath(`${ROOT}/dir`), 2);
+      assert.strictEqual(getIndexStats().files, 1);
+    });
+
+    it('should remove entries not seen since a crawl started', async () => {
+      upsertIndexedFile(file('gone.md'), {});
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const startedAt = Date.now();
+      upsertIndexedFile(file('kept.md'), {});
+      assert.strictEqual(removeStaleEntries(ROOT, startedAt), 1);
+      assert.strictEqual(getIndexStats().files, 1);
+    });
+  });
+
+  describe('toFtsQuery()', () => {
+    it('should quote every term', () => {
+      assert.strictEqual(toFtsQuery('annual report'), '"annual" "report"');
+    });
+
+    it('should neutralize FTS operators and quotes', () => {
+      assert.strictEqual(toFtsQuery('a OR b"c NEAR('), '"a" "OR" "b""c" "NEAR("');
+    });
+
+    it('should reject empty queries', () => {
+      assert.throws(() => toFtsQuery('   '), /must not be empty/);
+    });
+  });
+});
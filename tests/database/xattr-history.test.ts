@@ -0,0 +1,86 @@
+/**
+ * Xattr History Store Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import {
+  recordXattrChange,
+  getXattrHistoryRows,
+  getEarliestChangesSince,
+  pruneXattrHistory,
+  setHistoryRetention
+} from '../../src/database/xattr-history.js';
+
+const PATH = '/sandbox/doc.md';
+
+describe('Xattr History Store', () => {
+  before(() => {
+    openConnection(':memory:');
+  });
+
+  after(() => {
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    getConnection().exec('DELETE FROM xattr_history');
+    setHistoryRetention({ maxAgeDays: 30, maxEntries: 100000 });
+  });
+
+  it('should store previous and new bytes', () => {
+    const id = recordXattrChange(PATH, 'com.imminence.dewey', 'set', null, Buffer.from('{"code":"000"}'));
+    const [row] = getXattrHistoryRows(PATH);
+    assert.strictEqual(row.id, id);
+    assert.strictEqual(row.old_value, null);
+    assert.deepStrictEqual(row.new_value, Buffer.from('{"code":"000"}'));
+  });
+
+  it('should return history newest first and filter by attribute', () => {
+    recordXattrChange(PATH, 'a', 'set', null, Buffer.from('1'));
+    recordXattrChange(PATH, 'b', 'set', null, Buffer.from('2'));
+    recordXattrChange(PATH, 'a', 'set', Buffer.from('1'), Buffer.from('3'));
+
+    assert.deepStrictEqual(getXattrHistoryRows(PATH).map(r => r.attribute), ['a', 'b', 'a']);
+    assert.strictEqual(getXattrHistoryRows(PATH, 'a').length, 2);
+    assert.strictEqual(getXattrHistoryRows('/other').length, 0);
+  });
+
+  it('should find the earliest change per attribute since an operation', () => {
+    recordXattrChange(PATH, 'a', 'set', null, Buffer.from('1'));
+    const from = recordXattrChange(PATH, 'a', 'set', Buffer.from('1'), Buffer.from('2'));
+    recordXattrChange(PATH, 'a', 'set', Buffer.from('2'), Buffer.from('3'));
+    recordXattrChange(PATH, 'b', 'delete', Buffer.from('x'), null);
+
+    const changes = getEarliestChangesSince(PATH, { id: from });
+    assert.strictEqual(changes.length, 2);
+    assert.deepStrictEqual(changes.find(c => c.attribute === 'a')?.old_value, Buffer.from('1'));
+    assert.deepStrictEqual(changes.find(c => c.attribute === 'b')?.old_value, Buffer.from('x'));
+    assert.strictEqual(getEarliestChangesSince(PATH, { id: from }, 'b').length, 1);
+  });
+
+  it('should find changes after a timestamp', () => {
+    const before = Date.now() - 1;
+    recordXattrChange(PATH, 'a', 'set', null, Buffer.from('1'));
+    assert.strictEqual(getEarliestChangesSince(PATH, { timestamp: before }).length, 1);
+    assert.strictEqual(getEarliestChangesSince(PATH, { timestamp: Date.now() + 1000 }).length, 0);
+  });
+
+  it('should prune by entry count', () => {
+    for (let i = 0; i < 10; i++) {
+      recordXattrChange(PATH, 'a', 'set', null, Buffer.from(String(i)));
+    }
+    setHistoryRetention({ maxEntries: 3 });
+    assert.strictEqual(pruneXattrHistory(), 7);
+    assert.deepStrictEqual(getXattrHistoryRows(PATH).map(r => r.new_value?.toString()), ['9', '8', '7']);
+  });
+
+  it('should prune by age', () => {
+    recordXattrChange(PATH, 'a', 'set', null, Buffer.from('old'));
+    getConnection().prepare('UPDATE xattr_history SET created_at = ?').run(Date.now() - 40 * 86400000);
+    recordXattrChange(PATH, 'a', 'set', null, Buffer.from('new'));
+    assert.strictEqual(pruneXattrHistory(), 1);
+    assert.strictEqual(getXattrHistoryRows(PATH).length, 1);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * In-memory xattr backend for tests
+ */
+
+import type { XattrBackend } from '../../src/services/xattr-backends/types.js';
+
+export interface MemoryXattrBackend extends XattrBackend {
+  files: Map<string, Map<string, Buffer>>;
+  /** Path prefixes that behave like a volume without xattr support */
+  unsupported: Set<string>;
+}
+
+export function createMemoryBackend(): MemoryXattrBackend {
+  const files = new Map<string, Map<string, Buffer>>();
+  const unsupported = new Set<string>();
+  const attrs = (path: string) => {
+    if ([...unsupported].some(prefix => path.startsWith(prefix))) {
+      throw new Error(`Command failed: setfattr\nsetfattr: ${path}: Operation not supported`);
+    }
+    if (!files.has(path)) files.set(path, new Map());
+    return files.get(path)!;
+  };
+
+  return {
+    name: 'memory',
+    files,
+    unsupported,
+    async list(path) {
+      return [...attrs(path).keys()];
+    },
+    async read(path, name) {
+      const value = attrs(path).get(name);
+      if (!value) throw new Error(`No such xattr: ${name}`);
+      return value;
+    },
+    async write(path, name, value) {
+      attrs(path).set(name, Buffer.from(value));
+    },
+    async remove(path, name) {
+      if (!attrs(path).delete(name)) throw new Error(`No such xattr: ${name}`);
+    }
+  };
+}
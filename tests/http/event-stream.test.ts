@@ -0,0 +1,161 @@
+/**
+ * SSE Event Stream Tests
+ */
+
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { createServer, get, type Server, type ClientRequest, type IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { setTimeout as sleep } from 'timers/promises';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { publishWatchEvent, type WatchEvent } from '../../src/services/watch-events.js';
+import { startEventLog, stopEventLog } from '../../src/services/event-log-service.js';
+import { describeError, ERROR_STATUS } from '../../src/utils/errors.js';
+import {
+  handleEventStream,
+  setEventStreamLimits,
+  getEventStreamCount,
+  closeEventStreams
+} from '../../src/http/event-stream.js';
+
+interface StreamClient {
+  request: ClientRequest;
+  response: IncomingMessage;
+  data: () => string;
+}
+
+const ROOT = '/srv/stream';
+
+function event(path: string, type: WatchEvent['type'] = 'created', watchId: string = 'w1'): WatchEvent {
+  return { watchId, type, path: `${ROOT}/${path}`, timestamp: new Date().toISOString() };
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) await sleep(10);
+}
+
+/** Payloads of the watch events received so far */
+function watchEvents(raw: string): WatchEvent[] {
+  return raw.split('\n\n')
+    .filter(block => block.includes('event: watch'))
+    .map(block => JSON.parse(block.split('\n').find(line => line.startsWith('data: '))!.slice(6)));
+}
+
+describe('SSE Event Stream', () => {
+  let server: Server;
+  let base: string;
+  const clients: StreamClient[] = [];
+
+  function connect(query: string = '', headers: Record<string, string> = {}): Promise<StreamClient> {
+    return new Promise((resolve, reject) => {
+      const request = get(`${base}/api/events/stream${query}`, { headers }, response => {
+        let data = '';
+        response.setEncoding('utf8');
+        response.on('data', chunk => { data += chunk; });
+        const client = { request, response, data: () => data };
+        clients.push(client);
+        resolve(client);
+      });
+      request.on('error', reject);
+    });
+  }
+
+  before(async () => {
+    openConnection(':memory:');
+    setSandboxRoots([{ path: ROOT, mode: 'read-write' }]);
+    startEventLog();
+    server = createServer((req, res) => {
+      handleEventStream(req, res).catch(error => {
+        const { code, message } = describeError(error);
+        res.writeHead(ERROR_STATUS[code], { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: message, code }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    closeEventStreams();
+    stopEventLog();
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    await new Promise(resolve => server.close(resolve));
+    closeConnection();
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) client.request.destroy();
+    await waitFor(() => getEventStreamCount() === 0);
+    setEventStreamLimits({ maxStreams: 20, heartbeatMs: 15_000 });
+  });
+
+  it('should stream events with their sequence numbers', async () => {
+    const client = await connect();
+    assert.strictEqual(client.response.headers['content-type'], 'text/event-stream');
+
+    publishWatchEvent(event('a.pdf'));
+    await waitFor(() => watchEvents(client.data()).length === 1);
+
+    const [received] = watchEvents(client.data());
+    assert.strictEqual(received.path, `${ROOT}/a.pdf`);
+    assert.match(client.data(), new RegExp(`id: ${received.seq}\\n`));
+  });
+
+  it('should apply watch, path and type filters', async () => {
+    const client = await connect(`?watch_id=w1&path=${ROOT}/docs/&events=created,renamed`);
+
+    publishWatchEvent(event('docs/in.md'));
+    publishWatchEvent(event('docsextra/out.md'));
+    publishWatchEvent(event('docs/in.md', 'modified'));
+    publishWatchEvent(event('docs/in.md', 'created', 'w2'));
+    publishWatchEvent({ ...event('other/moved.md', 'renamed'), from: `${ROOT}/docs/moved.md` });
+    await waitFor(() => watchEvents(client.data()).length === 2);
+    await sleep(20);
+
+    assert.deepStrictEqual(watchEvents(client.data()).map(e => e.path), [`${ROOT}/docs/in.md`, `${ROOT}/other/moved.md`]);
+  });
+
+  it('should replay missed events after Last-Event-ID', async () => {
+    const first = await connect();
+    publishWatchEvent(event('one.pdf'));
+    await waitFor(() => watchEvents(first.data()).length === 1);
+    const lastId = watchEvents(first.data())[0].seq!;
+
+    publishWatchEvent(event('two.pdf'));
+    publishWatchEvent(event('three.pdf'));
+
+    const resumed = await connect('', { 'Last-Event-ID': String(lastId) });
+    publishWatchEvent(event('four.pdf'));
+    await waitFor(() => watchEvents(resumed.data()).length === 3);
+
+    assert.deepStrictEqual(
+      watchEvents(resumed.data()).map(e => e.path),
+      [`${ROOT}/two.pdf`, `${ROOT}/three.pdf`, `${ROOT}/four.pdf`]
+    );
+  });
+
+  it('should send heartbeats', async () => {
+    setEventStreamLimits({ heartbeatMs: 10 });
+    const client = await connect();
+    await waitFor(() => client.data().includes(': heartbeat'));
+    assert.ok(client.data().includes(': heartbeat\n\n'));
+  });
+
+  it('should limit concurrent streams', async () => {
+    setEventStreamLimits({ maxStreams: 1 });
+    await connect();
+    const rejected = await connect();
+    assert.strictEqual(rejected.response.statusCode, 429);
+
+    clients[0].request.destroy();
+    await waitFor(() => getEventStreamCount() === 0);
+    const accepted = await connect();
+    assert.strictEqual(accepted.response.statusCode, 200);
+  });
+
+  it('should reject invalid parameters', async () => {
+    assert.strictEqual((await connect('?events=exploded')).response.statusCode, 400);
+    assert.strictEqual((await connect('', { 'Last-Event-ID': 'abc' })).response.statusCode, 400);
+  });
+});
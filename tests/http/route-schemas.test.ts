@@ -0,0 +1,133 @@
+/**
+ * Route Schema and OpenAPI Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  ROUTE_SCHEMAS,
+  RequestValidationError,
+  queryToObject,
+  validateRouteInput,
+  validateToolArguments
+} from '../../src/http/route-schemas.js';
+import { buildOpenApiDocument } from '../../src/http/openapi.js';
+import { ADD_TAGS_TOOL } from '../../src/tools/add-tags.js';
+import { CONFIGURE_WATCH_TOOL } from '../../src/tools/configure-watch.js';
+
+function rejection(fn: () => unknown): RequestValidationError {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof RequestValidationError);
+    return error;
+  }
+  assert.fail('Expected a validation error');
+}
+
+describe('Route Schemas', () => {
+  it('should compile every route schema', () => {
+    // Missing required fields are fine here; unsupported schemas are not
+    for (const [key, route] of Object.entries(ROUTE_SCHEMAS)) {
+      try {
+        validateRouteInput(route.body ?? route.query, {}, route.validator);
+      } catch (error) {
+        assert.ok(error instanceof RequestValidationError, `${key}: ${(error as Error).message}`);
+      }
+    }
+  });
+
+  it('should report field-level errors', () => {
+    const error = rejection(() => validateRouteInput(ROUTE_SCHEMAS['POST /api/xattr/set'].body, {
+      path: 42,
+      create_only: 'yes'
+    }));
+    assert.deepStrictEqual(error.issues.map(i => i.path).sort(), ['attributes', 'create_only', 'path']);
+  });
+
+  it('should reject bodies that are not objects', () => {
+    const schema = ROUTE_SCHEMAS['POST /api/watch/stop'].body;
+    assert.match(rejection(() => validateRouteInput(schema, [1, 2])).message, /JSON object/);
+    assert.match(rejection(() => validateRouteInput(schema, null)).message, /JSON object/);
+  });
+
+  it('should validate nested tool schemas', () => {
+    const schema = ROUTE_SCHEMAS['POST /api/tags/add'].body;
+    assert.ok(validateRouteInput(schema, { path: '/a', tags: [{ name: 'Blue', color: 'blue' }] }));
+    const error = rejection(() => validateRouteInput(schema, { path: '/a', tags: [{ color: 'mauve' }] }));
+    assert.deepStrictEqual(error.issues.map(i => i.path).sort(), ['tags.0.color', 'tags.0.name']);
+  });
+
+  it("should apply the tool schema's refinements", () => {
+    const { body, validator } = ROUTE_SCHEMAS['POST /api/xattr/rollback'];
+    assert.ok(validateRouteInput(body, { path: '/a', operation_id: 3 }, validator));
+    const both = rejection(() => validateRouteInput(body, { path: '/a', operation_id: 3, timestamp: 0 }, validator));
+    assert.match(both.issues[0].message, /exactly one of operation_id or timestamp/);
+    rejection(() => validateRouteInput(body, { path: '/a' }, validator));
+  });
+
+  it('should accept null to clear webhook filters', () => {
+    const schema = ROUTE_SCHEMAS['POST /api/webhooks/update'].body;
+    assert.ok(validateRouteInput(schema, { id: 'w', paths: null, events: null }));
+    rejection(() => validateRouteInput(schema, { id: 'w', events: ['exploded'] }));
+  });
+
+  it("should check tool arguments against the tool's inputSchema", () => {
+    validateToolArguments(ADD_TAGS_TOOL, { path: '/a', tags: [{ name: 'Blue' }] });
+    const error = rejection(() => validateToolArguments(ADD_TAGS_TOOL, { path: 42 }));
+    assert.strictEqual(error.code, 'INVALID_INPUT');
+    assert.deepStrictEqual(error.issues.map(i => i.path).sort(), ['path', 'tags']);
+  });
+
+  it('should cap the search page size', () => {
+    const schema = ROUTE_SCHEMAS['POST /api/spotlight/search'].body;
+    assert.ok(validateRouteInput(schema, { query: 'kind:pdf', limit: 1000 }));
+    const error = rejection(() => validateRouteInput(schema, { query: 'kind:pdf', limit: 1001 }));
+    assert.deepStrictEqual(error.issues.map(i => i.path), ['limit']);
+  });
+
+  it('should convert typed query parameters', () => {
+    const schema = ROUTE_SCHEMAS['GET /api/events'].query;
+    const query = queryToObject(new URLSearchParams('since=12&limit=5&watch_id=7'), schema);
+    assert.deepStrictEqual(query, { since: 12, limit: 5, watch_id: '7' });
+    assert.deepStrictEqual(validateRouteInput(schema, query), query);
+
+    const invalid = queryToObject(new URLSearchParams('since=abc'), schema);
+    assert.deepStrictEqual(rejection(() => validateRouteInput(schema, invalid)).issues.map(i => i.path), ['since']);
+  });
+});
+
+describe('OpenAPI Document', () => {
+  const doc = buildOpenApiDocument([ADD_TAGS_TOOL, CONFIGURE_WATCH_TOOL], {
+    routes: { 'GET /api/tools': null, 'POST /api/tags/add': 'tags' },
+    tools: { add_tags: 'tags' }
+  }) as any;
+
+  it('should describe every route', () => {
+    for (const key of Object.keys(ROUTE_SCHEMAS)) {
+      const [method, path] = key.split(' ');
+      assert.ok(doc.paths[path]?.[method.toLowerCase()], key);
+    }
+  });
+
+  it('should use the route schemas for bodies and parameters', () => {
+    assert.strictEqual(
+      doc.paths['/api/tags/add'].post.requestBody.content['application/json'].schema,
+      ROUTE_SCHEMAS['POST /api/tags/add'].body
+    );
+    const params = doc.paths['/api/events'].get.parameters.map((p: { name: string }) => p.name);
+    assert.deepStrictEqual(params, ['since', 'limit', 'watch_id']);
+  });
+
+  it('should include each tool with its inputSchema and scope', () => {
+    const addTags = doc.paths['/api/tools/add_tags'].post;
+    assert.strictEqual(addTags.requestBody.content['application/json'].schema, ADD_TAGS_TOOL.inputSchema);
+    assert.strictEqual(addTags['x-required-scope'], 'tags');
+    assert.strictEqual(doc.paths['/api/tools/configure_watch'].post['x-required-scope'], 'admin');
+  });
+
+  it('should mark public routes', () => {
+    assert.deepStrictEqual(doc.paths['/api/tools'].get.security, []);
+    assert.strictEqual(doc.paths['/api/sandbox'].get['x-required-scope'], 'admin');
+  });
+});
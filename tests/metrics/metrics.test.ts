@@ -0,0 +1,125 @@
+/**
+ * Metrics Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { publishWatchEvent } from '../../src/services/watch-events.js';
+import {
+  incrementCounter,
+  countToolCall,
+  timeSubprocess,
+  recordWatchEvent,
+  setMetricsSources,
+  startMetrics,
+  stopMetrics,
+  resetMetrics,
+  renderMetrics
+} from '../../src/services/metrics-service.js';
+
+/** Value of one series, e.g. 'fg_tool_calls_total{tool="get_xattr",...}' */
+function sample(text: string, series: string): number | undefined {
+  const line = text.split('\n').find(l => l.startsWith(series + ' '));
+  return line ? Number(line.slice(series.length + 1)) : undefined;
+}
+
+describe('Metrics', () => {
+  before(() => {
+    openConnection(':memory:');
+    setSandboxRoots([{ path: '/srv/metrics', mode: 'read-write' }]);
+  });
+
+  after(() => {
+    stopMetrics();
+    resetMetrics();
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it('should render counters with HELP, TYPE and labels', () => {
+    incrementCounter('fg_http_requests_total', { method: 'GET', route: '/api/tools', status: '200' });
+    incrementCounter('fg_http_requests_total', { method: 'GET', route: '/api/tools', status: '200' });
+    incrementCounter('fg_rate_limit_rejections_total');
+
+    const text = renderMetrics();
+    assert.ok(text.includes('# TYPE fg_http_requests_total counter\n'));
+    assert.strictEqual(sample(text, 'fg_http_requests_total{method="GET",route="/api/tools",status="200"}'), 2);
+    assert.strictEqual(sample(text, 'fg_rate_limit_rejections_total'), 1);
+  });
+
+  it('should leave out metrics without series', () => {
+    assert.ok(!renderMetrics().includes('fg_tool_calls_total'));
+  });
+
+  it('should escape label values', () => {
+    incrementCounter('fg_tool_calls_total', { tool: 'a"b\\c\nd', transport: 'mcp', status: 'ok' });
+    assert.ok(renderMetrics().includes('tool="a\\"b\\\\c\\nd"'));
+  });
+
+  it('should count tool calls by outcome', async () => {
+    await countToolCall('get_xattr', 'mcp', () => ({ ok: true }));
+    await assert.rejects(countToolCall('get_xattr', 'mcp', () => { throw new Error('nope'); }));
+
+    const text = renderMetrics();
+    assert.strictEqual(sample(text, 'fg_tool_calls_total{tool="get_xattr",transport="mcp",status="ok"}'), 1);
+    assert.strictEqual(sample(text, 'fg_tool_calls_total{tool="get_xattr",transport="mcp",status="error"}'), 1);
+  });
+
+  it('should time subprocesses into cumulative buckets, failures included', async () => {
+    await timeSubprocess('mdls', async () => 'fast');
+    await assert.rejects(timeSubprocess('mdls', () => new Promise((_, reject) => setTimeout(() => reject(new Error('x')), 30))));
+
+    const text = renderMetrics();
+    assert.ok(text.includes('# TYPE fg_subprocess_duration_seconds histogram\n'));
+    assert.strictEqual(sample(text, 'fg_subprocess_duration_seconds_bucket{command="mdls",le="0.01"}'), 1);
+    assert.strictEqual(sample(text, 'fg_subprocess_duration_seconds_bucket{command="mdls",le="+Inf"}'), 2);
+    assert.strictEqual(sample(text, 'fg_subprocess_duration_seconds_count{command="mdls"}'), 2);
+    assert.ok(sample(text, 'fg_subprocess_duration_seconds_sum{command="mdls"}')! >= 0.03);
+  });
+
+  it('should count watch events and their rate over the last minute', () => {
+    startMetrics();
+    publishWatchEvent({ watchId: 'w1', type: 'created', path: '/srv/metrics/a', timestamp: new Date().toISOString() });
+    stopMetrics();
+    for (let i = 0; i < 59; i++) recordWatchEvent();
+    recordWatchEvent(Date.now() - 120_000);
+
+    const text = renderMetrics();
+    assert.strictEqual(sample(text, 'fg_watch_events_total'), 61);
+    assert.strictEqual(sample(text, 'fg_watch_events_per_second'), 1);
+  });
+
+  it('should read gauges from their sources at scrape time', () => {
+    let watches = 2;
+    setMetricsSources({
+      activeWatches: () => watches,
+      interlockStats: () => ({ messagesSent: 7, messagesReceived: 3, peers: [{}, {}], serverId: 'fg' })
+    });
+    watches = 3;
+
+    const text = renderMetrics();
+    assert.strictEqual(sample(text, 'fg_active_watches'), 3);
+    assert.strictEqual(sample(text, 'fg_interlock_peers'), 2);
+    assert.strictEqual(sample(text, 'fg_interlock_stats{stat="messagesSent"}'), 7);
+    assert.strictEqual(sample(text, 'fg_interlock_stats{stat="messagesReceived"}'), 3);
+    assert.ok(!text.includes('stat="serverId"'));
+    assert.ok(sample(text, 'fg_database_size_bytes')! > 0);
+  });
+
+  it('should skip sources that fail', () => {
+    setMetricsSources({
+      activeWatches: () => { throw new Error('not started'); },
+      interlockStats: () => null
+    });
+
+    const text = renderMetrics();
+    assert.ok(!text.includes('fg_active_watches'));
+    assert.ok(!text.includes('fg_interlock'));
+  });
+});
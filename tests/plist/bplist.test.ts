@@ -0,0 +1,151 @@
+/**
+ * Binary Plist Codec Tests
+ * Fixtures under tests/fixtures/plist were produced by an independent
+ * bplist00 writer, so these run on any OS.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseBinaryPlist, buildBinaryPlist, isBinaryPlist } from '../../src/utils/bplist.js';
+import { decodeXattrValue, encodeXattrValue } from '../../src/utils/xattr-encoding.js';
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'plist');
+
+function fixture(name: string): Buffer {
+  return readFileSync(join(FIXTURES, name));
+}
+
+describe('Binary Plist Codec', () => {
+
+  describe('parseBinaryPlist()', () => {
+    it('should decode Finder tags', () => {
+      assert.deepStrictEqual(parseBinaryPlist(fixture('finder-tags.bplist')), [
+        'Red\n6',
+        'Project Alpha',
+        'Blue\n4'
+      ]);
+    });
+
+    it('should decode WhereFroms', () => {
+      assert.deepStrictEqual(parseBinaryPlist(fixture('where-froms.bplist')), [
+        'https://example.com/downloads/report.pdf',
+        'https://example.com/'
+      ]);
+    });
+
+    it('should decode every scalar type', () => {
+      const value = parseBinaryPlist(fixture('mixed.bplist')) as Record<string, unknown>;
+      assert.strictEqual(value.name, 'Guardian');
+      assert.strictEqual(value.unicode, 'Café ☕ 日本');
+      assert.strictEqual(value.count, 42);
+      assert.strictEqual(value.big, 5000000000);
+      assert.strictEqual(value.negative, -7);
+      assert.strictEqual(value.ratio, 0.25);
+      assert.strictEqual(value.enabled, true);
+      assert.strictEqual(value.disabled, false);
+      assert.deepStrictEqual(value.created, new Date('2026-01-07T12:30:00Z'));
+      assert.deepStrictEqual(value.blob, Buffer.from([0, 1, 2, 254, 255]));
+      assert.deepStrictEqual(value.nested, { items: Array.from({ length: 20 }, (_, i) => i) });
+    });
+
+    it('should reject non-plist data', () => {
+      assert.throws(() => parseBinaryPlist(Buffer.from('{"a":1}')), /Not a binary plist/);
+    });
+
+    it('should reject truncated data', () => {
+      const data = fixture('mixed.bplist');
+      assert.throws(() => parseBinaryPlist(Buffer.concat([data.subarray(0, 40), data.subarray(-32)])));
+    });
+
+    it('should reject out-of-range object references', () => {
+      const data = Buffer.from(fixture('finder-tags.bplist'));
+      data[9] = 0x7f;
+      assert.throws(() => parseBinaryPlist(data), /out of range/);
+    });
+
+    it('should reject reference cycles', () => {
+      const data = Buffer.from(fixture('finder-tags.bplist'));
+      data[9] = 0x00;
+      assert.throws(() => parseBinaryPlist(data), /cycle/);
+    });
+
+    it('should reject shared references that expand exponentially', () => {
+      // Object 0 is an empty array; object i is [i-1, i-1]
+      const levels = 40;
+      const objects = [Buffer.from([0xa0])];
+      for (let i = 1; i <= levels; i++) objects.push(Buffer.from([0xa2, i - 1, i - 1]));
+      const body = Buffer.concat([Buffer.from('bplist00', 'latin1'), ...objects]);
+      const offsets: number[] = [];
+      let offset = 8;
+      for (const object of objects) {
+        offsets.push(offset);
+        offset += object.length;
+      }
+      const trailer = Buffer.alloc(32);
+      trailer.writeUInt8(1, 6);
+      trailer.writeUInt8(1, 7);
+      trailer.writeBigUInt64BE(BigInt(objects.length), 8);
+      trailer.writeBigUInt64BE(BigInt(levels), 16);
+      trailer.writeBigUInt64BE(BigInt(body.length), 24);
+      const data = Buffer.concat([body, Buffer.from(offsets), trailer]);
+
+      const started = Date.now();
+      assert.throws(() => parseBinaryPlist(data), /too many objects/);
+      assert.ok(Date.now() - started < 100);
+      assert.strictEqual(decodeXattrValue(data, true).encoding, 'hex');
+    });
+  });
+
+  describe('buildBinaryPlist()', () => {
+    it('should reproduce the Finder tags fixture byte for byte', () => {
+      const tags = ['Red\n6', 'Project Alpha', 'Blue\n4'];
+      assert.ok(buildBinaryPlist(tags).equals(fixture('finder-tags.bplist')));
+    });
+
+    it('should reproduce the WhereFroms fixture byte for byte', () => {
+      const froms = ['https://example.com/downloads/report.pdf', 'https://example.com/'];
+      assert.ok(buildBinaryPlist(froms).equals(fixture('where-froms.bplist')));
+    });
+
+    it('should round-trip mixed values', () => {
+      const original = parseBinaryPlist(fixture('mixed.bplist'));
+      assert.deepStrictEqual(parseBinaryPlist(buildBinaryPlist(original)), original);
+    });
+
+    it('should handle large collections', () => {
+      const items = Array.from({ length: 300 }, (_, i) => `tag-${i}`);
+      const built = buildBinaryPlist(items);
+      assert.ok(isBinaryPlist(built));
+      assert.deepStrictEqual(parseBinaryPlist(built), items);
+    });
+  });
+
+  describe('Xattr Integration', () => {
+    it('should decode plists to JSON when requested', () => {
+      assert.deepStrictEqual(decodeXattrValue(fixture('finder-tags.bplist'), true), {
+        value: ['Red\n6', 'Project Alpha', 'Blue\n4'],
+        size: 75,
+        encoding: 'plist'
+      });
+    });
+
+    it('should convert dates and data to strings', () => {
+      const decoded = decodeXattrValue(fixture('mixed.bplist'), true);
+      const value = decoded.value as Record<string, unknown>;
+      assert.strictEqual(value.created, '2026-01-07T12:30:00.000Z');
+      assert.strictEqual(value.blob, 'AAEC/v8=');
+    });
+
+    it('should leave plists as hex without decodePlist', () => {
+      assert.strictEqual(decodeXattrValue(fixture('finder-tags.bplist')).encoding, 'hex');
+    });
+
+    it('should write plist-encoded values', () => {
+      const encoded = encodeXattrValue({ value: ['Red\n6', 'Project Alpha', 'Blue\n4'], encoding: 'plist' });
+      assert.ok(encoded.equals(fixture('finder-tags.bplist')));
+    });
+  });
+});
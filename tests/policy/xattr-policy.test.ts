@@ -0,0 +1,143 @@
+/**
+ * Xattr Policy Engine Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import { prunePolicyDecisions, setPolicyDecisionRetention } from '../../src/database/policy-decisions.js';
+import {
+  setXattrPolicy,
+  loadXattrPolicy,
+  evaluatePolicy,
+  enforcePolicy,
+  getPolicyDecisions,
+  compilePolicy,
+  recordPolicyBypass
+} from '../../src/services/xattr-policy.js';
+import { matchGlob } from '../../src/utils/glob.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_POLICY = join(__dirname, '..', '..', 'config', 'xattr-policy.json');
+
+const DROPOSITORY = '/Users/macbook/Documents/Dropository';
+
+describe('Xattr Policy Engine', () => {
+  before(() => {
+    openConnection(':memory:');
+  });
+
+  after(() => {
+    closeConnection();
+  });
+
+  describe('matchGlob()', () => {
+    it('should match ** across directories, including none', () => {
+      assert.ok(matchGlob('**/Dropository/**', `${DROPOSITORY}/a/b.txt`));
+      assert.ok(matchGlob('**/Dropository/**', DROPOSITORY));
+      assert.ok(!matchGlob('**/Dropository/**', '/Users/macbook/Documents/Dropository2/a.txt'));
+    });
+
+    it('should keep * within one segment', () => {
+      assert.ok(matchGlob('/srv/*.txt', '/srv/a.txt'));
+      assert.ok(!matchGlob('/srv/*.txt', '/srv/sub/a.txt'));
+    });
+
+    it('should treat attribute names literally apart from wildcards', () => {
+      assert.ok(matchGlob('com.apple.metadata:*', 'com.apple.metadata:kMDItemWhereFroms'));
+      assert.ok(!matchGlob('com.apple.metadata:*', 'comXapple.metadata:x'));
+    });
+  });
+
+  describe('Default policy', () => {
+    beforeEach(() => {
+      loadXattrPolicy(DEFAULT_POLICY);
+    });
+
+    it('should never delete quarantine under Dropository', () => {
+      const decision = evaluatePolicy(`${DROPOSITORY}/download.zip`, 'com.apple.quarantine', 'delete');
+      assert.strictEqual(decision.allowed, false);
+      assert.strictEqual(decision.rule, 'keep-quarantine-in-dropository');
+      assert.ok(evaluatePolicy('/Users/macbook/Documents/BoxOfPrompts-Central/a.zip', 'com.apple.quarantine', 'delete').allowed);
+    });
+
+    it('should make com.imminence.qm write-once', () => {
+      const path = `${DROPOSITORY}/doc.md`;
+      assert.ok(evaluatePolicy(path, 'com.imminence.qm', 'create').allowed);
+      assert.strictEqual(evaluatePolicy(path, 'com.imminence.qm', 'overwrite').allowed, false);
+      assert.strictEqual(evaluatePolicy(path, 'com.imminence.qm', 'delete').allowed, false);
+    });
+  });
+
+  describe('Rule evaluation', () => {
+    it('should let the first matching rule decide', () => {
+      setXattrPolicy([
+        { id: 'allow-tags', effect: 'allow', attributes: ['com.apple.metadata:_kMDItemUserTags'], operations: ['*'] },
+        { id: 'protect-metadata', effect: 'deny', attributes: ['com.apple.metadata:*'], operations: ['set', 'delete'] }
+      ]);
+      assert.ok(evaluatePolicy('/srv/a', 'com.apple.metadata:_kMDItemUserTags', 'overwrite').allowed);
+      assert.strictEqual(evaluatePolicy('/srv/a', 'com.apple.metadata:kMDItemWhereFroms', 'create').rule, 'protect-metadata');
+    });
+
+    it('should allow mutations no rule matches', () => {
+      setXattrPolicy([{ id: 'deny-delete', effect: 'deny', operations: ['delete'] }]);
+      assert.deepStrictEqual(evaluatePolicy('/srv/a', 'user.note', 'create'), { allowed: true, reason: 'No matching policy rule' });
+    });
+
+    it('should reject malformed rules', () => {
+      assert.throws(() => compilePolicy([{ id: 'x', effect: 'deny', operations: ['rename' as never] }]), /operations must be/);
+      assert.throws(() => compilePolicy([
+        { id: 'x', effect: 'deny', operations: ['delete'] },
+        { id: 'x', effect: 'allow', operations: ['delete'] }
+      ]), /unique "id"/);
+    });
+  });
+
+  describe('enforcePolicy()', () => {
+    it('should throw with the rule reason and record every decision', () => {
+      setXattrPolicy([{ id: 'qm', effect: 'deny', attributes: ['com.imminence.qm'], operations: ['overwrite'], reason: 'qm is write-once' }]);
+
+      enforcePolicy('/srv/a', 'com.imminence.qm', 'create');
+      assert.throws(() => enforcePolicy('/srv/a', 'com.imminence.qm', 'overwrite'), /Denied by policy \(qm\): qm is write-once/);
+
+      const [denied, allowed] = getPolicyDecisions(2);
+      assert.deepStrictEqual(
+        { allowed: denied.allowed, rule: denied.rule, operation: denied.operation },
+        { allowed: false, rule: 'qm', operation: 'overwrite' }
+      );
+      assert.strictEqual(allowed.allowed, true);
+      assert.strictEqual(getPolicyDecisions(10, true).length, 1);
+    });
+
+    it('should record bypassed mutations without a rule', () => {
+      setXattrPolicy([{ id: 'qm', effect: 'deny', attributes: ['com.imminence.qm'], operations: ['delete'] }]);
+      recordPolicyBypass('/srv/a', 'com.imminence.qm', 'delete', 'Bulk rollback');
+
+      const [latest] = getPolicyDecisions(1);
+      assert.deepStrictEqual(
+        { allowed: latest.allowed, rule: latest.rule, operation: latest.operation, reason: latest.reason },
+        { allowed: true, rule: null, operation: 'delete', reason: 'Bulk rollback' }
+      );
+    });
+  });
+
+  describe('prunePolicyDecisions()', () => {
+    after(() => {
+      setPolicyDecisionRetention({ maxAgeDays: 30, maxEntries: 100000 });
+    });
+
+    it('should drop old decisions and keep at most maxEntries', () => {
+      getConnection().exec('DELETE FROM xattr_policy_decisions');
+      setXattrPolicy([]);
+      for (let i = 0; i < 5; i++) enforcePolicy(`/srv/${i}`, 'user.a', 'create');
+      getConnection().prepare('UPDATE xattr_policy_decisions SET created_at = ? WHERE path = ?')
+        .run(Date.now() - 40 * 24 * 60 * 60 * 1000, '/srv/0');
+
+      setPolicyDecisionRetention({ maxAgeDays: 30, maxEntries: 3 });
+      assert.strictEqual(prunePolicyDecisions(), 2);
+      assert.deepStrictEqual(getPolicyDecisions(10).map(d => d.path), ['/srv/4', '/srv/3', '/srv/2']);
+    });
+  });
+});
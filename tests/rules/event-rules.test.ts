@@ -0,0 +1,147 @@
+/**
+ * Event Rules Engine Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { setTimeout as sleep } from 'timers/promises';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { setXattrBackend } from '../../src/services/xattr-backends/index.js';
+import { publishWatchEvent, type WatchEvent } from '../../src/services/watch-events.js';
+import { getTags } from '../../src/services/tag-service.js';
+import {
+  createEventRule,
+  updateEventRule,
+  deleteEventRule,
+  listEventRules,
+  getEventRuleRuns,
+  processRuleEvent,
+  setRuleBroadcaster,
+  startEventRules,
+  stopEventRules,
+  type EventRuleInput
+} from '../../src/services/event-rules.js';
+import { createMemoryBackend, type MemoryXattrBackend } from '../helpers/memory-backend.js';
+
+describe('Event Rules Engine', () => {
+  let root: string;
+  let inbox: string;
+  let backend: MemoryXattrBackend;
+  const broadcasts: Array<{ signal: string; payload: Record<string, unknown> }> = [];
+
+  const INBOX_RULE: EventRuleInput = {
+    name: 'Inbox PDFs',
+    events: ['created'],
+    paths: ['**/Dropository/**'],
+    kinds: ['PDF Document'],
+    actions: [
+      { type: 'set_xattr', name: 'com.imminence.dewey', value: { code: '000', label: 'inbox' } },
+      { type: 'add_tags', tags: [{ name: 'Blue', color: 'blue' }] },
+      { type: 'broadcast' }
+    ]
+  };
+
+  before(() => {
+    openConnection(':memory:');
+    root = mkdtempSync(join(tmpdir(), 'fg-rules-'));
+    inbox = join(root, 'Dropository');
+    mkdirSync(inbox);
+    setSandboxRoots([{ path: root, mode: 'read-write' }]);
+  });
+
+  after(() => {
+    stopEventRules();
+    setRuleBroadcaster(null);
+    setXattrBackend(null);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    rmSync(root, { recursive: true, force: true });
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    for (const rule of listEventRules()) deleteEventRule(rule.id);
+    getConnection().exec('DELETE FROM event_rule_runs');
+    backend = createMemoryBackend();
+    setXattrBackend(backend);
+    broadcasts.length = 0;
+    setRuleBroadcaster((signal, payload) => { broadcasts.push({ signal, payload }); });
+  });
+
+  function created(name: string, dir: string = inbox): WatchEvent {
+    const path = join(dir, name);
+    writeFileSync(path, '%PDF-1.7');
+    return { watchId: 'w1', type: 'created', path, timestamp: new Date().toISOString() };
+  }
+
+  it('should run every action of a matching rule and log it', async () => {
+    const rule = createEventRule(INBOX_RULE);
+    const event = created('scan.pdf');
+
+    const [run] = await processRuleEvent(event);
+    assert.strictEqual(run.rule_id, rule.id);
+    assert.ok(run.success);
+    assert.deepStrictEqual(run.results.map(r => r.type), ['set_xattr', 'add_tags', 'broadcast']);
+
+    assert.strictEqual(backend.files.get(event.path)!.get('com.imminence.dewey')!.toString(), '{"code":"000","label":"inbox"}');
+    assert.deepStrictEqual((await getTags(event.path)).tags, [{ name: 'Blue', color: 'blue' }]);
+    assert.strictEqual(broadcasts[0].signal, 'fs_watch_event');
+    assert.strictEqual(broadcasts[0].payload.rule, rule.id);
+
+    assert.strictEqual(getEventRuleRuns(rule.id).length, 1);
+  });
+
+  it('should skip events that fail a predicate', async () => {
+    createEventRule(INBOX_RULE);
+    assert.deepStrictEqual(await processRuleEvent(created('notes.txt')), []);
+    assert.deepStrictEqual(await processRuleEvent(created('elsewhere.pdf', root)), []);
+    assert.deepStrictEqual(await processRuleEvent({ ...created('edited.pdf'), type: 'modified' }), []);
+  });
+
+  it('should stop at the first failing action', async () => {
+    setRuleBroadcaster(null);
+    createEventRule({ ...INBOX_RULE, actions: [{ type: 'broadcast' }, { type: 'delete_xattr', name: 'com.apple.quarantine' }] });
+
+    const [run] = await processRuleEvent(created('failing.pdf'));
+    assert.strictEqual(run.success, false);
+    assert.deepStrictEqual(run.results, [{ type: 'broadcast', success: false, error: 'InterLock broadcasting is not available' }]);
+  });
+
+  it('should ignore the events its own writes cause', async () => {
+    createEventRule({ ...INBOX_RULE, events: ['created', 'modified'] });
+    const event = created('loop.pdf');
+
+    assert.strictEqual((await processRuleEvent(event)).length, 1);
+    assert.deepStrictEqual(await processRuleEvent({ ...event, type: 'modified' }), []);
+  });
+
+  it('should update, disable and delete rules', async () => {
+    const rule = createEventRule(INBOX_RULE);
+    const renamed = updateEventRule(rule.id, { name: 'Renamed', enabled: false });
+    assert.strictEqual(renamed.name, 'Renamed');
+    assert.deepStrictEqual(renamed.actions, INBOX_RULE.actions);
+    assert.deepStrictEqual(await processRuleEvent(created('disabled.pdf')), []);
+
+    assert.ok(deleteEventRule(rule.id));
+    assert.throws(() => updateEventRule(rule.id, { enabled: true }), /not found/);
+  });
+
+  it('should reject relative path globs', () => {
+    assert.throws(() => createEventRule({ ...INBOX_RULE, paths: ['Dropository/*'] }), /must be absolute/);
+  });
+
+  it('should evaluate rules on the watch event bus', async () => {
+    createEventRule(INBOX_RULE);
+    startEventRules();
+    try {
+      publishWatchEvent(created('bus.pdf'));
+      await sleep(50);
+      assert.strictEqual(getEventRuleRuns().length, 1);
+    } finally {
+      stopEventRules();
+    }
+  });
+});
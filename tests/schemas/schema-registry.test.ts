@@ -0,0 +1,108 @@
+/**
+ * Attribute Schema Registry Tests
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  loadSchemaRegistry,
+  setSchemaRegistry,
+  findAttributeSchema,
+  validateAttribute,
+  listAttributeSchemas
+} from '../../src/services/schema-registry.js';
+import { jsonSchemaToZod } from '../../src/utils/json-schema.js';
+
+const CONFIG_PATH = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'config', 'attribute-schemas.json');
+
+describe('Attribute Schema Registry', () => {
+
+  describe('jsonSchemaToZod()', () => {
+    it('should enforce required properties', () => {
+      const schema = jsonSchemaToZod({ type: 'object', properties: { a: { type: 'string' } }, required: ['a'] });
+      assert.ok(schema.safeParse({ a: 'x' }).success);
+      assert.ok(!schema.safeParse({}).success);
+    });
+
+    it('should allow extra properties unless disabled', () => {
+      const open = jsonSchemaToZod({ type: 'object', properties: {} });
+      const closed = jsonSchemaToZod({ type: 'object', properties: {}, additionalProperties: false });
+      assert.ok(open.safeParse({ extra: 1 }).success);
+      assert.ok(!closed.safeParse({ extra: 1 }).success);
+    });
+
+    it('should enforce numeric bounds and integers', () => {
+      const schema = jsonSchemaToZod({ type: 'integer', minimum: 1, maximum: 3 });
+      assert.ok(schema.safeParse(2).success);
+      assert.ok(!schema.safeParse(2.5).success);
+      assert.ok(!schema.safeParse(4).success);
+    });
+
+    it('should support enums, patterns and date-time', () => {
+      assert.ok(jsonSchemaToZod({ enum: ['a', 'b'] }).safeParse('a').success);
+      assert.ok(!jsonSchemaToZod({ type: 'string', pattern: '^\\d+$' }).safeParse('x1').success);
+      assert.ok(jsonSchemaToZod({ type: 'string', format: 'date-time' }).safeParse('2026-01-07T12:00:00Z').success);
+    });
+
+    it('should reject unsupported types, keywords and formats', () => {
+      assert.throws(() => jsonSchemaToZod({ type: 'tuple' as never }), /Unsupported schema type/);
+      assert.throws(() => jsonSchemaToZod({ type: 'array', uniqueItems: true } as never), /Unsupported schema keyword: uniqueItems/);
+      assert.throws(() => jsonSchemaToZod({ type: 'string', format: 'email' } as never), /Unsupported schema format/);
+    });
+  });
+
+  describe('Matching', () => {
+    beforeEach(() => {
+      setSchemaRegistry([
+        { prefix: 'com.imminence.', schema: { type: 'object' } },
+        { prefix: 'com.imminence.qm.', schema: { type: 'string' } },
+        { name: 'com.imminence.dewey', schema: { type: 'object', properties: { code: { type: 'string' } }, required: ['code'] } }
+      ]);
+    });
+
+    it('should prefer exact names over prefixes', () => {
+      assert.strictEqual(findAttributeSchema('com.imminence.dewey')?.name, 'com.imminence.dewey');
+    });
+
+    it('should prefer the longest prefix', () => {
+      assert.strictEqual(findAttributeSchema('com.imminence.qm.extra')?.prefix, 'com.imminence.qm.');
+      assert.strictEqual(findAttributeSchema('com.imminence.other')?.prefix, 'com.imminence.');
+    });
+
+    it('should treat unregistered attributes as valid', () => {
+      const result = validateAttribute('com.apple.quarantine', 'anything');
+      assert.deepStrictEqual(result, { attribute: 'com.apple.quarantine', valid: true, issues: [] });
+    });
+
+    it('should report per-field issues', () => {
+      const result = validateAttribute('com.imminence.dewey', { code: 7 });
+      assert.strictEqual(result.valid, false);
+      assert.strictEqual(result.matched, 'com.imminence.dewey');
+      assert.strictEqual(result.issues[0].path, 'code');
+    });
+
+    it('should reject entries with both name and prefix', () => {
+      assert.throws(() => setSchemaRegistry([{ name: 'a', prefix: 'b', schema: {} }]), /exactly one/);
+    });
+  });
+
+  describe('Shipped Configuration', () => {
+    it('should load every schema', () => {
+      assert.ok(loadSchemaRegistry(CONFIG_PATH) >= 3);
+      assert.ok(listAttributeSchemas().some(s => s.name === 'com.imminence.dewey'));
+    });
+
+    it('should validate dewey codes', () => {
+      loadSchemaRegistry(CONFIG_PATH);
+      assert.ok(validateAttribute('com.imminence.dewey', { code: '004.6' }).valid);
+      assert.ok(!validateAttribute('com.imminence.dewey', { code: 'abc' }).valid);
+      assert.ok(!validateAttribute('com.imminence.dewey', 'junk').valid);
+    });
+
+    it('should leave the registry empty when the config is missing', () => {
+      assert.strictEqual(loadSchemaRegistry('/nonexistent/attribute-schemas.json'), 0);
+    });
+  });
+});
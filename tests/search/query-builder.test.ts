@@ -0,0 +1,148 @@
+/**
+ * Structured Query Builder Tests
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { compileToMdfind, compileToSql, parseQuery, type QueryNode } from '../../src/utils/query-builder.js';
+import { SpotlightQueries } from '../../src/services/spotlight-service.js';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { upsertIndexedFile, queryIndexedFiles } from '../../src/database/file-index.js';
+
+const NOW = Date.parse('2026-01-07T00:00:00Z');
+const DAY = 86400000;
+
+describe('Structured Query Builder', () => {
+
+  describe('compileToMdfind()', () => {
+    it('should compile comparisons with modifiers', () => {
+      assert.strictEqual(
+        compileToMdfind({ attribute: 'kMDItemDisplayName', op: '==', value: 'Report', caseInsensitive: true, diacriticInsensitive: true }),
+        'kMDItemDisplayName == "Report"cd'
+      );
+    });
+
+    it('should compile boolean logic', () => {
+      const query: QueryNode = {
+        and: [
+          { contentType: 'com.adobe.pdf' },
+          { or: [{ tag: 'Red' }, { tag: 'Blue' }] },
+          { not: { attribute: 'kMDItemFSSize', op: '<', value: 1024 } }
+        ]
+      };
+      assert.strictEqual(
+        compileToMdfind(query),
+        '(kMDItemContentTypeTree == "com.adobe.pdf" && (kMDItemUserTags == "Red" || kMDItemUserTags == "Blue") && !(kMDItemFSSize < 1024))'
+      );
+    });
+
+    it('should compile date math', () => {
+      assert.strictEqual(
+        compileToMdfind({ attribute: 'kMDItemFSContentChangeDate', op: '>=', value: { relative: '-7d' } }),
+        'kMDItemFSContentChangeDate >= $time.now(-604800)'
+      );
+      assert.strictEqual(
+        compileToMdfind({ attribute: 'kMDItemFSCreationDate', op: '<', value: { iso: '2026-01-01T00:00:00Z' } }),
+        'kMDItemFSCreationDate < $time.iso(2026-01-01T00:00:00.000Z)'
+      );
+    });
+
+    it('should keep wildcards only when requested', () => {
+      assert.strictEqual(
+        compileToMdfind({ attribute: 'kMDItemDisplayName', op: '==', value: '*.md', wildcard: true }),
+        'kMDItemDisplayName == "*.md"'
+      );
+      assert.strictEqual(
+        compileToMdfind({ attribute: 'kMDItemDisplayName', op: '==', value: '*.md' }),
+        'kMDItemDisplayName == "\\*.md"'
+      );
+    });
+
+    it('should escape injection attempts', () => {
+      assert.strictEqual(
+        compileToMdfind({ tag: 'x" || kMDItemFSName == "*' }),
+        'kMDItemUserTags == "x\\" || kMDItemFSName == \\"\\*"'
+      );
+    });
+
+    it('should rebuild presets on the AST', () => {
+      assert.strictEqual(SpotlightQueries.RED_TAG, 'kMDItemUserTags == "Red"');
+      assert.strictEqual(SpotlightQueries.ALL_MARKDOWN, 'kMDItemDisplayName == "*.md"');
+      assert.strictEqual(SpotlightQueries.TEXT_CONTENT('a"b'), 'kMDItemTextContent == "*a\\"b*"');
+    });
+  });
+
+  describe('parseQuery()', () => {
+    it('should accept a valid tree', () => {
+      assert.doesNotThrow(() => parseQuery({ or: [{ tag: 'Red' }, { text: 'invoice' }] }));
+    });
+
+    it('should reject invalid attribute names', () => {
+      assert.throws(() => parseQuery({ attribute: 'kMDItem; rm -rf /', op: '==', value: 'x' }), /Invalid query/);
+    });
+
+    it('should reject unknown operators and keys', () => {
+      assert.throws(() => parseQuery({ attribute: 'kMDItemFSSize', op: 'LIKE', value: 1 }), /Invalid query/);
+      assert.throws(() => parseQuery({ tag: 'Red', raw: 'kMDItemFSName == "*"' }), /Invalid query/);
+    });
+
+    it('should reject malformed relative dates', () => {
+      assert.throws(() => parseQuery({ attribute: 'kMDItemFSContentChangeDate', op: '>', value: { relative: '7 days' } }), /Invalid query/);
+    });
+  });
+
+  describe('compileToSql()', () => {
+    before(() => {
+      openConnection(':memory:');
+      const file = (name: string, size: number, age: number) =>
+        ({ path: `/sandbox/${name}`, name, size, mtime: NOW - age * DAY, kind: 'Document' });
+
+      upsertIndexedFile(file('report.pdf', 5000, 1), { 'com.apple.metadata:_kMDItemUserTags': JSON.stringify(['Red\n6', 'Work']) });
+      upsertIndexedFile(file('notes.md', 200, 30), { 'com.apple.metadata:_kMDItemUserTags': JSON.stringify(['Blue\n4']) });
+      upsertIndexedFile(file('photo.JPG', 90000, 3), {});
+      upsertIndexedFile(file('100%_done.txt', 10, 1), { 'com.apple.metadata:_kMDItemUserTags': 'not json' });
+    });
+
+    after(() => {
+      closeConnection();
+    });
+
+    function run(query: QueryNode): string[] {
+      const { where, params } = compileToSql(query, NOW);
+      return queryIndexedFiles(where, params, [], 100).map(r => r.name);
+    }
+
+    it('should match tags with or without colors, case-insensitively', () => {
+      assert.deepStrictEqual(run({ tag: 'red' }), ['report.pdf']);
+      assert.deepStrictEqual(run({ tag: 'Work' }), ['report.pdf']);
+      assert.deepStrictEqual(run({ not: { tag: 'Red' } }), ['100%_done.txt', 'notes.md', 'photo.JPG']);
+    });
+
+    it('should compare numbers and relative dates', () => {
+      assert.deepStrictEqual(run({ attribute: 'kMDItemFSSize', op: '>', value: 1000 }), ['photo.JPG', 'report.pdf']);
+      assert.deepStrictEqual(
+        run({ attribute: 'kMDItemFSContentChangeDate', op: '>=', value: { relative: '-7d' } }),
+        ['100%_done.txt', 'photo.JPG', 'report.pdf']
+      );
+    });
+
+    it('should map content types to extensions', () => {
+      assert.deepStrictEqual(run({ contentType: 'public.image' }), ['photo.JPG']);
+    });
+
+    it('should treat LIKE metacharacters literally', () => {
+      assert.deepStrictEqual(run({ attribute: 'kMDItemDisplayName', op: '==', value: '100%*', wildcard: true }), ['100%_done.txt']);
+      assert.deepStrictEqual(run({ attribute: 'kMDItemDisplayName', op: '==', value: '1_0*', wildcard: true }), []);
+    });
+
+    it('should combine predicates', () => {
+      assert.deepStrictEqual(run({ and: [{ contentType: 'com.adobe.pdf' }, { tag: 'Red' }] }), ['report.pdf']);
+      assert.deepStrictEqual(run({ or: [{ tag: 'Blue' }, { contentType: 'public.image' }] }), ['notes.md', 'photo.JPG']);
+    });
+
+    it('should reject predicates the index cannot answer', () => {
+      assert.throws(() => compileToSql({ text: 'invoice' }), /not supported/);
+      assert.throws(() => compileToSql({ attribute: 'kMDItemAuthors', op: '==', value: 'x' }), /not supported/);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Search Pagination Tests
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { upsertIndexedFile } from '../../src/database/file-index.js';
+import { spotlightSearch, encodeCursor, decodeCursor } from '../../src/services/spotlight-service.js';
+
+const ROOT = '/Users/macbook/Documents/Dropository';
+
+describe('Search Pagination', () => {
+  before(() => {
+    openConnection(':memory:');
+    for (let i = 0; i < 5; i++) {
+      upsertIndexedFile({ path: `${ROOT}/report-${i}.md`, name: `report-${i}.md`, size: 1, mtime: Date.now(), kind: 'Markdown' }, {});
+    }
+  });
+
+  after(() => {
+    closeConnection();
+  });
+
+  describe('Cursors', () => {
+    it('should round-trip an offset', () => {
+      assert.strictEqual(decodeCursor(encodeCursor('abc', 40), 'abc'), 40);
+    });
+
+    it('should reject a cursor from another search', () => {
+      assert.throws(() => decodeCursor(encodeCursor('abc', 40), 'xyz'), /does not match/);
+    });
+
+    it('should reject malformed cursors', () => {
+      assert.throws(() => decodeCursor('not-a-cursor', 'abc'), /Invalid cursor/);
+      assert.throws(() => decodeCursor(encodeCursor('abc', -1), 'abc'), /Invalid cursor/);
+    });
+  });
+
+  describe('Local index pages', () => {
+    it('should walk every result exactly once', async () => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+
+      do {
+        const page = await spotlightSearch('report', [ROOT], 2, undefined, 'local', { cursor });
+        seen.push(...page.results.map(r => r.name));
+        cursor = page.next_cursor ?? undefined;
+        pages++;
+      } while (cursor);
+
+      assert.strictEqual(pages, 3);
+      assert.deepStrictEqual([...seen].sort(), ['report-0.md', 'report-1.md', 'report-2.md', 'report-3.md', 'report-4.md']);
+    });
+
+    it('should accept an explicit offset', async () => {
+      const page = await spotlightSearch('report', [ROOT], 10, undefined, 'local', { offset: 3 });
+      assert.strictEqual(page.offset, 3);
+      assert.strictEqual(page.count, 2);
+      assert.strictEqual(page.next_cursor, null);
+    });
+
+    it('should not reuse a cursor for a different query', async () => {
+      const first = await spotlightSearch('report', [ROOT], 2, undefined, 'local');
+      await assert.rejects(
+        spotlightSearch('notes', [ROOT], 2, undefined, 'local', { cursor: first.next_cursor! }),
+        /does not match/
+      );
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * API Token Tests
+ * Hashed storage, scopes and revocation
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import {
+  createApiToken,
+  authenticateToken,
+  revokeApiToken,
+  listApiTokens,
+  hasScope,
+  hashToken,
+  parseBearerToken
+} from '../../src/services/auth-service.js';
+
+describe('API Tokens', () => {
+  before(() => {
+    openConnection(':memory:');
+  });
+
+  after(() => {
+    closeConnection();
+  });
+
+  it('should store only the token hash', () => {
+    const created = createApiToken('indexer', ['search']);
+    const rows = getConnection().prepare('SELECT token_hash FROM api_tokens WHERE id = ?').all(created.id) as Array<{ token_hash: string }>;
+    assert.deepStrictEqual(rows, [{ token_hash: hashToken(created.token) }]);
+    assert.ok(!JSON.stringify(listApiTokens()).includes(created.token));
+  });
+
+  it('should authenticate a valid token', () => {
+    const created = createApiToken('writer', ['xattr:read', 'xattr:write']);
+    const token = authenticateToken(created.token);
+    assert.strictEqual(token?.id, created.id);
+    assert.deepStrictEqual(token?.scopes, ['xattr:read', 'xattr:write']);
+  });
+
+  it('should reject unknown tokens', () => {
+    assert.strictEqual(authenticateToken('fg_not-a-real-token'), null);
+    assert.strictEqual(authenticateToken('not-a-token'), null);
+  });
+
+  it('should check scopes, with admin granting all', () => {
+    const reader = authenticateToken(createApiToken('reader', ['xattr:read']).token)!;
+    const admin = authenticateToken(createApiToken('admin', ['admin']).token)!;
+    assert.ok(hasScope(reader, 'xattr:read'));
+    assert.ok(!hasScope(reader, 'xattr:write'));
+    assert.ok(hasScope(admin, 'watch'));
+  });
+
+  it('should reject unknown scopes', () => {
+    assert.throws(() => createApiToken('bad', ['xattr:everything']), /Unknown scope/);
+    assert.throws(() => createApiToken('none', []), /at least one scope/);
+  });
+
+  it('should stop accepting a revoked token', () => {
+    const created = createApiToken('temporary', ['watch']);
+    assert.ok(revokeApiToken(created.id));
+    assert.strictEqual(authenticateToken(created.token), null);
+    assert.strictEqual(revokeApiToken(created.id), false);
+    assert.ok(listApiTokens().find(t => t.id === created.id)?.revoked);
+  });
+
+  it('should parse bearer headers', () => {
+    assert.strictEqual(parseBearerToken('Bearer fg_abc'), 'fg_abc');
+    assert.strictEqual(parseBearerToken('Basic abc'), null);
+    assert.strictEqual(parseBearerToken(undefined), null);
+  });
+});
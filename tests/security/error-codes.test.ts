@@ -0,0 +1,136 @@
+/**
+ * Error Taxonomy Tests
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import {
+  setSandboxRoots,
+  DEFAULT_SANDBOX_ROOTS,
+  validatePath,
+  assertPathPermission
+} from '../../src/utils/path-validator.js';
+import { setXattrPolicy, enforcePolicy } from '../../src/services/xattr-policy.js';
+import { setXattrBackend, classifyXattrError } from '../../src/services/xattr-backends/index.js';
+import { setXattrs } from '../../src/services/xattr-service.js';
+import {
+  ERROR_CODES,
+  ERROR_STATUS,
+  GuardianError,
+  NotFoundError,
+  describeError,
+  toMcpError,
+  toInterlockError
+} from '../../src/utils/errors.js';
+import { createMemoryBackend } from '../helpers/memory-backend.js';
+
+function codeOf(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof GuardianError, `Expected a GuardianError, got ${error}`);
+    return error.code;
+  }
+  assert.fail('Expected an error');
+}
+
+describe('Error Taxonomy', () => {
+  let root: string;
+
+  before(() => {
+    openConnection(':memory:');
+    root = mkdtempSync(join(tmpdir(), 'fg-errors-'));
+    mkdirSync(join(root, 'rw'));
+    mkdirSync(join(root, 'ro'));
+    writeFileSync(join(root, 'rw', 'file.txt'), 'x');
+    symlinkSync(join(root, 'rw', 'file.txt'), join(root, 'rw', 'link.txt'));
+    setSandboxRoots([
+      { path: join(root, 'rw'), mode: 'read-write' },
+      { path: join(root, 'ro'), mode: 'read-only' }
+    ]);
+  });
+
+  after(() => {
+    setXattrBackend(null);
+    setXattrPolicy([]);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    rmSync(root, { recursive: true, force: true });
+    closeConnection();
+  });
+
+  it('should map every code to an HTTP status', () => {
+    for (const code of ERROR_CODES) {
+      assert.ok(ERROR_STATUS[code] >= 400, code);
+    }
+    assert.strictEqual(ERROR_STATUS.PATH_OUTSIDE_SANDBOX, 403);
+    assert.strictEqual(ERROR_STATUS.XATTR_NOT_FOUND, 404);
+  });
+
+  it('should classify sandbox rejections', () => {
+    assert.strictEqual(codeOf(() => validatePath('')), 'INVALID_PATH');
+    assert.strictEqual(codeOf(() => validatePath('/etc/passwd')), 'PATH_OUTSIDE_SANDBOX');
+    assert.strictEqual(codeOf(() => validatePath(join(root, 'rw', 'link.txt'))), 'SYMLINK_REJECTED');
+    assert.strictEqual(codeOf(() => assertPathPermission(join(root, 'ro', 'a'), 'write')), 'OPERATION_NOT_PERMITTED');
+  });
+
+  it('should report the denying policy rule', () => {
+    setXattrPolicy([{ id: 'no-secrets', effect: 'deny', attributes: ['user.secret'], operations: ['*'], reason: 'Secrets stay out' }]);
+    try {
+      enforcePolicy(join(root, 'rw', 'file.txt'), 'user.secret', 'create');
+      assert.fail('Expected a denial');
+    } catch (error) {
+      assert.deepStrictEqual(describeError(error), {
+        code: 'POLICY_DENIED',
+        message: 'Denied by policy (no-secrets): Secrets stay out',
+        details: { rule: 'no-secrets' }
+      });
+    } finally {
+      setXattrPolicy([]);
+    }
+  });
+
+  it('should classify xattr backend failures', () => {
+    const spawnFailure = Object.assign(new Error('spawn getfattr ENOENT'), { code: 'ENOENT', syscall: 'spawn getfattr' });
+    assert.strictEqual(classifyXattrError(spawnFailure)?.code, 'BACKEND_UNAVAILABLE');
+    assert.strictEqual(classifyXattrError(new Error('setfattr: /x: Operation not supported'))?.code, 'XATTR_UNSUPPORTED');
+    assert.strictEqual(classifyXattrError(new Error('getfattr: /x: No such attribute'), 'user.a')?.message, 'Attribute not found: user.a');
+    assert.strictEqual(classifyXattrError(new Error('xattr: No such file or directory: /x'))?.code, 'FILE_NOT_FOUND');
+    assert.strictEqual(classifyXattrError(new Error('something else')), null);
+  });
+
+  it('should code attributes setXattrs could not write', async () => {
+    const backend = createMemoryBackend();
+    backend.unsupported.add(join(root, 'rw'));
+    setXattrBackend(backend);
+
+    const result = await setXattrs(join(root, 'rw', 'file.txt'), { 'user.a': 'x' });
+    assert.deepStrictEqual(result.failed.map(f => f.code), ['XATTR_UNSUPPORTED']);
+  });
+
+  it('should hide unclassified messages unless asked', () => {
+    const error = new Error(`EACCES: permission denied, open '${join(root, 'rw', 'file.txt')}'`);
+    assert.deepStrictEqual(describeError(error), { code: 'INTERNAL', message: 'Internal server error' });
+    assert.ok(!describeError(error, true).message.includes(root));
+  });
+
+  it('should describe schema failures as INVALID_INPUT with issues', () => {
+    const parsed = z.object({ path: z.string() }).safeParse({});
+    assert.ok(!parsed.success);
+    const { code, details } = describeError(parsed.error);
+    assert.strictEqual(code, 'INVALID_INPUT');
+    assert.deepStrictEqual((details?.issues as Array<{ path: string }>).map(i => i.path), ['path']);
+  });
+
+  it('should shape MCP and InterLock errors', () => {
+    const mcp = toMcpError(new NotFoundError('Unknown tool: nope'));
+    assert.strictEqual(mcp.isError, true);
+    assert.deepStrictEqual(JSON.parse(mcp.content[0].text), { error: { code: 'NOT_FOUND', message: 'Unknown tool: nope' } });
+
+    assert.deepStrictEqual(toInterlockError(new Error('boom')), { success: false, error: 'Internal server error', code: 'INTERNAL' });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Sandbox Roots Tests
+ * Configurable roots, per-root modes and reload behaviour
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  validatePath,
+  assertPathPermission,
+  findSandboxRoot,
+  getSandboxRoots,
+  setSandboxRoots,
+  ALLOWED_ROOTS,
+  DEFAULT_SANDBOX_ROOTS
+} from '../../src/utils/path-validator.js';
+import { parseSandboxRootsEnv, loadSandboxConfig, reloadSandboxConfig, getSandboxSource } from '../../src/utils/sandbox-config.js';
+import { setXattrs } from '../../src/services/xattr-service.js';
+
+const MISSING_CONFIG = '/nonexistent/sandbox.json';
+
+describe('Sandbox Roots', () => {
+  afterEach(() => {
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(root => ({ ...root })));
+  });
+
+  describe('parseSandboxRootsEnv()', () => {
+    it('should parse paths with and without modes', () => {
+      assert.deepStrictEqual(parseSandboxRootsEnv('/srv/docs:read-only, /srv/inbox'), [
+        { path: '/srv/docs', mode: 'read-only' },
+        { path: '/srv/inbox', mode: 'read-write' }
+      ]);
+    });
+
+    it('should keep colons that are not a mode', () => {
+      assert.deepStrictEqual(parseSandboxRootsEnv('/srv/a:b'), [{ path: '/srv/a:b', mode: 'read-write' }]);
+    });
+  });
+
+  describe('loadSandboxConfig()', () => {
+    it('should prefer SANDBOX_ROOTS over the config file', () => {
+      const result = loadSandboxConfig(MISSING_CONFIG, '/srv/docs:no-delete');
+      assert.deepStrictEqual(result, { source: 'env', roots: 1 });
+      assert.deepStrictEqual(getSandboxRoots(), [{ path: '/srv/docs', mode: 'no-delete' }]);
+      assert.deepStrictEqual(ALLOWED_ROOTS, ['/srv/docs']);
+    });
+
+    it('should load roots from a config file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'fg-sandbox-'));
+      try {
+        const configPath = join(dir, 'sandbox.json');
+        writeFileSync(configPath, JSON.stringify({ roots: [{ path: '/srv/archive/', mode: 'read-only' }, { path: '/srv/inbox' }] }));
+        assert.strictEqual(loadSandboxConfig(configPath, undefined).source, 'file');
+        assert.deepStrictEqual(getSandboxRoots(), [
+          { path: '/srv/archive', mode: 'read-only' },
+          { path: '/srv/inbox', mode: 'read-write' }
+        ]);
+        assert.strictEqual(getSandboxSource(), 'file');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should fall back to the defaults without a config', () => {
+      assert.strictEqual(loadSandboxConfig(MISSING_CONFIG, undefined).source, 'default');
+      assert.strictEqual(getSandboxRoots().length, DEFAULT_SANDBOX_ROOTS.length);
+    });
+
+    it('should reject relative roots and unknown modes', () => {
+      assert.throws(() => setSandboxRoots([{ path: 'docs', mode: 'read-write' }]), /must be absolute/);
+      assert.throws(() => setSandboxRoots([{ path: '/srv', mode: 'append' as never }]), /mode must be one of/);
+    });
+
+    it('should keep the current roots when a reload fails', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'fg-sandbox-'));
+      const previous = process.env.SANDBOX_CONFIG_PATH;
+      try {
+        setSandboxRoots([{ path: '/srv/docs', mode: 'read-write' }]);
+        process.env.SANDBOX_CONFIG_PATH = join(dir, 'sandbox.json');
+        writeFileSync(process.env.SANDBOX_CONFIG_PATH, '{ "roots": [{ "path": "relative" }] }');
+        assert.strictEqual(reloadSandboxConfig(), null);
+        assert.deepStrictEqual(ALLOWED_ROOTS, ['/srv/docs']);
+      } finally {
+        if (previous === undefined) delete process.env.SANDBOX_CONFIG_PATH;
+        else process.env.SANDBOX_CONFIG_PATH = previous;
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Per-root modes', () => {
+    it('should let the most specific root decide', () => {
+      setSandboxRoots([
+        { path: '/srv/docs', mode: 'read-write' },
+        { path: '/srv/docs/archive', mode: 'read-only' }
+      ]);
+      assert.strictEqual(findSandboxRoot('/srv/docs/archive/a.txt')?.mode, 'read-only');
+      assert.strictEqual(findSandboxRoot('/srv/docs/archived.txt')?.mode, 'read-write');
+    });
+
+    it('should enforce read-only and no-delete', () => {
+      setSandboxRoots([
+        { path: '/srv/archive', mode: 'read-only' },
+        { path: '/srv/library', mode: 'no-delete' }
+      ]);
+      assert.strictEqual(assertPathPermission('/srv/archive/a.txt', 'read'), '/srv/archive/a.txt');
+      assert.throws(() => assertPathPermission('/srv/archive/a.txt', 'write'), /read-only/);
+      assert.doesNotThrow(() => assertPathPermission('/srv/library/a.txt', 'write'));
+      assert.throws(() => assertPathPermission('/srv/library/a.txt', 'delete'), /does not allow deletion/);
+    });
+
+    it('should refuse writes under a read-only root in setXattrs', async () => {
+      setSandboxRoots([{ path: '/srv/archive', mode: 'read-only' }]);
+      await assert.rejects(setXattrs('/srv/archive/a.txt', { 'com.example.note': 'x' }), /read-only/);
+    });
+
+    it('should not name the root in errors', () => {
+      setSandboxRoots([{ path: '/srv/secret-root', mode: 'read-only' }]);
+      assert.throws(() => validatePath('/etc/passwd'), (err: Error) => !err.message.includes('secret-root'));
+      assert.throws(() => assertPathPermission('/srv/secret-root/a', 'delete'), (err: Error) => !err.message.includes('secret-root'));
+    });
+  });
+});
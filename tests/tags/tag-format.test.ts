@@ -0,0 +1,57 @@
+/**
+ * Finder Tag Format Tests
+ * "Name\nColorIndex" encoding used by _kMDItemUserTags
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseTag, formatTag } from '../../src/services/tag-service.js';
+import { escapeQueryString, SpotlightQueries } from '../../src/services/spotlight-service.js';
+
+describe('Finder Tag Format', () => {
+
+  describe('parseTag()', () => {
+    it('should parse a colored tag', () => {
+      assert.deepStrictEqual(parseTag('Red\n6'), { name: 'Red', color: 'red' });
+    });
+
+    it('should parse an uncolored tag', () => {
+      assert.deepStrictEqual(parseTag('Project Alpha'), { name: 'Project Alpha', color: 'none' });
+    });
+
+    it('should parse an explicit zero color', () => {
+      assert.deepStrictEqual(parseTag('Inbox\n0'), { name: 'Inbox', color: 'none' });
+    });
+
+    it('should keep unknown suffixes as part of the name', () => {
+      assert.deepStrictEqual(parseTag('Odd\n42'), { name: 'Odd\n42', color: 'none' });
+    });
+  });
+
+  describe('formatTag()', () => {
+    it('should append the color index', () => {
+      assert.strictEqual(formatTag({ name: 'Blue', color: 'blue' }), 'Blue\n4');
+    });
+
+    it('should omit the index for uncolored tags', () => {
+      assert.strictEqual(formatTag({ name: 'Inbox', color: 'none' }), 'Inbox');
+    });
+
+    it('should round-trip every color', () => {
+      for (const color of ['gray', 'green', 'purple', 'blue', 'yellow', 'red', 'orange'] as const) {
+        assert.deepStrictEqual(parseTag(formatTag({ name: 'T', color })), { name: 'T', color });
+      }
+    });
+  });
+
+  describe('Tag Queries', () => {
+    it('should build a tag query', () => {
+      assert.strictEqual(SpotlightQueries.TAGGED('Red'), 'kMDItemUserTags == "Red"');
+    });
+
+    it('should escape quotes and wildcards', () => {
+      assert.strictEqual(escapeQueryString('a"b*c\\d'), 'a\\"b\\*c\\\\d');
+      assert.strictEqual(SpotlightQueries.TAGGED('x" || kMDItemFSName == "*'), 'kMDItemUserTags == "x\\" || kMDItemFSName == \\"\\*"');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tag Service Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { setXattrBackend } from '../../src/services/xattr-backends/index.js';
+import { getTags, addTags, removeTags, setTags } from '../../src/services/tag-service.js';
+import { GuardianError } from '../../src/utils/errors.js';
+import { createMemoryBackend, type MemoryXattrBackend } from '../helpers/memory-backend.js';
+
+describe('Tag Service', () => {
+  let root: string;
+  let backend: MemoryXattrBackend;
+  let path: string;
+
+  before(() => {
+    openConnection(':memory:');
+    root = mkdtempSync(join(tmpdir(), 'fg-tags-'));
+    setSandboxRoots([{ path: root, mode: 'read-write' }]);
+  });
+
+  after(() => {
+    setXattrBackend(null);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    rmSync(root, { recursive: true, force: true });
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    backend = createMemoryBackend();
+    setXattrBackend(backend);
+    path = join(root, 'file.txt');
+    writeFileSync(path, '');
+  });
+
+  it('should add, remove and replace tags', async () => {
+    await addTags(path, [{ name: 'Red', color: 'red' }, { name: 'Inbox' }]);
+    assert.deepStrictEqual((await removeTags(path, ['inbox'])).tags, [{ name: 'Red', color: 'red' }]);
+    assert.deepStrictEqual((await setTags(path, [{ name: 'Blue', color: 'blue' }])).tags, [{ name: 'Blue', color: 'blue' }]);
+    assert.strictEqual((await getTags(path)).count, 1);
+  });
+
+  it('should clear tags on a file that has none', async () => {
+    assert.deepStrictEqual((await setTags(path, [])).tags, []);
+    assert.deepStrictEqual((await removeTags(path, ['Red'])).tags, []);
+    assert.strictEqual(backend.files.get(path)?.size ?? 0, 0);
+  });
+
+  it('should remove the attribute when the last tag goes', async () => {
+    await addTags(path, [{ name: 'Red', color: 'red' }]);
+    await removeTags(path, ['Red']);
+    assert.strictEqual(backend.files.get(path)?.size ?? 0, 0);
+  });
+
+  it('should reject a tags attribute that is not a tag plist', async () => {
+    backend.files.set(path, new Map([['com.apple.metadata:_kMDItemUserTags', Buffer.from('not a plist')]]));
+    await assert.rejects(getTags(path), (error: GuardianError) => {
+      assert.strictEqual(error.code, 'INVALID_INPUT');
+      assert.match(error.message, /not a valid tag plist/);
+      return true;
+    });
+  });
+});
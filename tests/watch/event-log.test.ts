@@ -0,0 +1,111 @@
+/**
+ * Watch Event Log Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import { setEventLogRetention, pruneEventLog, getEventLogRetention } from '../../src/database/event-log.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { publishWatchEvent, subscribeWatchEvents, type WatchEvent } from '../../src/services/watch-events.js';
+import { startEventLog, stopEventLog, getEventsSince, replayEvents } from '../../src/services/event-log-service.js';
+
+const ROOT = '/srv/logged';
+
+function publish(name: string, watchId: string = 'w1'): void {
+  publishWatchEvent({ watchId, type: 'modified', path: `${ROOT}/${name}`, timestamp: new Date().toISOString() });
+}
+
+describe('Watch Event Log', () => {
+  const defaults = getEventLogRetention();
+
+  before(() => {
+    openConnection(':memory:');
+    setSandboxRoots([{ path: ROOT, mode: 'read-write' }]);
+    startEventLog();
+  });
+
+  after(() => {
+    stopEventLog();
+    setEventLogRetention(defaults);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    getConnection().exec('DELETE FROM watch_event_log');
+    setEventLogRetention(defaults);
+  });
+
+  it('should number delivered events in order', () => {
+    const live: WatchEvent[] = [];
+    const unsubscribe = subscribeWatchEvents(e => { live.push(e); });
+    publish('a.txt');
+    publish('b.txt');
+    unsubscribe();
+
+    assert.ok(live[0].seq! > 0);
+    assert.strictEqual(live[1].seq, live[0].seq! + 1);
+
+    const page = getEventsSince(live[0].seq! - 1);
+    assert.deepStrictEqual(page.events.map(e => e.path), [`${ROOT}/a.txt`, `${ROOT}/b.txt`]);
+    assert.strictEqual(page.last_seq, live[1].seq);
+    assert.strictEqual(page.latest_seq, live[1].seq);
+  });
+
+  it('should page through events exactly once', () => {
+    const start = getEventsSince(0).latest_seq;
+    for (let i = 0; i < 5; i++) publish(`page-${i}.txt`);
+
+    const seen: string[] = [];
+    let since = start;
+    for (;;) {
+      const page = getEventsSince(since, 2);
+      seen.push(...page.events.map(e => e.path));
+      since = page.last_seq;
+      if (!page.has_more) break;
+    }
+    assert.deepStrictEqual(seen, [0, 1, 2, 3, 4].map(i => `${ROOT}/page-${i}.txt`));
+    assert.strictEqual(getEventsSince(since).events.length, 0);
+  });
+
+  it('should filter by watch', () => {
+    const start = getEventsSince(0).latest_seq;
+    publish('mine.txt', 'mine');
+    publish('other.txt', 'other');
+    assert.deepStrictEqual(getEventsSince(start, 100, 'mine').events.map(e => e.watchId), ['mine']);
+  });
+
+  it('should replay everything after a resume point', () => {
+    const start = getEventsSince(0).latest_seq;
+    for (let i = 0; i < 3; i++) publish(`replay-${i}.txt`);
+
+    const replayed: WatchEvent[] = [];
+    const result = replayEvents(start, e => replayed.push(e));
+    assert.strictEqual(result.replayed, 3);
+    assert.strictEqual(result.last_seq, replayed[2].seq);
+    assert.strictEqual(result.truncated, false);
+  });
+
+  it('should report pruned gaps and keep numbering after pruning', () => {
+    const start = getEventsSince(0).latest_seq;
+    for (let i = 0; i < 4; i++) publish(`old-${i}.txt`);
+
+    setEventLogRetention({ maxEntries: 2 });
+    assert.strictEqual(pruneEventLog(), 2);
+
+    const page = getEventsSince(start);
+    assert.strictEqual(page.truncated, true);
+    assert.strictEqual(page.events.length, 2);
+    assert.strictEqual(getEventsSince(page.events[0].seq! - 1).truncated, false);
+
+    getConnection().exec('DELETE FROM watch_event_log');
+    publish('after.txt');
+    assert.strictEqual(getEventsSince(page.last_seq).events[0].seq, page.last_seq + 1);
+  });
+
+  it('should reject an invalid since', () => {
+    assert.throws(() => getEventsSince(-1), /non-negative integer/);
+    assert.throws(() => getEventsSince(Number('abc')), /non-negative integer/);
+  });
+});
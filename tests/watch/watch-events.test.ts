@@ -0,0 +1,171 @@
+/**
+ * Watch Event Coalescing Tests
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { setTimeout as sleep } from 'timers/promises';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import {
+  coalesceWatchEvents,
+  publishWatchEvent,
+  subscribeWatchEvents,
+  flushWatchEvents,
+  type WatchEvent
+} from '../../src/services/watch-events.js';
+import {
+  setWatchSettings,
+  getWatchSettings,
+  loadWatchSettings,
+  deleteWatchSettings,
+  DEFAULT_WATCH_SETTINGS
+} from '../../src/services/watch-settings.js';
+import type { FsEventType } from '../../src/types.js';
+
+const ROOT = '/srv/watched';
+const ALL = { debounceMs: 50, coalesce: true, pairRenames: true };
+
+function event(type: FsEventType, path: string, watchId: string = 'w1'): WatchEvent {
+  return { watchId, type, path: `${ROOT}/${path}`, timestamp: new Date().toISOString() };
+}
+
+function summary(events: WatchEvent[]): string[] {
+  return events.map(e => `${e.type} ${e.from ? e.from.slice(ROOT.length + 1) + ' -> ' : ''}${e.path.slice(ROOT.length + 1)}`);
+}
+
+describe('Watch Event Coalescing', () => {
+
+  describe('coalesceWatchEvents()', () => {
+    it('should collapse an atomic save into one modified event', () => {
+      const events = [
+        event('created', 'doc.txt.tmp'),
+        event('modified', 'doc.txt.tmp'),
+        event('deleted', 'doc.txt'),
+        event('created', 'doc.txt'),
+        event('modified', 'doc.txt'),
+        event('deleted', 'doc.txt.tmp')
+      ];
+      assert.deepStrictEqual(summary(coalesceWatchEvents(events, ALL)), ['modified doc.txt']);
+    });
+
+    it('should keep the net effect per path', () => {
+      const events = [
+        event('created', 'new.txt'),
+        event('modified', 'new.txt'),
+        event('modified', 'old.txt'),
+        event('deleted', 'old.txt'),
+        event('modified', 'edited.txt'),
+        event('modified', 'edited.txt')
+      ];
+      assert.deepStrictEqual(summary(coalesceWatchEvents(events, { ...ALL, pairRenames: false })), [
+        'created new.txt',
+        'deleted old.txt',
+        'modified edited.txt'
+      ]);
+    });
+
+    it('should pair renames and moves', () => {
+      const events = [
+        event('deleted', 'a/report.pdf'),
+        event('deleted', 'a/draft.md'),
+        event('created', 'a/final.md'),
+        event('created', 'b/report.pdf')
+      ];
+      assert.deepStrictEqual(summary(coalesceWatchEvents(events, ALL)), [
+        'renamed a/draft.md -> a/final.md',
+        'renamed a/report.pdf -> b/report.pdf'
+      ]);
+    });
+
+    it('should leave unrelated deletes and creates alone', () => {
+      const events = [event('deleted', 'a/one.txt'), event('created', 'b/two.txt')];
+      assert.deepStrictEqual(summary(coalesceWatchEvents(events, ALL)), ['deleted a/one.txt', 'created b/two.txt']);
+    });
+
+    it('should pass events through when both features are off', () => {
+      const events = [event('modified', 'x'), event('modified', 'x')];
+      assert.strictEqual(coalesceWatchEvents(events, { ...ALL, coalesce: false, pairRenames: false }).length, 2);
+    });
+  });
+
+  describe('Debounced delivery', () => {
+    const received: WatchEvent[] = [];
+    let unsubscribe: () => void;
+
+    before(() => {
+      openConnection(':memory:');
+      setSandboxRoots([{ path: ROOT, mode: 'read-write' }]);
+      unsubscribe = subscribeWatchEvents(e => { received.push(e); });
+    });
+
+    after(() => {
+      unsubscribe();
+      setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+      closeConnection();
+    });
+
+    it('should deliver raw events without a debounce window', () => {
+      received.length = 0;
+      publishWatchEvent(event('modified', 'raw.txt', 'raw'));
+      publishWatchEvent(event('modified', 'raw.txt', 'raw'));
+      assert.strictEqual(received.length, 2);
+    });
+
+    it('should hold a burst until the watch is quiet', async () => {
+      received.length = 0;
+      setWatchSettings('burst', { debounceMs: 30 });
+
+      publishWatchEvent(event('deleted', 'notes.md', 'burst'));
+      publishWatchEvent(event('created', 'notes.md', 'burst'));
+      publishWatchEvent(event('deleted', 'old-name.md', 'burst'));
+      publishWatchEvent(event('created', 'new-name.md', 'burst'));
+      assert.strictEqual(received.length, 0);
+
+      await sleep(80);
+      assert.deepStrictEqual(summary(received), ['modified notes.md', 'renamed old-name.md -> new-name.md']);
+    });
+
+    it('should flush held events on demand', () => {
+      received.length = 0;
+      setWatchSettings('stopping', { debounceMs: 10_000 });
+      publishWatchEvent(event('modified', 'last.txt', 'stopping'));
+      flushWatchEvents('stopping');
+      assert.deepStrictEqual(summary(received), ['modified last.txt']);
+    });
+
+    it('should persist settings per watch', () => {
+      setWatchSettings('stored', { debounceMs: 250, pairRenames: false });
+      setWatchSettings('stored', { coalesce: false });
+      assert.strictEqual(loadWatchSettings(), 3);
+      assert.deepStrictEqual(getWatchSettings('stored'), { debounceMs: 250, coalesce: false, pairRenames: false, events: null });
+
+      deleteWatchSettings('stored');
+      assert.deepStrictEqual(getWatchSettings('stored'), DEFAULT_WATCH_SETTINGS);
+    });
+
+    it('should reject an out-of-range debounce window', () => {
+      assert.throws(() => setWatchSettings('bad', { debounceMs: -1 }), /debounce_ms must be/);
+      assert.throws(() => setWatchSettings('bad', { debounceMs: 600_000 }), /debounce_ms must be/);
+    });
+
+    it('should deliver only the event types a watch asked for', async () => {
+      received.length = 0;
+      setWatchSettings('renames', { events: ['renamed'] });
+
+      publishWatchEvent(event('deleted', 'a/draft.md', 'renames'));
+      publishWatchEvent(event('created', 'a/final.md', 'renames'));
+      publishWatchEvent(event('created', 'b/other.md', 'renames'));
+      assert.strictEqual(received.length, 0);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+      assert.deepStrictEqual(summary(received), ['renamed a/draft.md -> a/final.md']);
+
+      received.length = 0;
+      setWatchSettings('creates', { events: ['created'] });
+      publishWatchEvent(event('modified', 'c.txt', 'creates'));
+      publishWatchEvent(event('created', 'd.txt', 'creates'));
+      assert.deepStrictEqual(summary(received), ['created d.txt']);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Webhook Delivery Tests
+ * Deliveries go to a local HTTP receiver that records requests and
+ * answers with a scripted status code.
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setTimeout as sleep } from 'timers/promises';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { publishWatchEvent, type WatchEvent } from '../../src/services/watch-events.js';
+import { setDeliveryRetention, pruneWebhookDeliveries } from '../../src/database/webhooks.js';
+import {
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listWebhooks,
+  enqueueWebhookEvent,
+  processWebhookQueue,
+  getWebhookDeliveries,
+  retryWebhookDelivery,
+  verifyWebhookSignature,
+  setWebhookRetryPolicy,
+  getWebhookRetryPolicy,
+  retryDelay,
+  startWebhooks,
+  stopWebhooks,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER
+} from '../../src/services/webhook-service.js';
+
+interface ReceivedRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+const ROOT = '/srv/hooks';
+
+function event(path: string, watchId: string = 'w1'): WatchEvent {
+  return { watchId, type: 'created', path: `${ROOT}/${path}`, timestamp: new Date().toISOString() };
+}
+
+describe('Webhook Delivery', () => {
+  const defaults = getWebhookRetryPolicy();
+  let server: Server;
+  let url: string;
+  const received: ReceivedRequest[] = [];
+  let statuses: number[] = [];
+
+  before(async () => {
+    openConnection(':memory:');
+    setSandboxRoots([{ path: ROOT, mode: 'read-write' }]);
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  after(async () => {
+    stopWebhooks();
+    setWebhookRetryPolicy(defaults);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    await new Promise(resolve => server.close(resolve));
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    for (const webhook of listWebhooks()) deleteWebhook(webhook.id);
+    received.length = 0;
+    statuses = [];
+    setWebhookRetryPolicy({ ...defaults, baseDelayMs: 0, maxAttempts: 3 });
+  });
+
+  it('should deliver a signed event', async () => {
+    const webhook = createWebhook({ url, secret: 'shh' });
+    assert.strictEqual(enqueueWebhookEvent(event('a.pdf')), 1);
+    assert.strictEqual(await processWebhookQueue(), 1);
+
+    const [request] = received;
+    const payload = JSON.parse(request.body);
+    assert.strictEqual(payload.webhook_id, webhook.id);
+    assert.strictEqual(payload.event.path, `${ROOT}/a.pdf`);
+
+    const timestamp = request.headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+    const signature = request.headers[SIGNATURE_HEADER.toLowerCase()] as string;
+    assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+    assert.ok(verifyWebhookSignature('shh', timestamp, request.body, signature));
+    assert.ok(!verifyWebhookSignature('wrong', timestamp, request.body, signature));
+
+    const [delivery] = getWebhookDeliveries(webhook.id);
+    assert.strictEqual(delivery.status, 'delivered');
+    assert.strictEqual(delivery.last_status, 200);
+  });
+
+  it('should only queue events matching the watch, paths and types', () => {
+    createWebhook({ url, watchId: 'w1', paths: [`${ROOT}/docs/**`], events: ['created'] });
+    assert.strictEqual(enqueueWebhookEvent(event('docs/in.md')), 1);
+    assert.strictEqual(enqueueWebhookEvent(event('other/out.md')), 0);
+    assert.strictEqual(enqueueWebhookEvent(event('docs/in.md', 'w2')), 0);
+    assert.strictEqual(enqueueWebhookEvent({ ...event('docs/in.md'), type: 'deleted' }), 0);
+  });
+
+  it('should retry failures and then succeed', async () => {
+    const webhook = createWebhook({ url });
+    statuses = [500];
+    enqueueWebhookEvent(event('retry.pdf'));
+
+    await processWebhookQueue();
+    let [delivery] = getWebhookDeliveries(webhook.id);
+    assert.strictEqual(delivery.status, 'pending');
+    assert.strictEqual(delivery.last_error, 'HTTP 500');
+
+    await processWebhookQueue();
+    [delivery] = getWebhookDeliveries(webhook.id);
+    assert.strictEqual(delivery.status, 'delivered');
+    assert.strictEqual(delivery.attempts, 2);
+    assert.strictEqual(received.length, 2);
+  });
+
+  it('should dead-letter after the attempt limit and allow a manual retry', async () => {
+    const webhook = createWebhook({ url });
+    statuses = [503, 503, 503];
+    enqueueWebhookEvent(event('dead.pdf'));
+
+    for (let i = 0; i < 4; i++) await processWebhookQueue();
+    let [delivery] = getWebhookDeliveries(webhook.id, 'dead');
+    assert.strictEqual(delivery.attempts, 3);
+    assert.strictEqual(received.length, 3);
+
+    assert.ok(retryWebhookDelivery(delivery.id));
+    await processWebhookQueue();
+    [delivery] = getWebhookDeliveries(webhook.id);
+    assert.strictEqual(delivery.status, 'delivered');
+  });
+
+  it('should treat an unreachable endpoint as a failure', async () => {
+    const webhook = createWebhook({ url: 'http://127.0.0.1:1/unreachable' });
+    enqueueWebhookEvent(event('down.pdf'));
+    await processWebhookQueue();
+    const [delivery] = getWebhookDeliveries(webhook.id);
+    assert.strictEqual(delivery.status, 'pending');
+    assert.ok(delivery.last_error);
+  });
+
+  it('should attempt every due delivery in one pass', async () => {
+    const webhook = createWebhook({ url });
+    statuses = Array(50).fill(500);
+    for (let i = 0; i < 60; i++) enqueueWebhookEvent(event(`batch-${i}.pdf`));
+
+    // The whole first batch fails and is due again before the pass ends
+    assert.strictEqual(await processWebhookQueue(), 60);
+    assert.strictEqual(received.length, 60);
+    assert.strictEqual(getWebhookDeliveries(webhook.id, 'delivered').length, 10);
+  });
+
+  it('should prune finished deliveries but keep pending ones', async () => {
+    const webhook = createWebhook({ url });
+    statuses = [500];
+    for (const name of ['one.pdf', 'two.pdf', 'three.pdf']) enqueueWebhookEvent(event(name));
+    await processWebhookQueue();
+
+    try {
+      setDeliveryRetention({ maxAgeDays: 0, maxEntries: 1 });
+      assert.strictEqual(pruneWebhookDeliveries(), 1);
+      assert.deepStrictEqual(getWebhookDeliveries(webhook.id).map(d => d.status).sort(), ['delivered', 'pending']);
+
+      setDeliveryRetention({ maxAgeDays: 0, maxEntries: 0 });
+      assert.strictEqual(pruneWebhookDeliveries(), 0);
+    } finally {
+      setDeliveryRetention({ maxAgeDays: 7, maxEntries: 10000 });
+    }
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    setWebhookRetryPolicy({ baseDelayMs: 1000, maxDelayMs: 5000 });
+    assert.deepStrictEqual([1, 2, 3, 4].map(retryDelay), [1000, 2000, 4000, 5000]);
+  });
+
+  it('should validate URLs and support disabling', () => {
+    assert.throws(() => createWebhook({ url: 'file:///etc/passwd' }), /http or https/);
+    const webhook = createWebhook({ url });
+    assert.strictEqual(updateWebhook(webhook.id, { enabled: false }).enabled, false);
+    assert.strictEqual(enqueueWebhookEvent(event('off.pdf')), 0);
+    assert.ok(!('secret' in listWebhooks()[0]));
+  });
+
+  it('should deliver events from the watch event bus', async () => {
+    createWebhook({ url });
+    startWebhooks();
+    try {
+      publishWatchEvent(event('bus.pdf'));
+      for (let i = 0; i < 50 && received.length === 0; i++) await sleep(10);
+      assert.strictEqual(JSON.parse(received[0].body).event.path, `${ROOT}/bus.pdf`);
+    } finally {
+      stopWebhooks();
+    }
+  });
+});
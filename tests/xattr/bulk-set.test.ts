@@ -0,0 +1,191 @@
+/**
+ * Bulk Xattr Tests
+ * Target selection, dry runs and rollback (in-memory backend)
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { setXattrBackend } from '../../src/services/xattr-backends/index.js';
+import { selectBulkTargets, bulkSetXattrs } from '../../src/services/bulk-xattr-service.js';
+import { createMemoryBackend } from '../helpers/memory-backend.js';
+
+describe('Bulk Xattr Operations', () => {
+  let root: string;
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), 'fg-bulk-'));
+    mkdirSync(join(root, 'docs', 'drafts'), { recursive: true });
+    mkdirSync(join(root, 'node_modules'));
+    writeFileSync(join(root, 'readme.md'), '');
+    writeFileSync(join(root, 'docs', 'guide.md'), '');
+    writeFileSync(join(root, 'docs', 'logo.png'), '');
+    writeFileSync(join(root, 'docs', 'drafts', 'idea.md'), '');
+    writeFileSync(join(root, 'node_modules', 'dep.md'), '');
+    symlinkSync(join(root, 'docs'), join(root, 'docs-link'));
+    setSandboxRoots([{ path: root, mode: 'read-write' }]);
+  });
+
+  after(() => {
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const rel = (paths: string[]) => paths.map(p => p.slice(root.length + 1)).sort();
+
+  describe('selectBulkTargets()', () => {
+    it('should select every file by default, skipping symlinks', async () => {
+      assert.deepStrictEqual(rel(await selectBulkTargets(root)), [
+        'docs/drafts/idea.md',
+        'docs/guide.md',
+        'docs/logo.png',
+        'node_modules/dep.md',
+        'readme.md'
+      ]);
+    });
+
+    it('should apply include and exclude globs relative to the root', async () => {
+      const targets = await selectBulkTargets(root, { include: ['**/*.md'], exclude: ['node_modules/**'] });
+      assert.deepStrictEqual(rel(targets), ['docs/drafts/idea.md', 'docs/guide.md', 'readme.md']);
+    });
+
+    it('should respect max depth', async () => {
+      const targets = await selectBulkTargets(root, { include: ['**/*.md'], maxDepth: 1 });
+      assert.deepStrictEqual(rel(targets), ['docs/guide.md', 'node_modules/dep.md', 'readme.md']);
+    });
+
+    it('should optionally include directories', async () => {
+      const targets = await selectBulkTargets(root, { include: ['docs', 'docs/drafts'], includeDirectories: true });
+      assert.deepStrictEqual(rel(targets), ['docs', 'docs/drafts']);
+    });
+
+    it('should reject roots outside the sandbox', async () => {
+      await assert.rejects(selectBulkTargets('/etc'), /Path outside allowed directories/);
+    });
+  });
+
+  describe('bulkSetXattrs()', () => {
+    it('should report affected files on a dry run', async () => {
+      const result = await bulkSetXattrs(root, { 'com.example.project': 'alpha', 'com.example.old': null }, {
+        include: ['docs/**'],
+        dryRun: true
+      });
+      assert.strictEqual(result.dry_run, true);
+      assert.strictEqual(result.matched, 3);
+      assert.deepStrictEqual(result.files[0].set, ['com.example.project']);
+      assert.deepStrictEqual(result.files[0].deleted, ['com.example.old']);
+    });
+
+    it('should reject an empty patch', async () => {
+      await assert.rejects(bulkSetXattrs(root, {}, { dryRun: true }), /must not be empty/);
+    });
+
+    it('should refuse to write under a read-only root', async () => {
+      setSandboxRoots([{ path: root, mode: 'read-only' }]);
+      try {
+        await assert.rejects(bulkSetXattrs(root, { 'com.example.project': 'alpha' }), /read-only/);
+      } finally {
+        setSandboxRoots([{ path: root, mode: 'read-write' }]);
+      }
+    });
+  });
+
+  describe('createOnly', () => {
+    const backend = createMemoryBackend();
+
+    before(() => {
+      openConnection(':memory:');
+      setXattrBackend(backend);
+    });
+
+    after(() => {
+      setXattrBackend(null);
+      closeConnection();
+    });
+
+    it('should skip attributes a file already has without failing the run', async () => {
+      backend.files.clear();
+      const guide = join(root, 'docs', 'guide.md');
+      backend.files.set(guide, new Map([['user.project', Buffer.from('beta')]]));
+
+      const result = await bulkSetXattrs(root, { 'user.project': 'alpha', 'user.owner': 'me' }, {
+        include: ['readme.md', 'docs/guide.md'],
+        createOnly: true
+      });
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.skipped, 1);
+      const file = result.files.find(f => f.path === guide)!;
+      assert.deepStrictEqual(file.skipped, ['user.project']);
+      assert.deepStrictEqual(file.set, ['user.owner']);
+      assert.deepStrictEqual(file.failed, []);
+      assert.strictEqual(backend.files.get(guide)!.get('user.project')!.toString(), 'beta');
+      assert.strictEqual(backend.files.get(join(root, 'readme.md'))!.get('user.project')!.toString(), 'alpha');
+    });
+  });
+
+  describe('Rollback', () => {
+    const backend = createMemoryBackend();
+    const { list, remove } = backend;
+    let written: string | null;
+    let failRestore: boolean;
+
+    before(() => {
+      openConnection(':memory:');
+      setXattrBackend(backend);
+    });
+
+    after(() => {
+      setXattrBackend(null);
+      closeConnection();
+    });
+
+    beforeEach(() => {
+      backend.files.clear();
+      written = null;
+      failRestore = false;
+      // The first file is patched, then every other file's attributes become unreadable
+      backend.list = async (path) => {
+        if (written && path !== written) throw new Error('EIO: i/o error');
+        return list(path);
+      };
+      backend.write = async (path, name, value) => {
+        written ??= path;
+        backend.files.set(path, new Map([...(backend.files.get(path) ?? []), [name, Buffer.from(value)]]));
+      };
+      backend.remove = async (path, name) => {
+        if (failRestore) throw new Error('EIO: i/o error');
+        return remove(path, name);
+      };
+    });
+
+    const patchTwo = () => bulkSetXattrs(root, { 'user.project': 'alpha' }, { include: ['readme.md', 'docs/guide.md'] });
+
+    it('should fail a file whose attributes cannot be snapshotted and undo earlier files', async () => {
+      const result = await patchTwo();
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.rolled_back, true);
+      assert.deepStrictEqual(result.files.map(f => f.rolled_back), [true, true]);
+      assert.deepStrictEqual(result.files[1].set, []);
+      assert.deepStrictEqual(result.files[1].failed.map(f => [f.name, f.code]), [['*', 'INTERNAL']]);
+      assert.strictEqual(backend.files.get(written!)!.has('user.project'), false);
+    });
+
+    it('should report files that could not be restored', async () => {
+      failRestore = true;
+      const result = await patchTwo();
+
+      assert.strictEqual(result.rolled_back, false);
+      const [first, second] = result.files;
+      assert.strictEqual(first.rolled_back, false);
+      assert.deepStrictEqual(first.rollback_failed?.map(f => [f.name, f.code]), [['user.project', 'INTERNAL']]);
+      assert.strictEqual(second.rolled_back, true);
+      assert.strictEqual(backend.files.get(written!)!.has('user.project'), true);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Xattr Copy and Sync Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { openConnection, closeConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { setXattrBackend } from '../../src/services/xattr-backends/index.js';
+import { copyXattrs, syncXattrs } from '../../src/services/xattr-copy-service.js';
+import { createMemoryBackend, type MemoryXattrBackend } from '../helpers/memory-backend.js';
+
+describe('Xattr Copy and Sync', () => {
+  let root: string;
+  let backend: MemoryXattrBackend;
+
+  const attrsOf = (path: string) =>
+    Object.fromEntries([...(backend.files.get(path) ?? new Map<string, Buffer>())].map(([k, v]) => [k, v.toString('utf8')]));
+
+  const put = (path: string, attrs: Record<string, string | Buffer>) => {
+    backend.files.set(path, new Map(Object.entries(attrs).map(([k, v]) => [k, Buffer.from(v)])));
+  };
+
+  before(() => {
+    openConnection(':memory:');
+    root = mkdtempSync(join(tmpdir(), 'fg-copy-'));
+    setSandboxRoots([{ path: root, mode: 'read-write' }]);
+  });
+
+  after(() => {
+    setXattrBackend(null);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    rmSync(root, { recursive: true, force: true });
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    backend = createMemoryBackend();
+    setXattrBackend(backend);
+  });
+
+  describe('copyXattrs()', () => {
+    it('should merge source attributes into each destination', async () => {
+      put(`${root}/src.md`, { 'com.imminence.dewey': '{"code":"004"}', 'user.note': 'hello' });
+      put(`${root}/a.md`, { 'user.keep': 'mine', 'user.note': 'old' });
+
+      const result = await copyXattrs(`${root}/src.md`, [`${root}/a.md`, `${root}/b.md`]);
+
+      assert.deepStrictEqual(attrsOf(`${root}/a.md`), {
+        'user.keep': 'mine',
+        'user.note': 'hello',
+        'com.imminence.dewey': '{"code":"004"}'
+      });
+      assert.deepStrictEqual(attrsOf(`${root}/b.md`), { 'com.imminence.dewey': '{"code":"004"}', 'user.note': 'hello' });
+      assert.strictEqual(result.destinations.length, 2);
+    });
+
+    it('should copy binary values byte for byte', async () => {
+      const binary = Buffer.from([0x62, 0x70, 0x00, 0xff, 0x01]);
+      put(`${root}/src.md`, { 'com.apple.FinderInfo': binary });
+      await copyXattrs(`${root}/src.md`, [`${root}/a.md`]);
+      assert.ok(backend.files.get(`${root}/a.md`)!.get('com.apple.FinderInfo')!.equals(binary));
+    });
+
+    it('should make the destination match in overwrite mode', async () => {
+      put(`${root}/src.md`, { 'user.note': 'new' });
+      put(`${root}/a.md`, { 'user.note': 'old', 'user.extra': 'x' });
+      const result = await copyXattrs(`${root}/src.md`, [`${root}/a.md`], { mode: 'overwrite' });
+      assert.deepStrictEqual(attrsOf(`${root}/a.md`), { 'user.note': 'new' });
+      assert.deepStrictEqual(result.destinations[0].deleted, ['user.extra']);
+    });
+
+    it('should leave existing attributes alone in skip-existing mode', async () => {
+      put(`${root}/src.md`, { 'user.note': 'new', 'user.tag': 't' });
+      put(`${root}/a.md`, { 'user.note': 'old' });
+      const result = await copyXattrs(`${root}/src.md`, [`${root}/a.md`], { mode: 'skip-existing' });
+      assert.deepStrictEqual(attrsOf(`${root}/a.md`), { 'user.note': 'old', 'user.tag': 't' });
+      assert.deepStrictEqual(result.destinations[0].skipped, ['user.note']);
+    });
+
+    it('should copy only selected names', async () => {
+      put(`${root}/src.md`, { 'user.note': 'n', 'user.tag': 't' });
+      await copyXattrs(`${root}/src.md`, [`${root}/a.md`], { names: ['user.tag'] });
+      assert.deepStrictEqual(attrsOf(`${root}/a.md`), { 'user.tag': 't' });
+    });
+
+    it('should not write on a dry run', async () => {
+      put(`${root}/src.md`, { 'user.note': 'n' });
+      const result = await copyXattrs(`${root}/src.md`, [`${root}/a.md`], { dryRun: true });
+      assert.deepStrictEqual(result.destinations[0].set, ['user.note']);
+      assert.deepStrictEqual(attrsOf(`${root}/a.md`), {});
+    });
+
+    it('should remove copied attributes from the source on move', async () => {
+      put(`${root}/src.md`, { 'user.note': 'n' });
+      const result = await copyXattrs(`${root}/src.md`, [`${root}/a.md`], { move: true });
+      assert.deepStrictEqual(result.moved, ['user.note']);
+      assert.deepStrictEqual(attrsOf(`${root}/src.md`), {});
+      assert.deepStrictEqual(attrsOf(`${root}/a.md`), { 'user.note': 'n' });
+    });
+
+    it('should keep the source intact when a move fails or skips', async () => {
+      put(`${root}/src.md`, { 'user.note': 'n', 'user.tag': 't' });
+      const failed = await copyXattrs(`${root}/src.md`, [`${root}/a.md`, '/etc/passwd'], { move: true });
+      assert.strictEqual(failed.moved, undefined);
+      assert.deepStrictEqual(attrsOf(`${root}/src.md`), { 'user.note': 'n', 'user.tag': 't' });
+
+      put(`${root}/b.md`, { 'user.note': 'old' });
+      const skipped = await copyXattrs(`${root}/src.md`, [`${root}/b.md`], { mode: 'skip-existing', move: true });
+      assert.deepStrictEqual(skipped.moved, ['user.tag']);
+      assert.deepStrictEqual(attrsOf(`${root}/src.md`), { 'user.note': 'n' });
+    });
+
+    it('should report destinations outside the sandbox as failed', async () => {
+      put(`${root}/src.md`, { 'user.note': 'n' });
+      const result = await copyXattrs(`${root}/src.md`, ['/etc/passwd']);
+      assert.match(result.destinations[0].failed[0].error, /Path outside allowed directories/);
+      assert.strictEqual(result.destinations[0].failed[0].code, 'PATH_OUTSIDE_SANDBOX');
+    });
+  });
+
+  describe('syncXattrs()', () => {
+    it('should mirror attributes by relative path', async () => {
+      for (const tree of ['old', 'new']) {
+        mkdirSync(join(root, tree, 'docs'), { recursive: true });
+        writeFileSync(join(root, tree, 'docs', 'a.md'), '');
+      }
+      writeFileSync(join(root, 'old', 'gone.md'), '');
+      put(join(root, 'old', 'docs', 'a.md'), { 'user.tag': 'Red' });
+
+      const result = await syncXattrs(join(root, 'old'), join(root, 'new'));
+
+      assert.deepStrictEqual(attrsOf(join(root, 'new', 'docs', 'a.md')), { 'user.tag': 'Red' });
+      assert.deepStrictEqual(result.missing, ['gone.md']);
+      assert.strictEqual(result.files.length, 1);
+    });
+  });
+});
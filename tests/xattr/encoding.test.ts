@@ -0,0 +1,113 @@
+/**
+ * Xattr Value Encoding Tests
+ * Round-trip guarantees for binary-safe attribute values
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { encodeXattrValue, decodeXattrValue, isEncodedInput } from '../../src/utils/xattr-encoding.js';
+
+describe('Xattr Value Encoding', () => {
+
+  describe('encodeXattrValue()', () => {
+    it('should write plain strings as UTF-8', () => {
+      assert.deepStrictEqual(encodeXattrValue('héllo'), Buffer.from('héllo', 'utf8'));
+    });
+
+    it('should write plain objects as JSON', () => {
+      assert.strictEqual(encodeXattrValue({ a: 1 }).toString(), '{"a":1}');
+    });
+
+    it('should decode explicit hex', () => {
+      assert.deepStrictEqual(encodeXattrValue({ value: '00ff10', encoding: 'hex' }), Buffer.from([0, 255, 16]));
+    });
+
+    it('should accept whitespace in hex dumps', () => {
+      assert.deepStrictEqual(encodeXattrValue({ value: '00 ff\n10', encoding: 'hex' }), Buffer.from([0, 255, 16]));
+    });
+
+    it('should decode explicit base64', () => {
+      assert.deepStrictEqual(encodeXattrValue({ value: 'AP8Q', encoding: 'base64' }), Buffer.from([0, 255, 16]));
+    });
+
+    it('should serialize explicit json of any type', () => {
+      assert.strictEqual(encodeXattrValue({ value: [1, 'two'], encoding: 'json' }).toString(), '[1,"two"]');
+    });
+
+    it('should reject malformed hex', () => {
+      assert.throws(() => encodeXattrValue({ value: 'abc', encoding: 'hex' }), /Invalid hex/);
+      assert.throws(() => encodeXattrValue({ value: 'zz', encoding: 'hex' }), /Invalid hex/);
+    });
+
+    it('should reject malformed base64', () => {
+      assert.throws(() => encodeXattrValue({ value: 'not base64!', encoding: 'base64' }), /Invalid base64/);
+    });
+
+    it('should reject non-string utf8 values', () => {
+      assert.throws(() => encodeXattrValue({ value: 42, encoding: 'utf8' }), /must be a string/);
+    });
+
+    it('should treat objects with other keys as JSON', () => {
+      const input = { value: 'x', encoding: 'hex', extra: true };
+      assert.strictEqual(isEncodedInput(input), false);
+      assert.strictEqual(encodeXattrValue(input).toString(), JSON.stringify(input));
+    });
+  });
+
+  describe('decodeXattrValue()', () => {
+    it('should keep ASCII that looks like hex as utf8', () => {
+      assert.deepStrictEqual(decodeXattrValue(Buffer.from('cafe')), { value: 'cafe', size: 4, encoding: 'utf8' });
+    });
+
+    it('should return binary data as hex', () => {
+      assert.deepStrictEqual(decodeXattrValue(Buffer.from([0x62, 0x70, 0x00, 0xff])), {
+        value: '627000ff',
+        size: 4,
+        encoding: 'hex'
+      });
+    });
+
+    it('should return compact JSON objects as json', () => {
+      assert.deepStrictEqual(decodeXattrValue(Buffer.from('{"a":[1,2]}')), {
+        value: { a: [1, 2] },
+        size: 11,
+        encoding: 'json'
+      });
+    });
+
+    it('should keep non-canonical JSON as utf8', () => {
+      const decoded = decodeXattrValue(Buffer.from('{ "a": 1 }'));
+      assert.strictEqual(decoded.encoding, 'utf8');
+      assert.strictEqual(decoded.value, '{ "a": 1 }');
+    });
+
+    it('should keep JSON scalars as utf8', () => {
+      assert.strictEqual(decodeXattrValue(Buffer.from('123')).encoding, 'utf8');
+      assert.strictEqual(decodeXattrValue(Buffer.from('true')).encoding, 'utf8');
+    });
+
+    it('should preserve surrounding whitespace', () => {
+      assert.strictEqual(decodeXattrValue(Buffer.from(' padded\n')).value, ' padded\n');
+    });
+  });
+
+  describe('Round Trip', () => {
+    const samples = [
+      Buffer.from(''),
+      Buffer.from('cafe'),
+      Buffer.from('{"glec":{"level":2}}'),
+      Buffer.from('{ "spaced": true }'),
+      Buffer.from([0x62, 0x70, 0x6c, 0x69, 0x73, 0x74, 0x30, 0x30, 0xa1, 0x01]),
+      Buffer.from([0xed, 0xa0, 0x80]),
+      Buffer.from('line\nbreak\0nul')
+    ];
+
+    for (const raw of samples) {
+      it(`should round-trip ${JSON.stringify(raw.toString('hex'))}`, () => {
+        const decoded = decodeXattrValue(raw);
+        const encoded = encodeXattrValue({ value: decoded.value, encoding: decoded.encoding });
+        assert.ok(encoded.equals(raw));
+      });
+    }
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Xattr Fallback Store Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, mkdirSync, writeFileSync, renameSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { setXattrBackend, withFallbackStore, isXattrUnsupportedError } from '../../src/services/xattr-backends/index.js';
+import { getXattrs, setXattrs, listXattrs } from '../../src/services/xattr-service.js';
+import { migrateFallbackXattrs } from '../../src/services/xattr-fallback-service.js';
+import { setXattrPolicy } from '../../src/services/xattr-policy.js';
+import { getXattrHistoryRows } from '../../src/database/xattr-history.js';
+import { createMemoryBackend, type MemoryXattrBackend } from '../helpers/memory-backend.js';
+
+describe('Xattr Fallback Store', () => {
+  let root: string;
+  let fat: string;
+  let backend: MemoryXattrBackend;
+
+  before(() => {
+    openConnection(':memory:');
+    root = mkdtempSync(join(tmpdir(), 'fg-fallback-'));
+    fat = join(root, 'fat');
+    mkdirSync(fat);
+    setSandboxRoots([{ path: root, mode: 'read-write' }]);
+  });
+
+  after(() => {
+    setXattrBackend(null);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    rmSync(root, { recursive: true, force: true });
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    getConnection().exec('DELETE FROM xattr_fallback');
+    backend = createMemoryBackend();
+    backend.unsupported.add(fat);
+    setXattrBackend(withFallbackStore(backend));
+  });
+
+  function file(dir: string, name: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, '');
+    return path;
+  }
+
+  it('should recognise unsupported-operation errors', () => {
+    assert.ok(isXattrUnsupportedError(Object.assign(new Error('x'), { code: 'ENOTSUP' })));
+    assert.ok(isXattrUnsupportedError(new Error('[Errno 45] Operation not supported: /Volumes/USB/a')));
+    assert.ok(!isXattrUnsupportedError(new Error('No such xattr: user.x')));
+  });
+
+  it('should fail without the store', async () => {
+    setXattrBackend(backend);
+    const result = await setXattrs(file(fat, 'plain.txt'), { 'com.imminence.note': 'hello' });
+    assert.deepStrictEqual(result.set, []);
+    assert.match(result.failed[0].error, /Operation not supported/);
+  });
+
+  it('should store values the filesystem rejects and read them back', async () => {
+    const path = file(fat, 'stored.txt');
+    const result = await setXattrs(path, { 'com.imminence.note': 'hello' });
+    assert.deepStrictEqual(result.set, ['com.imminence.note']);
+
+    const listed = await listXattrs(path);
+    assert.deepStrictEqual(listed.attributes, ['com.imminence.note']);
+    assert.deepStrictEqual(listed.fallback, ['com.imminence.note']);
+
+    const { attributes } = await getXattrs(path);
+    assert.strictEqual(attributes['com.imminence.note'].value, 'hello');
+    assert.strictEqual(attributes['com.imminence.note'].storage, 'fallback');
+  });
+
+  it('should mark real xattrs and keep using them on capable volumes', async () => {
+    const path = file(root, 'real.txt');
+    await setXattrs(path, { 'com.imminence.note': 'hello' });
+
+    assert.strictEqual(backend.files.get(path)!.get('com.imminence.note')!.toString(), 'hello');
+    assert.strictEqual((await getXattrs(path)).attributes['com.imminence.note'].storage, 'xattr');
+    assert.strictEqual((await listXattrs(path)).fallback, undefined);
+  });
+
+  it('should read only the requested attributes', async () => {
+    const path = file(root, 'some.txt');
+    await setXattrs(path, { 'com.imminence.a': '1', 'com.imminence.b': '2', 'com.imminence.c': '3' });
+
+    const { attributes } = await getXattrs(path, ['com.imminence.a', 'com.imminence.c', 'com.imminence.missing']);
+    assert.deepStrictEqual(Object.keys(attributes).sort(), ['com.imminence.a', 'com.imminence.c']);
+    assert.deepStrictEqual(Object.keys((await getXattrs(path, 'com.imminence.b')).attributes), ['com.imminence.b']);
+  });
+
+  it('should follow the file across a rename and delete from the store', async () => {
+    const path = file(fat, 'before.txt');
+    await setXattrs(path, { 'com.imminence.note': 'hello' });
+    const renamed = join(fat, 'after.txt');
+    renameSync(path, renamed);
+
+    assert.strictEqual((await getXattrs(renamed)).attributes['com.imminence.note'].value, 'hello');
+
+    const result = await setXattrs(renamed, { 'com.imminence.note': null });
+    assert.deepStrictEqual(result.deleted, ['com.imminence.note']);
+    assert.strictEqual((await listXattrs(renamed)).count, 0);
+  });
+
+  it('should drop values stored for an earlier file with the same inode', async () => {
+    const path = file(fat, 'reused.txt');
+    await setXattrs(path, { 'com.imminence.note': 'hello' });
+    // As if the row was written for a deleted file whose inode this one got
+    getConnection().exec("UPDATE xattr_fallback SET born = '1'");
+
+    assert.strictEqual((await listXattrs(path)).count, 0);
+    assert.strictEqual((getConnection().prepare('SELECT COUNT(*) AS n FROM xattr_fallback').get() as { n: number }).n, 0);
+  });
+
+  it('should match on the stored path where there is no birth time', async () => {
+    const path = file(fat, 'unborn.txt');
+    await setXattrs(path, { 'com.imminence.note': 'hello' });
+    getConnection().exec('UPDATE xattr_fallback SET born = NULL');
+    assert.strictEqual((await listXattrs(path)).count, 1);
+
+    getConnection().prepare('UPDATE xattr_fallback SET path = ?').run(join(fat, 'deleted.txt'));
+    assert.strictEqual((await listXattrs(path)).count, 0);
+  });
+
+  it('should check the policy and record history when migrating', async () => {
+    const path = file(fat, 'guarded.txt');
+    await setXattrs(path, { 'com.imminence.note': 'hello', 'com.imminence.qm': '{"score":1}' });
+    backend.unsupported.clear();
+
+    setXattrPolicy([{ id: 'qm', effect: 'deny', attributes: ['com.imminence.qm'], operations: ['create'] }]);
+    try {
+      const result = await migrateFallbackXattrs(path);
+      assert.deepStrictEqual(result.files[0].migrated, ['com.imminence.note']);
+      assert.match(result.files[0].failed[0].error, /Denied by policy \(qm\)/);
+      assert.strictEqual(result.files[0].failed[0].code, 'POLICY_DENIED');
+    } finally {
+      setXattrPolicy([]);
+    }
+
+    const migrations = getXattrHistoryRows(path).filter(row => row.operation === 'migrate');
+    assert.deepStrictEqual(migrations.map(row => [row.attribute, row.old_value, row.new_value?.toString()]), [['com.imminence.note', null, 'hello']]);
+  });
+
+  it('should migrate stored values once the volume supports xattrs', async () => {
+    const path = file(fat, 'migrated.txt');
+    await setXattrs(path, { 'com.imminence.note': 'hello', 'com.imminence.qm': '{"score":1}' });
+
+    const blocked = await migrateFallbackXattrs(fat);
+    assert.strictEqual(blocked.migrated, 0);
+    assert.strictEqual(blocked.remaining, 2);
+
+    backend.unsupported.clear();
+    const preview = await migrateFallbackXattrs(fat, { dryRun: true });
+    assert.strictEqual(preview.migrated, 2);
+    assert.strictEqual(backend.files.get(path)?.size ?? 0, 0);
+
+    const result = await migrateFallbackXattrs(fat);
+    assert.strictEqual(result.migrated, 2);
+    assert.strictEqual(result.remaining, 0);
+    assert.strictEqual(backend.files.get(path)!.get('com.imminence.note')!.toString(), 'hello');
+
+    const { attributes } = await getXattrs(path);
+    assert.strictEqual(attributes['com.imminence.note'].storage, 'xattr');
+    assert.strictEqual((await listXattrs(path)).fallback, undefined);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Linux Xattr Backend Tests
+ * Exercises getfattr/setfattr against a real directory (tmpfs/ext4)
+ *
+ * Skipped when the attr tools are missing or the filesystem
+ * does not support user extended attributes.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { linuxXattrBackend, toLinuxName, fromLinuxName } from '../../src/services/xattr-backends/linux.js';
+import { selectXattrBackend } from '../../src/services/xattr-backends/index.js';
+
+const TEST_DIR = process.env.XATTR_TEST_DIR || tmpdir();
+
+/**
+ * Check that setfattr exists and the test directory accepts user xattrs
+ */
+function userXattrsSupported(): boolean {
+  if (process.platform !== 'linux') return false;
+  const dir = mkdtempSync(join(TEST_DIR, 'fg-probe-'));
+  try {
+    const file = join(dir, 'probe');
+    writeFileSync(file, '');
+    execFileSync('setfattr', ['-n', 'user.probe', '-v', '0x01', file], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const skip = !userXattrsSupported() && 'user xattrs unavailable on this host';
+
+describe('Linux Xattr Backend', () => {
+
+  describe('Name Mapping', () => {
+    it('should prefix names with the user namespace', () => {
+      assert.strictEqual(toLinuxName('com.imminence.dewey'), 'user.com.imminence.dewey');
+    });
+
+    it('should strip the user namespace', () => {
+      assert.strictEqual(fromLinuxName('user.com.apple.quarantine'), 'com.apple.quarantine');
+    });
+
+    it('should hide attributes outside the user namespace', () => {
+      assert.strictEqual(fromLinuxName('security.selinux'), null);
+      assert.strictEqual(fromLinuxName('trusted.overlay.opaque'), null);
+    });
+  });
+
+  describe('Backend Selection', () => {
+    it('should pick the linux backend on linux', () => {
+      assert.strictEqual(selectXattrBackend(undefined, 'linux').name, 'linux');
+    });
+
+    it('should pick the macos backend on darwin', () => {
+      assert.strictEqual(selectXattrBackend(undefined, 'darwin').name, 'macos');
+    });
+
+    it('should honour an explicit override', () => {
+      assert.strictEqual(selectXattrBackend('linux', 'darwin').name, 'linux');
+    });
+
+    it('should reject unknown overrides', () => {
+      assert.throws(() => selectXattrBackend('zfs', 'linux'), /Unknown xattr backend/);
+    });
+
+    it('should reject unsupported platforms', () => {
+      assert.throws(() => selectXattrBackend(undefined, 'win32'), /No xattr backend/);
+    });
+  });
+
+  describe('Filesystem Operations', { skip }, () => {
+    let dir: string;
+    let file: string;
+
+    before(() => {
+      dir = mkdtempSync(join(TEST_DIR, 'fg-xattr-'));
+      file = join(dir, 'document.md');
+      writeFileSync(file, '# test\n');
+    });
+
+    after(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should list no attributes on a fresh file', async () => {
+      assert.deepStrictEqual(await linuxXattrBackend.list(file), []);
+    });
+
+    it('should write and read back a value', async () => {
+      await linuxXattrBackend.write(file, 'com.imminence.dewey', Buffer.from('{"class":"000"}'));
+      const value = await linuxXattrBackend.read(file, 'com.imminence.dewey');
+      assert.strictEqual(value.toString('utf8'), '{"class":"000"}');
+    });
+
+    it('should store values in the user namespace', () => {
+      const raw = execFileSync('getfattr', ['--absolute-names', '-d', file], { encoding: 'utf8' });
+      assert.ok(raw.includes('user.com.imminence.dewey'));
+    });
+
+    it('should preserve quotes and shell metacharacters', async () => {
+      const value = Buffer.from(`"quoted" $(whoami) 'single' \\n`);
+      await linuxXattrBackend.write(file, 'com.imminence.qm', value);
+      assert.ok((await linuxXattrBackend.read(file, 'com.imminence.qm')).equals(value));
+    });
+
+    it('should round-trip binary bytes exactly', async () => {
+      const value = Buffer.from([0x00, 0xff, 0x0a, 0x20, 0x62, 0x70]);
+      await linuxXattrBackend.write(file, 'com.example.binary', value);
+      assert.ok((await linuxXattrBackend.read(file, 'com.example.binary')).equals(value));
+      await linuxXattrBackend.remove(file, 'com.example.binary');
+    });
+
+    it('should list attributes by guardian name', async () => {
+      const names = await linuxXattrBackend.list(file);
+      assert.deepStrictEqual(names.sort(), ['com.imminence.dewey', 'com.imminence.qm']);
+    });
+
+    it('should remove an attribute', async () => {
+      await linuxXattrBackend.remove(file, 'com.imminence.qm');
+      assert.deepStrictEqual(await linuxXattrBackend.list(file), ['com.imminence.dewey']);
+    });
+
+    it('should fail reading a missing attribute', async () => {
+      await assert.rejects(linuxXattrBackend.read(file, 'com.imminence.missing'));
+    });
+  });
+});
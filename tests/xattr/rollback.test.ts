@@ -0,0 +1,76 @@
+/**
+ * Xattr Rollback Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import { recordXattrChange, getXattrHistoryRows } from '../../src/database/xattr-history.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { setXattrBackend } from '../../src/services/xattr-backends/index.js';
+import { rollbackXattrs } from '../../src/services/xattr-history-service.js';
+import { createMemoryBackend, type MemoryXattrBackend } from '../helpers/memory-backend.js';
+
+describe('Xattr Rollback', () => {
+  let root: string;
+  let file: string;
+  let backend: MemoryXattrBackend;
+
+  before(() => {
+    openConnection(':memory:');
+    root = mkdtempSync(join(tmpdir(), 'fg-rollback-'));
+    file = join(root, 'doc.md');
+    writeFileSync(file, '');
+    setSandboxRoots([{ path: root, mode: 'read-write' }]);
+  });
+
+  after(() => {
+    setXattrBackend(null);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    rmSync(root, { recursive: true, force: true });
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    getConnection().exec('DELETE FROM xattr_history');
+    backend = createMemoryBackend();
+    setXattrBackend(backend);
+  });
+
+  it('should restore earlier values and delete attributes that did not exist', async () => {
+    const from = recordXattrChange(file, 'user.a', 'set', Buffer.from('1'), Buffer.from('2'));
+    recordXattrChange(file, 'user.b', 'set', null, Buffer.from('x'));
+    backend.files.set(file, new Map([['user.a', Buffer.from('2')], ['user.b', Buffer.from('x')]]));
+
+    const result = await rollbackXattrs(file, { operationId: from });
+    assert.deepStrictEqual(result.changes.map(c => [c.attribute, c.action]), [['user.a', 'restored'], ['user.b', 'deleted']]);
+    assert.deepStrictEqual([...backend.files.get(file)!.keys()], ['user.a']);
+    assert.strictEqual(backend.files.get(file)!.get('user.a')!.toString(), '1');
+  });
+
+  it('should skip attributes that already hold their earlier state', async () => {
+    const from = recordXattrChange(file, 'user.gone', 'set', null, Buffer.from('x'));
+    recordXattrChange(file, 'user.same', 'set', Buffer.from('1'), Buffer.from('2'));
+    backend.files.set(file, new Map([['user.same', Buffer.from('1')]]));
+
+    const preview = await rollbackXattrs(file, { operationId: from }, undefined, true);
+    const result = await rollbackXattrs(file, { operationId: from });
+
+    assert.deepStrictEqual(preview.changes, []);
+    assert.deepStrictEqual(result.changes, []);
+    assert.deepStrictEqual(result.failed, []);
+    assert.ok(!getXattrHistoryRows(file).some(row => row.operation === 'rollback'));
+  });
+
+  it('should report failures with an error code', async () => {
+    const from = recordXattrChange(file, 'user.a', 'set', Buffer.from('1'), Buffer.from('2'));
+    backend.unsupported.add(root);
+
+    const result = await rollbackXattrs(file, { operationId: from });
+    assert.deepStrictEqual(result.changes, []);
+    assert.deepStrictEqual(result.failed.map(f => f.code), ['XATTR_UNSUPPORTED']);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * setXattrs Tests
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { openConnection, closeConnection, getConnection } from '../../src/database/connection.js';
+import { getXattrHistoryRows } from '../../src/database/xattr-history.js';
+import { setSandboxRoots, DEFAULT_SANDBOX_ROOTS } from '../../src/utils/path-validator.js';
+import { setXattrBackend } from '../../src/services/xattr-backends/index.js';
+import { setXattrs } from '../../src/services/xattr-service.js';
+import { setXattrPolicy } from '../../src/services/xattr-policy.js';
+import { createMemoryBackend, type MemoryXattrBackend } from '../helpers/memory-backend.js';
+
+describe('setXattrs()', () => {
+  let root: string;
+  let file: string;
+  let backend: MemoryXattrBackend;
+
+  before(() => {
+    openConnection(':memory:');
+    root = mkdtempSync(join(tmpdir(), 'fg-set-'));
+    file = join(root, 'doc.md');
+    writeFileSync(file, '');
+    setSandboxRoots([{ path: root, mode: 'read-write' }]);
+  });
+
+  after(() => {
+    setXattrBackend(null);
+    setXattrPolicy([]);
+    setSandboxRoots(DEFAULT_SANDBOX_ROOTS.map(r => ({ ...r })));
+    rmSync(root, { recursive: true, force: true });
+    closeConnection();
+  });
+
+  beforeEach(() => {
+    getConnection().exec('DELETE FROM xattr_history');
+    backend = createMemoryBackend();
+    setXattrBackend(backend);
+    setXattrPolicy([{ id: 'qm', effect: 'deny', attributes: ['user.qm'], operations: ['overwrite', 'delete'] }]);
+  });
+
+  /** Existing values can be listed but not read */
+  function breakReads(): void {
+    backend.read = async () => { throw new Error('EIO: i/o error'); };
+  }
+
+  it('should not treat an unreadable value as a create', async () => {
+    backend.files.set(file, new Map([['user.qm', Buffer.from('first')]]));
+    breakReads();
+
+    const result = await setXattrs(file, { 'user.qm': 'second' });
+    assert.deepStrictEqual(result.set, []);
+    assert.deepStrictEqual(result.failed.map(f => [f.name, f.code]), [['user.qm', 'INTERNAL']]);
+    assert.strictEqual(backend.files.get(file)!.get('user.qm')!.toString(), 'first');
+  });
+
+  it('should not delete or record history when the old value cannot be read', async () => {
+    backend.files.set(file, new Map([['user.note', Buffer.from('kept')]]));
+    breakReads();
+
+    const result = await setXattrs(file, { 'user.note': null });
+    assert.deepStrictEqual(result.deleted, []);
+    assert.deepStrictEqual(result.failed.map(f => f.name), ['user.note']);
+    assert.ok(backend.files.get(file)!.has('user.note'));
+    assert.deepStrictEqual(getXattrHistoryRows(file), []);
+  });
+});